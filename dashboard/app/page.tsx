@@ -15,6 +15,9 @@ const statusColors: Record<string, string> = {
   completed: 'bg-green-100 text-green-700',
   failed: 'bg-red-100 text-red-700',
   paused: 'bg-orange-100 text-orange-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+  interrupted: 'bg-orange-100 text-orange-700',
+  awaiting_approval: 'bg-purple-100 text-purple-700',
 };
 
 const statusIcons: Record<string, React.ReactNode> = {
@@ -27,6 +30,9 @@ const statusIcons: Record<string, React.ReactNode> = {
   completed: <CheckCircle2 className="w-4 h-4" />,
   failed: <XCircle className="w-4 h-4" />,
   paused: <AlertCircle className="w-4 h-4" />,
+  cancelled: <XCircle className="w-4 h-4" />,
+  interrupted: <AlertCircle className="w-4 h-4" />,
+  awaiting_approval: <AlertCircle className="w-4 h-4" />,
 };
 
 export default function Dashboard() {
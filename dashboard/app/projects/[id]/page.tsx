@@ -2,7 +2,20 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
-import { getProject, getFindings, pauseProject, type ProjectDetail, type Finding } from '@/lib/api';
+import {
+  getProject,
+  getFindings,
+  getPlan,
+  pauseProject,
+  resumeProject,
+  cancelProject,
+  approveProject,
+  reportDownloadUrl,
+  type ProjectDetail,
+  type Finding,
+  type PlanTask,
+  type ApprovalDecision,
+} from '@/lib/api';
 import { connectSocket, subscribeToProject, unsubscribeFromProject, onProjectEvent, type WebSocketEvent } from '@/lib/socket';
 import {
   Loader2,
@@ -16,7 +29,11 @@ import {
   Users,
   FileText,
   Pause,
+  Play,
+  Square,
   RefreshCw,
+  Plus,
+  Trash2,
 } from 'lucide-react';
 
 const statusColors: Record<string, string> = {
@@ -39,6 +56,185 @@ const confidenceColors: Record<string, string> = {
   low: 'bg-red-100 text-red-700',
 };
 
+const gateTitles: Record<string, string> = {
+  after_planning: 'Review the research plan',
+  after_research: 'Review research findings',
+  before_report: 'Approve before the report is written',
+};
+
+const plannableAgents = ['web_researcher', 'financial_analyst', 'competitive_intelligence', 'news_monitor'];
+
+function ApprovalPanel({
+  projectId,
+  detail,
+  onReviewFindings,
+  onApproved,
+}: {
+  projectId: string;
+  detail: ProjectDetail;
+  onReviewFindings: () => void;
+  onApproved: () => void;
+}) {
+  const approval = detail.project.approval!;
+  const [tasks, setTasks] = useState<PlanTask[]>([]);
+  const [removeTaskIds, setRemoveTaskIds] = useState<string[]>([]);
+  const [addTasks, setAddTasks] = useState<NonNullable<ApprovalDecision['addTasks']>>([]);
+  const [newAgentType, setNewAgentType] = useState(plannableAgents[0]);
+  const [newQuestionId, setNewQuestionId] = useState('');
+  const [newQuestion, setNewQuestion] = useState('');
+  const [guidance, setGuidance] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPlan(projectId)
+      .then((plan) => setTasks(plan.tasks.filter((task) => task.status === 'pending')))
+      .catch(() => setTasks([]));
+  }, [projectId, approval.requestedAt]);
+
+  const toggleRemove = (taskId: string) => {
+    setRemoveTaskIds((ids) => (ids.includes(taskId) ? ids.filter((id) => id !== taskId) : [...ids, taskId]));
+  };
+
+  const handleAddTask = () => {
+    if (!newQuestionId && !newQuestion.trim()) return;
+    setAddTasks((current) => [
+      ...current,
+      {
+        agentType: newAgentType,
+        questionId: newQuestionId || undefined,
+        question: newQuestion.trim() || undefined,
+      },
+    ]);
+    setNewQuestion('');
+  };
+
+  const handleApprove = async () => {
+    setSubmitting(true);
+    try {
+      await approveProject(projectId, { guidance, addTasks, removeTaskIds });
+      setError(null);
+      onApproved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve checkpoint');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-purple-200 p-6 mb-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{gateTitles[approval.gate]}</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {approval.findingsCount} findings so far, {approval.pendingTasks} tasks still to run.{' '}
+            <button onClick={onReviewFindings} className="text-primary-600 hover:underline">
+              Review findings
+            </button>
+          </p>
+        </div>
+        <button
+          onClick={handleApprove}
+          disabled={submitting}
+          className="flex items-center space-x-1 px-4 py-2 rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+          <span>Approve and continue</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg text-sm">{error}</div>
+      )}
+
+      {tasks.length > 0 && (
+        <div className="mt-6">
+          <h3 className="font-medium text-gray-900 mb-2">Tasks to run</h3>
+          <div className="space-y-2">
+            {tasks.map((task) => (
+              <div key={task.id} className="flex items-center justify-between text-sm">
+                <span className={removeTaskIds.includes(task.id) ? 'line-through text-gray-400' : 'text-gray-700'}>
+                  <span className="font-medium">{task.agentType.replace(/_/g, ' ')}</span>: {task.question}
+                </span>
+                <button
+                  onClick={() => toggleRemove(task.id)}
+                  className="p-1 rounded text-gray-500 hover:text-red-600"
+                  title={removeTaskIds.includes(task.id) ? 'Keep task' : 'Remove task'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6">
+        <h3 className="font-medium text-gray-900 mb-2">Add tasks</h3>
+        {addTasks.map((task, index) => (
+          <p key={index} className="text-sm text-gray-700">
+            <span className="font-medium">{task.agentType.replace(/_/g, ' ')}</span>:{' '}
+            {task.question || detail.scopingDocument.keyQuestions.find((q) => q.id === task.questionId)?.question}
+          </p>
+        ))}
+        <div className="flex items-center space-x-2 mt-2">
+          <select
+            value={newAgentType}
+            onChange={(e) => setNewAgentType(e.target.value)}
+            className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          >
+            {plannableAgents.map((agentType) => (
+              <option key={agentType} value={agentType}>{agentType.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          <select
+            value={newQuestionId}
+            onChange={(e) => setNewQuestionId(e.target.value)}
+            className="border border-gray-300 rounded-lg px-2 py-1 text-sm max-w-[200px]"
+          >
+            <option value="">No key question</option>
+            {detail.scopingDocument.keyQuestions.map((q) => (
+              <option key={q.id} value={q.id}>{q.question}</option>
+            ))}
+          </select>
+          <input
+            value={newQuestion}
+            onChange={(e) => setNewQuestion(e.target.value)}
+            placeholder="What should the agent research?"
+            className="flex-1 border border-gray-300 rounded-lg px-2 py-1 text-sm"
+          />
+          <button
+            onClick={handleAddTask}
+            className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            title="Add task"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="font-medium text-gray-900 mb-2">Guidance for the next agents</h3>
+        <textarea
+          value={guidance}
+          onChange={(e) => setGuidance(e.target.value)}
+          rows={3}
+          placeholder="For example: focus on the European market; treat the 2023 figures as restated"
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        />
+        {detail.project.guidance.length > 0 && (
+          <ul className="mt-2 text-sm text-gray-500 list-disc list-inside">
+            {detail.project.guidance.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export default function ProjectPage() {
   const params = useParams();
   const projectId = params.id as string;
@@ -110,6 +306,24 @@ export default function ProjectPage() {
     }
   };
 
+  const handleResume = async () => {
+    try {
+      await resumeProject(projectId);
+      loadProject();
+    } catch {
+      setError('Failed to resume project');
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await cancelProject(projectId);
+      loadProject();
+    } catch {
+      setError('Failed to cancel project');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -147,14 +361,19 @@ export default function ProjectPage() {
             <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium ${
               projectData.status === 'completed' ? 'bg-green-100 text-green-700' :
               projectData.status === 'failed' ? 'bg-red-100 text-red-700' :
+              projectData.status === 'paused' || projectData.status === 'interrupted' ? 'bg-orange-100 text-orange-700' :
+              projectData.status === 'cancelled' ? 'bg-gray-100 text-gray-700' :
+              projectData.status === 'awaiting_approval' ? 'bg-purple-100 text-purple-700' :
               'bg-blue-100 text-blue-700'
             }`}>
               {projectData.status === 'completed' ? <CheckCircle2 className="w-4 h-4" /> :
-               projectData.status === 'failed' ? <XCircle className="w-4 h-4" /> :
+               projectData.status === 'failed' || projectData.status === 'cancelled' ? <XCircle className="w-4 h-4" /> :
+               projectData.status === 'paused' ? <Pause className="w-4 h-4" /> :
+               projectData.status === 'interrupted' || projectData.status === 'awaiting_approval' ? <AlertCircle className="w-4 h-4" /> :
                <Loader2 className="w-4 h-4 animate-spin" />}
-              <span className="capitalize">{projectData.status}</span>
+              <span className="capitalize">{projectData.status.replace(/_/g, ' ')}</span>
             </span>
-            {projectData.status !== 'completed' && projectData.status !== 'failed' && projectData.status !== 'paused' && (
+            {projectData.status !== 'completed' && projectData.status !== 'failed' && projectData.status !== 'cancelled' && projectData.status !== 'paused' && projectData.status !== 'interrupted' && projectData.status !== 'awaiting_approval' && (
               <button
                 onClick={handlePause}
                 className="flex items-center space-x-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -163,6 +382,24 @@ export default function ProjectPage() {
                 <span>Pause</span>
               </button>
             )}
+            {(projectData.status === 'paused' || projectData.status === 'interrupted') && (
+              <button
+                onClick={handleResume}
+                className="flex items-center space-x-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                <Play className="w-4 h-4" />
+                <span>Resume</span>
+              </button>
+            )}
+            {projectData.status !== 'completed' && projectData.status !== 'failed' && projectData.status !== 'cancelled' && (
+              <button
+                onClick={handleCancel}
+                className="flex items-center space-x-1 px-3 py-1 rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+              >
+                <Square className="w-4 h-4" />
+                <span>Cancel</span>
+              </button>
+            )}
             <button
               onClick={loadProject}
               className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
@@ -189,6 +426,18 @@ export default function ProjectPage() {
         )}
       </div>
 
+      {projectData.status === 'awaiting_approval' && projectData.approval && (
+        <ApprovalPanel
+          projectId={projectId}
+          detail={project}
+          onReviewFindings={() => {
+            loadFindings();
+            setActiveTab('findings');
+          }}
+          onApproved={loadProject}
+        />
+      )}
+
       {/* Tabs */}
       <div className="flex space-x-1 mb-6 bg-gray-100 p-1 rounded-lg w-fit">
         {(['overview', 'findings', 'report'] as const).map((tab) => (
@@ -234,6 +483,7 @@ export default function ProjectPage() {
                   <span className={`px-2 py-1 rounded text-xs font-medium ${statusColors[agent.status]}`}>
                     {agent.status === 'active' && <Loader2 className="w-3 h-3 animate-spin inline mr-1" />}
                     {agent.status}
+                    {agent.activeTasks > 1 && ` (${agent.activeTasks})`}
                   </span>
                 </div>
               ))}
@@ -271,7 +521,7 @@ export default function ProjectPage() {
           {/* Stats */}
           <div className="bg-white rounded-xl border border-gray-200 p-6 lg:col-span-2">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Research Statistics</h2>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
               <div className="text-center p-4 bg-gray-50 rounded-lg">
                 <p className="text-2xl font-bold text-primary-600">{projectData.findingsCount}</p>
                 <p className="text-sm text-gray-600">Findings</p>
@@ -288,6 +538,10 @@ export default function ProjectPage() {
                 <p className="text-2xl font-bold text-primary-600">{projectData.metadata.totalTokensUsed.toLocaleString()}</p>
                 <p className="text-sm text-gray-600">Tokens Used</p>
               </div>
+              <div className="text-center p-4 bg-gray-50 rounded-lg">
+                <p className="text-2xl font-bold text-primary-600">${projectData.metadata.totalCostUsd.toFixed(2)}</p>
+                <p className="text-sm text-gray-600">Model Cost</p>
+              </div>
             </div>
           </div>
         </div>
@@ -331,7 +585,20 @@ export default function ProjectPage() {
         <div className="bg-white rounded-xl border border-gray-200 p-6">
           {report ? (
             <div>
-              <h2 className="text-2xl font-bold text-gray-900 mb-6">{report.title}</h2>
+              <div className="flex items-start justify-between mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{report.title}</h2>
+                <div className="flex items-center space-x-2 text-sm">
+                  {(['pdf', 'docx', 'pptx', 'html', 'md'] as const).map((format) => (
+                    <a
+                      key={format}
+                      href={reportDownloadUrl(projectId, format)}
+                      className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 uppercase"
+                    >
+                      {format}
+                    </a>
+                  ))}
+                </div>
+              </div>
 
               {/* Executive Summary */}
               <section className="mb-8">
@@ -20,22 +20,61 @@ export interface ProjectDetail {
       startedAt: string;
       completedAt?: string;
       totalTokensUsed: number;
+      totalCostUsd: number;
       totalSearches: number;
       totalSources: number;
     };
+    approval?: ApprovalRequest;
+    approvals: ApprovalRecord[];
+    guidance: string[];
   };
   scopingDocument: ScopingDocument;
   report: Report | null;
 }
 
+export interface ApprovalRequest {
+  gate: 'after_planning' | 'after_research' | 'before_report';
+  requestedAt: string;
+  findingsCount: number;
+  pendingTasks: number;
+}
+
+export interface ApprovalRecord {
+  gate: ApprovalRequest['gate'];
+  requestedAt: string;
+  approvedAt: string;
+  guidance?: string;
+  addedTaskIds: string[];
+  removedTaskIds: string[];
+}
+
+export interface PlanTask {
+  id: string;
+  agentType: string;
+  questionId?: string;
+  question?: string;
+  priority: number;
+  dependencies: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'blocked';
+  round: number;
+}
+
+export interface ApprovalDecision {
+  guidance?: string;
+  addTasks?: Array<{ agentType: string; questionId?: string; question?: string }>;
+  removeTaskIds?: string[];
+}
+
 export interface AgentStatus {
   id: string;
   type: string;
   name: string;
   status: 'idle' | 'active' | 'completed' | 'error';
   currentTask: string | null;
+  activeTasks: number;
   progress: number;
   tokensUsed: number;
+  costUsd: number;
 }
 
 export interface ScopingDocument {
@@ -126,6 +165,16 @@ export async function getReport(projectId: string): Promise<{ report: Report }>
   return res.json();
 }
 
+export async function getPlan(projectId: string): Promise<{ projectId: string; tasks: PlanTask[] }> {
+  const res = await fetch(`${API_URL}/api/projects/${projectId}/plan`);
+  if (!res.ok) throw new Error('Failed to fetch plan');
+  return res.json();
+}
+
+export function reportDownloadUrl(projectId: string, format: 'md' | 'html' | 'pdf' | 'docx' | 'pptx'): string {
+  return `${API_URL}/api/projects/${projectId}/report.${format}`;
+}
+
 export async function createProject(data: {
   targetCompany: string;
   questions: string[];
@@ -165,6 +214,35 @@ export async function pauseProject(projectId: string): Promise<{ success: boolea
   return res.json();
 }
 
+export async function resumeProject(projectId: string): Promise<{ success: boolean }> {
+  const res = await fetch(`${API_URL}/api/projects/${projectId}/resume`, {
+    method: 'POST',
+  });
+  if (!res.ok) throw new Error('Failed to resume project');
+  return res.json();
+}
+
+export async function approveProject(projectId: string, decision: ApprovalDecision): Promise<{ success: boolean }> {
+  const res = await fetch(`${API_URL}/api/projects/${projectId}/approve`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(decision),
+  });
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.errors?.join('; ') || error.message || 'Failed to approve checkpoint');
+  }
+  return res.json();
+}
+
+export async function cancelProject(projectId: string): Promise<{ success: boolean }> {
+  const res = await fetch(`${API_URL}/api/projects/${projectId}/cancel`, {
+    method: 'POST',
+  });
+  if (!res.ok) throw new Error('Failed to cancel project');
+  return res.json();
+}
+
 export async function getTemplate(format: 'json' | 'yaml' = 'json'): Promise<string> {
   const res = await fetch(`${API_URL}/api/templates/scoping?format=${format}`);
   if (!res.ok) throw new Error('Failed to fetch template');
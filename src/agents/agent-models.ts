@@ -0,0 +1,15 @@
+export const DEFAULT_AGENT_MODEL = 'claude-opus-4-5-20251101';
+
+/**
+ * Model each agent type runs on unless a task overrides it, for example
+ * to conserve budget. Plan previews price their estimates from this too.
+ */
+export const AGENT_MODELS: Record<string, string> = {
+  web_researcher: DEFAULT_AGENT_MODEL,
+  financial_analyst: DEFAULT_AGENT_MODEL,
+  competitive_intelligence: DEFAULT_AGENT_MODEL,
+  news_monitor: DEFAULT_AGENT_MODEL,
+  data_synthesizer: DEFAULT_AGENT_MODEL,
+  report_generator: DEFAULT_AGENT_MODEL,
+  quality_reviewer: DEFAULT_AGENT_MODEL,
+};
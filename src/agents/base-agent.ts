@@ -1,8 +1,20 @@
 import Anthropic from '@anthropic-ai/sdk';
-import AnthropicVertex from '@anthropic-ai/vertex-sdk';
 import { v4 as uuidv4 } from 'uuid';
+import { EventEmitter } from 'events';
 import type { AgentDBClient } from '../memory/agentdb-client.js';
-import type { AgentType, ResearchFinding, Source, MemoryEntry } from '../types/index.js';
+import { DEFAULT_AGENT_MODEL } from './agent-models.js';
+import { getPricingTable, recordResponseUsage, type PricingTable } from '../usage/index.js';
+import {
+  classifyError,
+  createLLMClient,
+  llmConfigFromEnv,
+  retryConfigFromEnv,
+  withRetry,
+  type LLMClient,
+  type RetryAttempt,
+  type RetryOptions,
+} from '../llm/index.js';
+import type { AgentType, ResearchFinding, Source, MemoryEntry, ResearchError, TokenUsage } from '../types/index.js';
 
 /**
  * GCP credentials for Vertex AI authentication
@@ -21,6 +33,15 @@ export interface AgentConfig {
   maxTokens?: number;
   temperature?: number;
   gcpCredentials?: GCPCredentials;
+  /** Model client (default: configured from LLM_MODE, using gcpCredentials when set) */
+  llmClient?: LLMClient;
+}
+
+/**
+ * Services shared by all agents that can be injected in place of defaults
+ */
+export interface AgentOptions {
+  llmClient?: LLMClient;
 }
 
 export interface AgentContext {
@@ -29,6 +50,12 @@ export interface AgentContext {
   questionId?: string;
   question?: string;
   additionalContext?: string;
+  /** Model to use instead of the agent's default (e.g. a cheaper model near budget) */
+  model?: string;
+  /** Maximum tool calls allowed within this task */
+  maxToolCalls?: number;
+  /** Aborted when the project is paused or cancelled; the task should stop */
+  signal?: AbortSignal;
 }
 
 export interface AgentResult {
@@ -36,8 +63,24 @@ export interface AgentResult {
   findings: ResearchFinding[];
   sources: Source[];
   insights: string[];
+  /** What the task looked for but could not find, for follow-up research */
+  gaps?: string[];
   error?: string;
+  errorType?: ResearchError['type'];
+  /** Whether the task may succeed if run again */
+  recoverable?: boolean;
   tokensUsed: number;
+  usage: TokenUsage;
+}
+
+/**
+ * Payload of the 'retry' event emitted before a failed model call is retried
+ */
+export interface AgentRetryEvent extends RetryAttempt {
+  agentId: string;
+  agentType: AgentType;
+  projectId?: string;
+  questionId?: string;
 }
 
 type MessageRole = 'user' | 'assistant';
@@ -52,37 +95,33 @@ interface Message {
  *
  * Provides common functionality:
  * - Claude API integration via Vertex AI with user's GCP credentials
+ *   (or a recording/replaying client for offline runs)
  * - Memory storage via AgentDB
  * - Structured output parsing
- * - Error handling and retries
+ * - Error handling and retries (emits 'retry' events)
  */
-export abstract class BaseAgent {
+export abstract class BaseAgent extends EventEmitter {
   protected id: string;
   protected config: AgentConfig;
-  protected client: Anthropic | AnthropicVertex;
+  protected client: LLMClient;
   protected memory: AgentDBClient;
   protected conversationHistory: Message[] = [];
   protected gcpCredentials?: GCPCredentials;
+  protected pricing: PricingTable;
+  protected retryOptions: RetryOptions;
 
   constructor(config: AgentConfig, memory: AgentDBClient) {
+    super();
     this.id = uuidv4();
     this.config = config;
     this.memory = memory;
     this.gcpCredentials = config.gcpCredentials;
+    this.pricing = getPricingTable();
+    this.retryOptions = retryConfigFromEnv();
 
-    // Use Vertex AI if GCP credentials are provided, otherwise fall back to direct API
-    if (config.gcpCredentials) {
-      this.client = new AnthropicVertex({
-        projectId: config.gcpCredentials.projectId,
-        region: config.gcpCredentials.region,
-        accessToken: config.gcpCredentials.accessToken,
-      });
-    } else {
-      // Fallback for local development without GCP
-      this.client = new Anthropic({
-        apiKey: process.env.ANTHROPIC_API_KEY,
-      });
-    }
+    // Vertex AI if GCP credentials are provided, otherwise the direct API,
+    // unless LLM_MODE selects recording or replay
+    this.client = config.llmClient || createLLMClient(llmConfigFromEnv(config.gcpCredentials));
   }
 
   /**
@@ -91,12 +130,7 @@ export abstract class BaseAgent {
   updateCredentials(accessToken: string): void {
     if (this.gcpCredentials) {
       this.gcpCredentials.accessToken = accessToken;
-      // Recreate Vertex AI client with new token
-      this.client = new AnthropicVertex({
-        projectId: this.gcpCredentials.projectId,
-        region: this.gcpCredentials.region,
-        accessToken: accessToken,
-      });
+      this.client.updateCredentials?.(accessToken);
     }
   }
 
@@ -112,6 +146,10 @@ export abstract class BaseAgent {
     return this.config.name;
   }
 
+  get model(): string {
+    return this.config.model || DEFAULT_AGENT_MODEL;
+  }
+
   /**
    * Execute the agent's primary task
    */
@@ -119,20 +157,26 @@ export abstract class BaseAgent {
 
   /**
    * Send a message to Claude and get a response
+   *
+   * Token usage is added to options.usage when provided. The task context,
+   * when provided, supplies model overrides and identifies retry events.
    */
   protected async chat(
     userMessage: string,
     options?: {
       includeHistory?: boolean;
       tools?: Anthropic.Tool[];
+      usage?: TokenUsage;
+      context?: AgentContext;
     }
   ): Promise<string> {
     const messages: Anthropic.MessageParam[] = options?.includeHistory
       ? [...this.conversationHistory.map(m => ({ role: m.role, content: m.content })), { role: 'user' as const, content: userMessage }]
       : [{ role: 'user' as const, content: userMessage }];
 
-    const requestParams: Anthropic.MessageCreateParams = {
-      model: this.config.model || 'claude-opus-4-5-20251101',
+    const model = options?.context?.model || this.model;
+    const requestParams: Anthropic.MessageCreateParamsNonStreaming = {
+      model,
       max_tokens: this.config.maxTokens || 8192,
       system: this.config.systemPrompt,
       messages,
@@ -142,7 +186,8 @@ export abstract class BaseAgent {
       requestParams.tools = options.tools;
     }
 
-    const response = await this.client.messages.create(requestParams);
+    const response = await this.createMessage(requestParams, options?.context);
+    this.trackUsage(options?.usage, model, response.usage);
 
     // Extract text content from response
     const textContent = response.content.find(
@@ -160,23 +205,34 @@ export abstract class BaseAgent {
 
   /**
    * Send a message with tool use capability
+   *
+   * Token usage across every turn of the tool loop is added to options.usage
+   * when provided. Once the context's maxToolCalls is reached, further tool
+   * calls are refused and the model is asked for its final answer.
    */
   protected async chatWithTools(
     userMessage: string,
     tools: Anthropic.Tool[],
-    toolHandler: (toolName: string, toolInput: Record<string, unknown>) => Promise<string>
+    toolHandler: (toolName: string, toolInput: Record<string, unknown>) => Promise<string>,
+    options: { usage?: TokenUsage; context?: AgentContext } = {}
   ): Promise<string> {
+    const model = options.context?.model || this.model;
+    const maxToolCalls = options.context?.maxToolCalls;
     let messages: Anthropic.MessageParam[] = [{ role: 'user' as const, content: userMessage }];
     let finalResponse = '';
+    let toolCalls = 0;
+    let toolLimitReached = false;
 
     while (true) {
-      const response = await this.client.messages.create({
-        model: this.config.model || 'claude-opus-4-5-20251101',
+      const response = await this.createMessage({
+        model,
         max_tokens: this.config.maxTokens || 8192,
         system: this.config.systemPrompt,
         tools,
+        tool_choice: toolLimitReached ? { type: 'none' } : undefined,
         messages,
-      });
+      }, options.context);
+      this.trackUsage(options.usage, model, response.usage);
 
       // Check if we need to handle tool calls
       const toolUseBlocks = response.content.filter(
@@ -195,6 +251,21 @@ export abstract class BaseAgent {
       // Process tool calls
       const toolResults: Anthropic.ToolResultBlockParam[] = [];
       for (const toolUse of toolUseBlocks) {
+        if (maxToolCalls !== undefined && toolCalls >= maxToolCalls) {
+          toolLimitReached = true;
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            content: 'Tool call limit for this task reached. Provide your final answer using the information gathered so far.',
+            is_error: true,
+          });
+          continue;
+        }
+
+        // Tools don't take the signal, so stop between calls instead
+        options.context?.signal?.throwIfAborted();
+
+        toolCalls++;
         const result = await toolHandler(toolUse.name, toolUse.input as Record<string, unknown>);
         toolResults.push({
           type: 'tool_result',
@@ -215,11 +286,67 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Store a finding in shared memory
+   * Create a message, retrying transient failures with backoff and a
+   * per-attempt timeout. Throws LLMCallError once retries are exhausted.
+   */
+  private async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    context?: AgentContext
+  ): Promise<Anthropic.Message> {
+    return withRetry(
+      timeoutMs => this.client.createMessage(params, { timeoutMs, signal: context?.signal }),
+      this.retryOptions,
+      attempt => {
+        const event: AgentRetryEvent = {
+          ...attempt,
+          agentId: this.id,
+          agentType: this.config.type,
+          projectId: context?.projectId,
+          questionId: context?.questionId,
+        };
+        this.emit('retry', event);
+      },
+      context?.signal
+    );
+  }
+
+  /**
+   * Failure fields for an AgentResult, with the error classified
+   */
+  protected describeFailure(error: unknown): Pick<AgentResult, 'error' | 'errorType' | 'recoverable'> {
+    const { type, recoverable } = classifyError(error);
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      errorType: type,
+      recoverable,
+    };
+  }
+
+  /**
+   * Add a response's token usage and cost to a running total
+   */
+  private trackUsage(usage: TokenUsage | undefined, model: string, responseUsage: Anthropic.Usage): void {
+    if (usage) {
+      recordResponseUsage(usage, model, responseUsage, this.pricing);
+    }
+  }
+
+  /**
+   * Store a finding in shared memory. Sources without an ID take the ID of
+   * the project's registered source for the same URL, or a new one.
    */
-  protected storeFinding(finding: Omit<ResearchFinding, 'id' | 'agentId' | 'agentType'>): ResearchFinding {
+  protected storeFinding(
+    finding: Omit<ResearchFinding, 'id' | 'agentId' | 'agentType' | 'sources'> & {
+      sources: Array<Omit<Source, 'id'> & { id?: string }>;
+    }
+  ): ResearchFinding {
+    const registered = finding.sources.some(source => !source.id) ? this.memory.getSources(finding.projectId) : [];
     const completeFinding: ResearchFinding = {
       ...finding,
+      sources: finding.sources.map(source => ({
+        ...source,
+        id: source.id || registered.find(row => row.url && row.url === source.url)?.id || uuidv4(),
+      })),
       id: uuidv4(),
       agentId: this.id,
       agentType: this.config.type,
@@ -267,6 +394,20 @@ export abstract class BaseAgent {
     return this.memory.getFindings(projectId, questionId);
   }
 
+  /**
+   * Get the findings most relevant to a task's question, rather than all of them
+   */
+  protected getRelevantFindings(
+    context: AgentContext,
+    agentTypes: AgentType[],
+    limit: number = 10
+  ): ResearchFinding[] {
+    const query = [context.question, context.targetCompany].filter(Boolean).join('\n');
+    return this.memory
+      .searchFindings(context.projectId, query, limit, { agentTypes })
+      .map(result => result.finding);
+  }
+
   /**
    * Parse JSON from Claude response
    */
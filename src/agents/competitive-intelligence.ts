@@ -1,6 +1,8 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseAgent, AgentContext, AgentResult, GCPCredentials } from './base-agent.js';
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
 import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { emptyUsage } from '../usage/index.js';
 import type { ResearchFinding, Source } from '../types/index.js';
 
 /**
@@ -14,12 +16,13 @@ import type { ResearchFinding, Source } from '../types/index.js';
  * - Strategic moves and patterns
  */
 export class CompetitiveIntelligenceAgent extends BaseAgent {
-  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials) {
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: AgentOptions = {}) {
     super(
       {
         name: 'Competitive Intelligence Analyst',
         type: 'competitive_intelligence',
         gcpCredentials,
+        llmClient: options.llmClient,
         systemPrompt: `You are an expert competitive intelligence analyst specializing in market dynamics and competitive positioning.
 
 Your role is to analyze the competitive landscape around a target company, identify key competitors, and assess market dynamics.
@@ -68,7 +71,7 @@ Guidelines:
 - Identify potential strategic opportunities and threats
 
 Output your analysis in a structured format with clear competitive insights.`,
-        model: 'claude-opus-4-5-20251101',
+        model: AGENT_MODELS.competitive_intelligence,
         maxTokens: 8192,
       },
       memory
@@ -79,7 +82,7 @@ Output your analysis in a structured format with clear competitive insights.`,
     const findings: ResearchFinding[] = [];
     const sources: Source[] = [];
     const insights: string[] = [];
-    let tokensUsed = 0;
+    const usage = emptyUsage();
 
     try {
       const tools: Anthropic.Tool[] = [
@@ -130,10 +133,7 @@ Output your analysis in a structured format with clear competitive insights.`,
       const analysisPrompt = this.buildAnalysisPrompt(context);
 
       // Get context from other agents
-      const existingFindings = this.getExistingFindings(context.projectId);
-      const relevantFindings = existingFindings.filter(
-        f => f.agentType === 'web_researcher' || f.agentType === 'financial_analyst'
-      );
+      const relevantFindings = this.getRelevantFindings(context, ['web_researcher', 'financial_analyst']);
 
       const contextSummary = relevantFindings.length > 0
         ? `\n\nRelevant findings from other research:\n${relevantFindings.map(f => `- [${f.agentType}] ${f.title}: ${f.summary}`).join('\n')}`
@@ -144,7 +144,8 @@ Output your analysis in a structured format with clear competitive insights.`,
         tools,
         async (toolName, toolInput) => {
           return this.handleToolCall(toolName, toolInput, context.projectId, sources);
-        }
+        },
+        { usage, context }
       );
 
       const parsedFindings = await this.parseFindings(response, context);
@@ -164,17 +165,19 @@ Output your analysis in a structured format with clear competitive insights.`,
         findings,
         sources,
         insights,
-        tokensUsed,
+        gaps: this.extractGaps(response),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return {
         success: false,
         findings,
         sources,
         insights,
-        error: errorMessage,
-        tokensUsed,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     }
   }
@@ -259,7 +262,8 @@ Output your analysis in a structured format with clear competitive insights.`,
   },
   "insights": ["Competitive insight 1", "Competitive insight 2"],
   "threats": ["Threat 1", "Threat 2"],
-  "opportunities": ["Opportunity 1", "Opportunity 2"]
+  "opportunities": ["Opportunity 1", "Opportunity 2"],
+  "gaps": ["Information that could not be found 1", "Information that could not be found 2"]
 }
 \`\`\``;
 
@@ -374,7 +378,6 @@ Output your analysis in a structured format with clear competitive insights.`,
           summary: f.summary,
           confidence: f.confidence || 'medium',
           sources: (f.sources || []).map(s => ({
-            id: '',
             type: 'web' as const,
             url: s.url,
             title: s.title,
@@ -398,4 +401,9 @@ Output your analysis in a structured format with clear competitive insights.`,
     const parsed = this.parseJSON<{ insights?: string[] }>(response);
     return parsed?.insights || [];
   }
+
+  private extractGaps(response: string): string[] {
+    const parsed = this.parseJSON<{ gaps?: string[] }>(response);
+    return parsed?.gaps || [];
+  }
 }
@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
+import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { emptyUsage } from '../usage/index.js';
+import type { FindingConflict, QuestionAnswer, ResearchFinding } from '../types/index.js';
+
+// General findings (not tied to a key question) considered for each answer
+const RELATED_FINDINGS_LIMIT = 10;
+
+/**
+ * Data Synthesizer Agent
+ *
+ * Specializes in:
+ * - Consolidating every finding on a key question into a direct answer
+ * - Weighing supporting against contradicting evidence
+ * - Rating how confidently the question can be answered
+ * - Recording what the research could not establish
+ */
+export class DataSynthesizerAgent extends BaseAgent {
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: AgentOptions = {}) {
+    super(
+      {
+        name: 'Data Synthesizer',
+        type: 'data_synthesizer',
+        gcpCredentials,
+        llmClient: options.llmClient,
+        systemPrompt: `You are a research lead who turns the evidence gathered by several analysts into direct answers to a client's questions.
+
+Your role is to answer one key question at a time from the findings provided, and to be explicit about how well the evidence supports the answer.
+
+Guidelines:
+1. Answer the question directly in the first sentence, then give the reasoning
+2. Use only the findings provided; do not add outside knowledge
+3. Separate findings that support the answer from findings that contradict it
+4. Rate confidence by the quality, independence and agreement of the evidence, not by how plausible the answer sounds
+5. Say "partially answered" when only some sub-questions are covered, and "unanswered" when the findings do not address the question
+6. List concrete gaps: the specific facts that would be needed to answer fully`,
+        model: AGENT_MODELS.data_synthesizer,
+        maxTokens: 4096,
+      },
+      memory
+    );
+  }
+
+  async execute(context: AgentContext): Promise<AgentResult> {
+    const insights: string[] = [];
+    const usage = emptyUsage();
+
+    try {
+      if (!context.questionId || !context.question) {
+        throw new Error('Synthesis requires a key question');
+      }
+
+      const questionFindings = this.getExistingFindings(context.projectId, context.questionId);
+      const questionIds = new Set(questionFindings.map(f => f.id));
+      const relatedFindings = this.getRelevantFindings(
+        context,
+        ['web_researcher', 'financial_analyst', 'competitive_intelligence', 'news_monitor'],
+        RELATED_FINDINGS_LIMIT
+      ).filter(f => !questionIds.has(f.id) && f.category !== 'final_report');
+      const evidence = [...questionFindings, ...relatedFindings];
+
+      let answer: QuestionAnswer;
+      if (evidence.length === 0) {
+        // Nothing to synthesize; record the gap without a model call
+        answer = {
+          id: uuidv4(),
+          projectId: context.projectId,
+          questionId: context.questionId,
+          question: context.question,
+          answer: 'The research did not produce any findings on this question.',
+          status: 'unanswered',
+          confidence: 'low',
+          supportingFindingIds: [],
+          contradictingFindingIds: [],
+          gaps: [context.question, ...(context.additionalContext ? context.additionalContext.split('; ') : [])],
+          synthesizedAt: new Date().toISOString(),
+        };
+      } else {
+        const conflicts = this.getMemories(context.projectId, 'conflict')
+          .map(entry => entry.metadata as unknown as FindingConflict)
+          .filter(conflict => conflict.status === 'open' && conflict.claims.some(c => evidence.some(f => f.id === c.findingId)));
+
+        const response = await this.chat(this.buildSynthesisPrompt(context, questionFindings, relatedFindings, conflicts), { usage, context });
+        answer = this.parseAnswer(response, context, evidence);
+      }
+
+      this.memory.storeQuestionAnswer(answer);
+
+      if (answer.status !== 'answered') {
+        insights.push(`Key question ${answer.status.replace('_', ' ')}: ${answer.question}`);
+      }
+
+      this.completeTask(context.projectId, `Synthesize answer for: ${context.question}`);
+
+      return {
+        success: true,
+        findings: [],
+        sources: [],
+        insights,
+        tokensUsed: usage.totalTokens,
+        usage,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        findings: [],
+        sources: [],
+        insights,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
+      };
+    }
+  }
+
+  private buildSynthesisPrompt(
+    context: AgentContext,
+    questionFindings: ResearchFinding[],
+    relatedFindings: ResearchFinding[],
+    conflicts: FindingConflict[]
+  ): string {
+    let prompt = `Synthesis Task: Answer this key question about ${context.targetCompany} from the research findings.
+
+Key Question: ${context.question}`;
+
+    if (context.additionalContext) {
+      prompt += `\nSub-questions: ${context.additionalContext}`;
+    }
+
+    const describe = (finding: ResearchFinding) =>
+      `- [${finding.id}] **${finding.title}** (confidence: ${finding.confidence}, ${finding.sources.length} source(s), ${finding.agentType}): ${finding.summary}\n`;
+
+    prompt += `\n\n## Findings for this question\n\n`;
+    prompt += questionFindings.length > 0 ? questionFindings.map(describe).join('') : 'None.\n';
+
+    if (relatedFindings.length > 0) {
+      prompt += `\n## Other related findings\n\n${relatedFindings.map(describe).join('')}`;
+    }
+
+    if (conflicts.length > 0) {
+      prompt += `\n## Unresolved conflicts\n\n`;
+      for (const conflict of conflicts) {
+        const claims = conflict.claims.map(c => `${c.value} ${c.unit} [${c.findingId}]`).join(' vs ');
+        prompt += `- ${conflict.metric}${conflict.period ? ` (${conflict.period})` : ''}: ${claims}\n`;
+      }
+    }
+
+    prompt += `
+## Instructions
+
+Refer to findings by the IDs in square brackets.
+
+Output Format (JSON):
+\`\`\`json
+{
+  "answer": "Direct answer, then two to four sentences of reasoning",
+  "status": "answered|partially_answered|unanswered",
+  "confidence": "high|medium|low",
+  "supportingFindingIds": ["finding-id"],
+  "contradictingFindingIds": ["finding-id"],
+  "gaps": ["Specific fact still needed"]
+}
+\`\`\``;
+
+    return prompt;
+  }
+
+  private parseAnswer(response: string, context: AgentContext, evidence: ResearchFinding[]): QuestionAnswer {
+    const parsed = this.parseJSON<{
+      answer?: string;
+      status?: string;
+      confidence?: string;
+      supportingFindingIds?: string[];
+      contradictingFindingIds?: string[];
+      gaps?: string[];
+    }>(response);
+
+    if (!parsed?.answer) {
+      throw new Error('Synthesis response did not contain an answer');
+    }
+
+    // Only keep references to findings the model was shown
+    const known = new Set(evidence.map(f => f.id));
+    const supporting = [...new Set(parsed.supportingFindingIds || [])].filter(id => known.has(id));
+    const contradicting = [...new Set(parsed.contradictingFindingIds || [])].filter(id => known.has(id) && !supporting.includes(id));
+
+    return {
+      id: uuidv4(),
+      projectId: context.projectId,
+      questionId: context.questionId as string,
+      question: context.question as string,
+      answer: parsed.answer,
+      status: (['answered', 'partially_answered', 'unanswered'].includes(parsed.status || '')
+        ? parsed.status
+        : 'partially_answered') as QuestionAnswer['status'],
+      confidence: (['high', 'medium', 'low'].includes(parsed.confidence || '') ? parsed.confidence : 'medium') as QuestionAnswer['confidence'],
+      supportingFindingIds: supporting,
+      contradictingFindingIds: contradicting,
+      gaps: parsed.gaps || [],
+      synthesizedAt: new Date().toISOString(),
+    };
+  }
+}
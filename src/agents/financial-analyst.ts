@@ -1,8 +1,41 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseAgent, AgentContext, AgentResult, GCPCredentials } from './base-agent.js';
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
 import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { emptyUsage } from '../usage/index.js';
+import {
+  analyzeMetrics,
+  getEdgarClient,
+  latestPeriods,
+  periodsFromStatements,
+  METRIC_TYPES,
+  type CompanyIdentity,
+  type EdgarClient,
+  type Filing,
+  type MetricsAnalysis,
+  type MetricsInput,
+  type MetricType,
+} from '../financial/index.js';
+import { applyExtractionMode, type ExtractionMode } from '../fetcher/index.js';
 import type { ResearchFinding, Source } from '../types/index.js';
 
+export interface FinancialAnalystOptions extends AgentOptions {
+  /** SEC EDGAR client (default: configured from environment) */
+  edgarClient?: EdgarClient;
+}
+
+// Data types answered from SEC EDGAR rather than mock data
+const EDGAR_DATA_TYPES = ['sec_filings', 'earnings', 'financial_statements'];
+
+/**
+ * A metrics engine run, kept so findings can cite the exact inputs used
+ */
+interface Calculation extends MetricsAnalysis {
+  calculationId: string;
+  dataSource: 'provided' | 'sec_edgar';
+  company?: string;
+}
+
 /**
  * Financial Analyst Agent
  *
@@ -14,12 +47,15 @@ import type { ResearchFinding, Source } from '../types/index.js';
  * - Risk assessment from financial perspective
  */
 export class FinancialAnalystAgent extends BaseAgent {
-  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials) {
+  private edgar: EdgarClient;
+
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: FinancialAnalystOptions = {}) {
     super(
       {
         name: 'Financial Analyst',
         type: 'financial_analyst',
         gcpCredentials,
+        llmClient: options.llmClient,
         systemPrompt: `You are an expert financial analyst specializing in commercial due diligence and company financial assessment.
 
 Your role is to analyze financial information about companies to assess their financial health, growth trajectory, and market position.
@@ -56,27 +92,30 @@ Guidelines:
 - Flag any red flags or concerns
 - Compare against industry benchmarks when possible
 - Clearly state the source and date of financial data
+- Compute every ratio, margin and growth rate with the analyze_metrics tool rather than by hand
 
 Output your analysis in a structured format with clear citations and confidence levels.`,
-        model: 'claude-opus-4-5-20251101',
+        model: AGENT_MODELS.financial_analyst,
         maxTokens: 8192,
       },
       memory
     );
+    this.edgar = options.edgarClient || getEdgarClient();
   }
 
   async execute(context: AgentContext): Promise<AgentResult> {
     const findings: ResearchFinding[] = [];
     const sources: Source[] = [];
+    const calculations: Calculation[] = [];
     const insights: string[] = [];
-    let tokensUsed = 0;
+    const usage = emptyUsage();
 
     try {
       // Define financial research tools
       const tools: Anthropic.Tool[] = [
         {
           name: 'search_financial_data',
-          description: 'Search for financial data, SEC filings, funding announcements, and financial news about a company.',
+          description: 'Search for financial data, SEC filings, funding announcements, and financial news about a company. sec_filings, earnings and financial_statements are answered from SEC EDGAR XBRL data for US-listed registrants.',
           input_schema: {
             type: 'object' as const,
             properties: {
@@ -86,7 +125,7 @@ Output your analysis in a structured format with clear citations and confidence
               },
               data_type: {
                 type: 'string',
-                enum: ['sec_filings', 'funding', 'financial_news', 'earnings', 'analyst_reports'],
+                enum: ['sec_filings', 'financial_statements', 'funding', 'financial_news', 'earnings', 'analyst_reports'],
                 description: 'Type of financial data to search for',
               },
               time_period: {
@@ -99,21 +138,48 @@ Output your analysis in a structured format with clear citations and confidence
         },
         {
           name: 'analyze_metrics',
-          description: 'Perform financial calculations and analysis on provided data.',
+          description: 'Calculate financial metrics (growth, CAGR, margins, EBITDA, liquidity and leverage ratios, burn rate and runway, valuation multiples) with a deterministic engine. Returns a calculation_id to cite in findings.',
           input_schema: {
             type: 'object' as const,
             properties: {
               metric_type: {
                 type: 'string',
-                enum: ['growth_rate', 'profitability', 'liquidity', 'valuation', 'comparison'],
+                enum: METRIC_TYPES,
                 description: 'Type of financial analysis to perform',
               },
               data: {
                 type: 'object',
-                description: 'Financial data to analyze',
+                description: 'Period data as { "periods": [{ "period": "FY2023", "periodEnd": "2023-12-31", "months": 12, "revenue": 1000000, "netIncome": ..., ... }] } or, for comparison, { "companies": [{ "company": "Name", "periods": [...] }] }. Fields: revenue, costOfRevenue, grossProfit, operatingIncome, netIncome, interestExpense, depreciationAndAmortization, ebitda, epsDiluted, cashAndEquivalents, shortTermInvestments, accountsReceivable, inventory, currentAssets, currentLiabilities, shortTermDebt, longTermDebt, totalDebt, totalLiabilities, stockholdersEquity, operatingCashFlow, capitalExpenditures, marketCap, enterpriseValue, sharePrice, sharesOutstanding',
+              },
+              company: {
+                type: 'string',
+                description: 'Load annual period data from SEC EDGAR for this company instead of providing data (market data fields may still be supplied in data)',
               },
             },
-            required: ['metric_type', 'data'],
+            required: ['metric_type'],
+          },
+        },
+        {
+          name: 'read_sec_filing',
+          description: 'Read the text of a specific SEC filing (e.g. an 8-K announcement) returned by search_financial_data.',
+          input_schema: {
+            type: 'object' as const,
+            properties: {
+              company: {
+                type: 'string',
+                description: 'Company name or ticker',
+              },
+              accession_number: {
+                type: 'string',
+                description: 'Accession number of the filing (e.g. 0000320193-24-000123)',
+              },
+              extract_type: {
+                type: 'string',
+                enum: ['full', 'summary', 'key_facts'],
+                description: 'Type of extraction to perform',
+              },
+            },
+            required: ['company', 'accession_number'],
           },
         },
       ];
@@ -121,9 +187,8 @@ Output your analysis in a structured format with clear citations and confidence
       // Build the analysis prompt
       const analysisPrompt = this.buildAnalysisPrompt(context);
 
-      // Get existing findings for context
-      const existingFindings = this.getExistingFindings(context.projectId);
-      const webFindings = existingFindings.filter(f => f.agentType === 'web_researcher');
+      // Get the most relevant web research findings for context
+      const webFindings = this.getRelevantFindings(context, ['web_researcher']);
 
       const contextSummary = webFindings.length > 0
         ? `\n\nRelevant findings from web research:\n${webFindings.map(f => `- ${f.title}: ${f.summary}`).join('\n')}`
@@ -134,12 +199,13 @@ Output your analysis in a structured format with clear citations and confidence
         analysisPrompt + contextSummary,
         tools,
         async (toolName, toolInput) => {
-          return this.handleToolCall(toolName, toolInput, context.projectId, sources);
-        }
+          return this.handleToolCall(toolName, toolInput, context.projectId, sources, calculations);
+        },
+        { usage, context }
       );
 
       // Parse findings
-      const parsedFindings = await this.parseFindings(response, context);
+      const parsedFindings = await this.parseFindings(response, context, calculations);
       findings.push(...parsedFindings);
 
       // Extract financial insights
@@ -158,17 +224,19 @@ Output your analysis in a structured format with clear citations and confidence
         findings,
         sources,
         insights,
-        tokensUsed,
+        gaps: this.extractGaps(response),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return {
         success: false,
         findings,
         sources,
         insights,
-        error: errorMessage,
-        tokensUsed,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     }
   }
@@ -203,11 +271,12 @@ Output your analysis in a structured format with clear citations and confidence
    - Valuation data from funding rounds
    - Employee count trends (proxy for growth)
 
-4. Calculate and assess:
+4. Calculate and assess (using analyze_metrics for every figure):
    - Year-over-year growth rates
    - Profitability trends
    - Financial health indicators
    - Valuation metrics vs peers
+   - List the calculation_id of each analyze_metrics result a finding relies on
 
 5. Identify:
    - Financial strengths
@@ -228,6 +297,7 @@ Output your analysis in a structured format with clear citations and confidence
       "metrics": {
         "metric_name": "value"
       },
+      "calculations": ["calc-1"],
       "sources": [
         {
           "url": "source url",
@@ -257,12 +327,13 @@ Output your analysis in a structured format with clear citations and confidence
     toolName: string,
     toolInput: Record<string, unknown>,
     projectId: string,
-    sources: Source[]
+    sources: Source[],
+    calculations: Calculation[]
   ): Promise<string> {
     if (toolName === 'search_financial_data') {
       const company = toolInput.company as string;
       const dataType = toolInput.data_type as string;
-      const timePeriod = toolInput.time_period as string || 'last_year';
+      const timePeriod = toolInput.time_period as string || 'last_3_years';
 
       // Store search in memory
       this.storeMemory({
@@ -272,7 +343,19 @@ Output your analysis in a structured format with clear citations and confidence
         metadata: { company, dataType, timePeriod, timestamp: new Date().toISOString() },
       });
 
-      // In production, integrate with financial data APIs (SEC EDGAR, Crunchbase, PitchBook, etc.)
+      if (EDGAR_DATA_TYPES.includes(dataType)) {
+        try {
+          return JSON.stringify(await this.searchEdgar(company, dataType, timePeriod, projectId, sources));
+        } catch (error) {
+          return JSON.stringify({
+            company,
+            dataType,
+            error: `SEC EDGAR lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        }
+      }
+
+      // In production, integrate with financial data APIs (Crunchbase, PitchBook, etc.)
       return JSON.stringify({
         company,
         dataType,
@@ -284,20 +367,254 @@ Output your analysis in a structured format with clear citations and confidence
     }
 
     if (toolName === 'analyze_metrics') {
-      const metricType = toolInput.metric_type as string;
-      const data = toolInput.data as Record<string, unknown>;
+      const metricType = toolInput.metric_type as MetricType;
+      const data = (toolInput.data || {}) as MetricsInput;
+      const company = toolInput.company as string | undefined;
 
-      return JSON.stringify({
-        metricType,
-        analysis: `Analysis performed for ${metricType}`,
-        note: 'Calculations would be performed on actual financial data.',
-        input_data: data,
-      });
+      if (!METRIC_TYPES.includes(metricType)) {
+        return JSON.stringify({ error: `Unknown metric type: ${metricType}` });
+      }
+
+      let input = data;
+      if (company) {
+        try {
+          input = await this.loadEdgarPeriods(company, data);
+        } catch (error) {
+          return JSON.stringify({
+            company,
+            error: `SEC EDGAR lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        }
+      }
+
+      const calculation: Calculation = {
+        calculationId: `calc-${calculations.length + 1}`,
+        dataSource: company ? 'sec_edgar' : 'provided',
+        company,
+        ...analyzeMetrics(metricType, input),
+      };
+      calculations.push(calculation);
+
+      return JSON.stringify(calculation);
+    }
+
+    if (toolName === 'read_sec_filing') {
+      const company = toolInput.company as string;
+      const accessionNumber = toolInput.accession_number as string;
+      const extractType = ((toolInput.extract_type as string) || 'summary') as ExtractionMode;
+
+      try {
+        const identity = await this.edgar.resolveCompany(company);
+        if (!identity) {
+          return JSON.stringify({ company, error: `No SEC registrant found for "${company}"` });
+        }
+
+        const filing = (await this.edgar.getFilings(identity.cik)).find(f => f.accessionNumber === accessionNumber);
+        if (!filing) {
+          return JSON.stringify({ company, error: `Filing ${accessionNumber} not found for ${identity.name}` });
+        }
+
+        const content = await this.edgar.getFilingContent(filing);
+        const source = this.registerFilingSource(projectId, identity, filing, sources);
+
+        // Keep the full text so later agents and the report can quote it
+        this.storeMemory({
+          projectId,
+          type: 'source',
+          content: content.text,
+          metadata: { sourceId: source.id, url: filing.url, title: source.title, wordCount: content.wordCount },
+        });
+
+        return JSON.stringify({
+          sourceId: source.id,
+          form: filing.form,
+          filingDate: filing.filingDate,
+          url: filing.url,
+          wordCount: content.wordCount,
+          extractType,
+          content: applyExtractionMode(content, extractType),
+        });
+      } catch (error) {
+        return JSON.stringify({
+          company,
+          accessionNumber,
+          error: `Failed to read filing: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
     }
 
     return JSON.stringify({ error: `Unknown tool: ${toolName}` });
   }
 
+  /**
+   * Answer filing and statement queries from SEC EDGAR
+   */
+  private async searchEdgar(
+    company: string,
+    dataType: string,
+    timePeriod: string,
+    projectId: string,
+    sources: Source[]
+  ): Promise<Record<string, unknown>> {
+    const identity = await this.edgar.resolveCompany(company);
+    if (!identity) {
+      return {
+        company,
+        dataType,
+        found: false,
+        message: `No SEC registrant found for "${company}". The company may be private or file under a different name.`,
+      };
+    }
+
+    const years = this.parseTimePeriodYears(timePeriod);
+
+    if (dataType === 'sec_filings') {
+      const since = new Date();
+      since.setFullYear(since.getFullYear() - years);
+
+      const filings = await this.edgar.getFilings(identity.cik, {
+        forms: ['10-K', '10-Q', '8-K'],
+        since: since.toISOString().slice(0, 10),
+        limit: 20,
+      });
+
+      return {
+        company: identity,
+        dataType,
+        found: true,
+        filings: filings.map(filing => ({
+          sourceId: this.registerFilingSource(projectId, identity, filing, sources).id,
+          form: filing.form,
+          filingDate: filing.filingDate,
+          reportDate: filing.reportDate,
+          accessionNumber: filing.accessionNumber,
+          description: filing.description,
+          url: filing.url,
+        })),
+      };
+    }
+
+    const statements = await this.edgar.getFinancialStatements(identity.cik);
+    const incomeStatements = [
+      ...latestPeriods(statements.incomeStatements, 'annual', years),
+      ...latestPeriods(statements.incomeStatements, 'quarterly', 4),
+    ];
+    const balanceSheets = dataType === 'financial_statements'
+      ? [
+          ...latestPeriods(statements.balanceSheets, 'quarterly', 1),
+          ...latestPeriods(statements.balanceSheets, 'annual', years),
+        ]
+      : [];
+    const cashFlows = dataType === 'financial_statements'
+      ? latestPeriods(statements.cashFlows, 'annual', years)
+      : [];
+
+    // Register each filing the figures were reported in
+    const filingSources = new Map<string, Source>();
+    for (const period of [...incomeStatements, ...balanceSheets, ...cashFlows]) {
+      if (filingSources.has(period.accessionNumber)) continue;
+      filingSources.set(period.accessionNumber, this.registerFilingSource(projectId, identity, {
+        cik: identity.cik,
+        accessionNumber: period.accessionNumber,
+        form: period.form,
+        filingDate: period.filed,
+        reportDate: period.periodEnd,
+        primaryDocument: '',
+        url: this.edgar.filingIndexUrl(identity.cik, period.accessionNumber),
+      }, sources));
+    }
+
+    // Keep the structured series for later analysis and report appendices
+    this.storeMemory({
+      projectId,
+      type: 'context',
+      content: JSON.stringify({ incomeStatements, balanceSheets, cashFlows }),
+      metadata: {
+        kind: 'financial_statements',
+        cik: identity.cik,
+        entityName: statements.entityName,
+        currency: statements.currency,
+      },
+    });
+
+    const withSource = <T extends { accessionNumber: string }>(period: T) => ({
+      ...period,
+      sourceId: filingSources.get(period.accessionNumber)?.id,
+    });
+
+    return {
+      company: identity,
+      dataType,
+      found: true,
+      currency: statements.currency,
+      incomeStatements: incomeStatements.map(withSource),
+      balanceSheets: balanceSheets.map(withSource),
+      cashFlows: cashFlows.map(withSource),
+    };
+  }
+
+  /**
+   * Build metrics input from a company's annual EDGAR statements, overlaying
+   * any market data provided for the latest period
+   */
+  private async loadEdgarPeriods(company: string, data: MetricsInput): Promise<MetricsInput> {
+    const identity = await this.edgar.resolveCompany(company);
+    if (!identity) {
+      throw new Error(`No SEC registrant found for "${company}"`);
+    }
+
+    const periods = periodsFromStatements(await this.edgar.getFinancialStatements(identity.cik), 'annual').slice(-5);
+    const overlay = data.periods?.[data.periods.length - 1];
+    if (overlay && periods.length > 0) {
+      const latest = periods[periods.length - 1];
+      periods[periods.length - 1] = { ...latest, ...overlay, period: latest.period, periodEnd: latest.periodEnd };
+    }
+
+    return { periods };
+  }
+
+  /**
+   * Register an SEC filing as a financial_report source, once per URL
+   */
+  private registerFilingSource(
+    projectId: string,
+    identity: CompanyIdentity,
+    filing: Filing,
+    sources: Source[]
+  ): Source {
+    const existing = sources.find(s => s.url === filing.url);
+    if (existing) return existing;
+
+    const source = this.registerSource(projectId, {
+      type: 'financial_report',
+      url: filing.url,
+      title: `${identity.name} ${filing.form} filed ${filing.filingDate}`,
+      author: identity.name,
+      publishedDate: filing.filingDate,
+      accessedAt: new Date().toISOString(),
+      relevanceScore: filing.form === '8-K' ? 0.7 : 0.9,
+      snippet: filing.description,
+      metadata: {
+        cik: identity.cik,
+        ticker: identity.ticker,
+        accessionNumber: filing.accessionNumber,
+        form: filing.form,
+        reportDate: filing.reportDate,
+      },
+    });
+    sources.push(source);
+    return source;
+  }
+
+  /**
+   * Convert time_period values like "last_year" or "last_5_years" to a year count
+   */
+  private parseTimePeriodYears(timePeriod: string): number {
+    if (timePeriod === 'last_year') return 1;
+    const match = timePeriod.match(/(\d+)/);
+    return match ? Math.max(1, parseInt(match[1], 10)) : 3;
+  }
+
   private getMockFinancialData(dataType: string, company: string): Record<string, unknown> {
     const mockData: Record<string, Record<string, unknown>> = {
       sec_filings: {
@@ -336,7 +653,11 @@ Output your analysis in a structured format with clear citations and confidence
     return mockData[dataType] || { message: 'No mock data available for this type' };
   }
 
-  private async parseFindings(response: string, context: AgentContext): Promise<ResearchFinding[]> {
+  private async parseFindings(
+    response: string,
+    context: AgentContext,
+    calculations: Calculation[]
+  ): Promise<ResearchFinding[]> {
     const findings: ResearchFinding[] = [];
 
     const parsed = this.parseJSON<{
@@ -347,6 +668,7 @@ Output your analysis in a structured format with clear citations and confidence
         confidence: 'high' | 'medium' | 'low';
         category: string;
         metrics?: Record<string, unknown>;
+        calculations?: string[];
         sources?: Array<{
           url: string;
           title: string;
@@ -367,7 +689,6 @@ Output your analysis in a structured format with clear citations and confidence
           summary: f.summary,
           confidence: f.confidence || 'medium',
           sources: (f.sources || []).map(s => ({
-            id: '',
             type: 'financial_report' as const,
             url: s.url,
             title: s.title,
@@ -379,7 +700,10 @@ Output your analysis in a structured format with clear citations and confidence
           metadata: {
             discoveredAt: new Date().toISOString(),
             lastUpdated: new Date().toISOString(),
-            metrics: f.metrics,
+            rawData: {
+              metrics: f.metrics,
+              calculations: calculations.filter(c => (f.calculations || []).includes(c.calculationId)),
+            },
           },
         });
         findings.push(finding);
@@ -393,4 +717,9 @@ Output your analysis in a structured format with clear citations and confidence
     const parsed = this.parseJSON<{ insights?: string[] }>(response);
     return parsed?.insights || [];
   }
+
+  private extractGaps(response: string): string[] {
+    const parsed = this.parseJSON<{ data_gaps?: string[] }>(response);
+    return parsed?.data_gaps || [];
+  }
 }
@@ -1,6 +1,10 @@
-export { BaseAgent, type AgentConfig, type AgentContext, type AgentResult, type GCPCredentials } from './base-agent.js';
-export { WebResearcherAgent } from './web-researcher.js';
-export { FinancialAnalystAgent } from './financial-analyst.js';
+export { AGENT_MODELS, DEFAULT_AGENT_MODEL } from './agent-models.js';
+export { BaseAgent, type AgentConfig, type AgentContext, type AgentOptions, type AgentResult, type GCPCredentials } from './base-agent.js';
+export { WebResearcherAgent, type WebResearcherOptions } from './web-researcher.js';
+export { FinancialAnalystAgent, type FinancialAnalystOptions } from './financial-analyst.js';
 export { CompetitiveIntelligenceAgent } from './competitive-intelligence.js';
+export { NewsMonitorAgent, recentDevelopmentsSection, type NewsMonitorOptions } from './news-monitor.js';
+export { DataSynthesizerAgent } from './data-synthesizer.js';
 export { ReportGeneratorAgent } from './report-generator.js';
+export { QualityReviewerAgent, type QualityReviewerOptions } from './quality-reviewer.js';
 export { ResearchOrchestrator, getOrchestrator } from './orchestrator.js';
@@ -0,0 +1,386 @@
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
+import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { emptyUsage } from '../usage/index.js';
+import { getSearchProvider, type SearchProvider, type SearchQuery, type SearchResult } from '../search/index.js';
+import type { NewsEvent, ReportSection, ResearchFinding, Source } from '../types/index.js';
+
+export interface NewsMonitorOptions extends AgentOptions {
+  /** Search backend (default: configured from environment) */
+  searchProvider?: SearchProvider;
+  /** How far back to look for articles, in days (default: 365) */
+  lookbackDays?: number;
+  /** Maximum number of articles passed to event extraction (default: 30) */
+  maxArticles?: number;
+}
+
+// Queries run for every task; {company} is replaced with the target company
+const NEWS_QUERIES = [
+  '{company} news',
+  '{company} launches OR announces OR unveils',
+  '{company} lawsuit OR sued OR settlement OR investigation',
+  '{company} appoints OR names CEO OR executive OR steps down',
+  '{company} raises OR funding OR acquires OR acquisition',
+];
+
+const EVENT_TYPES: NewsEvent['type'][] = [
+  'product_launch',
+  'lawsuit',
+  'executive_change',
+  'funding',
+  'acquisition',
+  'partnership',
+  'earnings',
+  'regulatory',
+  'layoffs',
+  'other',
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * News Monitor Agent
+ *
+ * Specializes in:
+ * - Gathering recent news coverage of a company
+ * - Extracting dated events (launches, lawsuits, executive changes, funding)
+ * - Scoring the sentiment of each article
+ * - Building a timeline of recent developments
+ */
+export class NewsMonitorAgent extends BaseAgent {
+  private searchProvider: SearchProvider;
+  private lookbackDays: number;
+  private maxArticles: number;
+
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: NewsMonitorOptions = {}) {
+    super(
+      {
+        name: 'News Monitor',
+        type: 'news_monitor',
+        gcpCredentials,
+        llmClient: options.llmClient,
+        systemPrompt: `You are a news analyst tracking recent developments at companies for commercial research.
+
+Your role is to read news coverage and turn it into a precise, dated timeline of events.
+
+Guidelines:
+1. Only report events the articles actually describe; never infer events
+2. Date each event by when it happened, not when the article was published, when the article makes this clear
+3. Merge coverage of the same event from several articles into one event
+4. Distinguish announced plans from completed actions
+5. Score sentiment from the company's point of view: good news for the company is positive
+6. Ignore articles that are not about the company`,
+        model: AGENT_MODELS.news_monitor,
+        maxTokens: 8192,
+      },
+      memory
+    );
+    this.searchProvider = options.searchProvider || getSearchProvider();
+    this.lookbackDays = options.lookbackDays ?? 365;
+    this.maxArticles = options.maxArticles ?? 30;
+  }
+
+  async execute(context: AgentContext): Promise<AgentResult> {
+    const findings: ResearchFinding[] = [];
+    const sources: Source[] = [];
+    const insights: string[] = [];
+    const usage = emptyUsage();
+
+    try {
+      const articles = await this.gatherArticles(context, sources);
+      if (articles.length === 0) {
+        throw new Error(`No news articles found for ${context.targetCompany}`);
+      }
+
+      const response = await this.chat(this.buildExtractionPrompt(context, articles), { usage, context });
+      const parsed = this.parseExtraction(response, articles);
+
+      // Record each article's sentiment on its source
+      for (const [index, sentiment] of parsed.sentiment) {
+        const source = articles[index].source;
+        source.metadata = { ...source.metadata, sentiment };
+        this.memory.registerSource(context.projectId, source);
+      }
+
+      for (const event of parsed.events) {
+        const eventSources = sources.filter(s => event.sourceIds.includes(s.id));
+        const finding = this.storeFinding({
+          projectId: context.projectId,
+          questionId: context.questionId || 'general',
+          category: 'news_event',
+          title: event.headline,
+          content: `${event.date} (${formatEventType(event.type)}): ${event.description}\n\nReported by: ${eventSources.map(s => s.title).join('; ')}`,
+          summary: `${event.date}: ${event.description}`,
+          confidence: eventSources.length > 1 ? 'high' : 'medium',
+          sources: eventSources,
+          relatedFindings: [],
+          metadata: {
+            discoveredAt: new Date().toISOString(),
+            lastUpdated: new Date().toISOString(),
+            rawData: event,
+          },
+        });
+        findings.push(finding);
+      }
+
+      insights.push(...parsed.insights);
+      for (const insight of insights) {
+        this.addInsight(context.projectId, insight);
+      }
+
+      this.completeTask(context.projectId, `News monitoring for: ${context.question || 'recent developments'}`);
+
+      return {
+        success: true,
+        findings,
+        sources,
+        insights,
+        tokensUsed: usage.totalTokens,
+        usage,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        findings,
+        sources,
+        insights,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
+      };
+    }
+  }
+
+  /**
+   * Run the news queries over the lookback window and register each
+   * distinct article as a news source
+   */
+  private async gatherArticles(
+    context: AgentContext,
+    sources: Source[]
+  ): Promise<Array<{ result: SearchResult; source: Source }>> {
+    const from = new Date(Date.now() - this.lookbackDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const queries = NEWS_QUERIES.map(q => q.replace('{company}', context.targetCompany));
+    if (context.question) {
+      queries.unshift(`${context.targetCompany} ${context.question}`);
+    }
+
+    const articles: Array<{ result: SearchResult; source: Source }> = [];
+    const existing = new Map(
+      this.memory.getSources(context.projectId).filter(s => s.url).map(s => [s.url as string, s])
+    );
+
+    for (const query of queries) {
+      const searchQuery: SearchQuery = { query, dateRange: { from } };
+      this.storeMemory({
+        projectId: context.projectId,
+        type: 'context',
+        content: `News search performed: "${query}"`,
+        metadata: { ...searchQuery, provider: this.searchProvider.name, timestamp: new Date().toISOString() },
+      });
+
+      let results: SearchResult[];
+      try {
+        results = await this.searchProvider.search(searchQuery);
+      } catch {
+        // One failed query should not lose the others' coverage
+        continue;
+      }
+
+      for (const result of results) {
+        if (articles.length >= this.maxArticles) break;
+        if (articles.some(a => a.result.url === result.url)) continue;
+
+        // Rank-based relevance: the top result scores 1.0, the last no lower than 0.5
+        const relevanceScore = Math.round((1 - ((result.rank - 1) / Math.max(results.length, 1)) * 0.5) * 100) / 100;
+        const metadata = { query, provider: this.searchProvider.name, rank: result.rank, publisher: result.source };
+        const previous = existing.get(result.url);
+
+        let source: Source;
+        if (previous) {
+          // Keep the ID other findings already cite
+          source = { ...previous, type: 'news', metadata: { ...previous.metadata, ...metadata } };
+          this.memory.registerSource(context.projectId, source);
+        } else {
+          source = this.registerSource(context.projectId, {
+            type: 'news',
+            url: result.url,
+            title: result.title,
+            publishedDate: result.publishedDate,
+            accessedAt: new Date().toISOString(),
+            relevanceScore,
+            snippet: result.snippet,
+            metadata,
+          });
+        }
+        sources.push(source);
+        articles.push({ result, source });
+      }
+    }
+
+    return articles;
+  }
+
+  private buildExtractionPrompt(context: AgentContext, articles: Array<{ result: SearchResult }>): string {
+    let prompt = `News Analysis Task: Extract dated events about ${context.targetCompany} from the articles below.`;
+
+    if (context.question) {
+      prompt += `\n\nFocus Question: ${context.question}`;
+    }
+
+    if (context.additionalContext) {
+      prompt += `\n\nAdditional Context: ${context.additionalContext}`;
+    }
+
+    prompt += `\n\n## Articles\n\n`;
+    articles.forEach(({ result }, index) => {
+      prompt += `[A${index + 1}] ${result.title}\nPublisher: ${result.source || 'unknown'}\nPublished: ${result.publishedDate || 'unknown'}\n${result.snippet}\n\n`;
+    });
+
+    prompt += `## Instructions
+
+1. Score the sentiment of every article about ${context.targetCompany} from -1 (very negative) to 1 (very positive)
+2. List the distinct events the articles report, each with:
+   - The date it happened (YYYY-MM-DD; use the first of the month if only the month is known)
+   - Its type: ${EVENT_TYPES.join(', ')}
+   - The articles that report it
+3. Note insights the timeline suggests (e.g. a run of executive departures)
+
+Output Format (JSON):
+\`\`\`json
+{
+  "articles": [
+    { "id": "A1", "sentiment": 0.0, "reason": "Why" }
+  ],
+  "events": [
+    {
+      "date": "YYYY-MM-DD",
+      "type": "product_launch",
+      "headline": "Short headline",
+      "description": "One or two sentences on what happened",
+      "sentiment": 0.0,
+      "articles": ["A1", "A3"]
+    }
+  ],
+  "insights": ["Insight 1"]
+}
+\`\`\``;
+
+    return prompt;
+  }
+
+  /**
+   * Validate the model's events against the articles: article references
+   * must exist, and events without a usable date fall back to the earliest
+   * publication date among their articles or are dropped
+   */
+  private parseExtraction(
+    response: string,
+    articles: Array<{ result: SearchResult; source: Source }>
+  ): {
+    sentiment: Map<number, { score: number; label: 'positive' | 'neutral' | 'negative'; reason?: string }>;
+    events: NewsEvent[];
+    insights: string[];
+  } {
+    const parsed = this.parseJSON<{
+      articles?: Array<{ id?: string; sentiment?: number; reason?: string }>;
+      events?: Array<{
+        date?: string;
+        type?: string;
+        headline?: string;
+        description?: string;
+        sentiment?: number;
+        articles?: string[];
+      }>;
+      insights?: string[];
+    }>(response);
+
+    const articleIndex = (id: string | undefined): number => {
+      const index = Number((id || '').replace(/^A/i, '')) - 1;
+      return Number.isInteger(index) && index >= 0 && index < articles.length ? index : -1;
+    };
+
+    const sentiment = new Map<number, { score: number; label: 'positive' | 'neutral' | 'negative'; reason?: string }>();
+    for (const article of parsed?.articles || []) {
+      const index = articleIndex(article.id);
+      if (index < 0 || typeof article.sentiment !== 'number') continue;
+      const score = clampSentiment(article.sentiment);
+      sentiment.set(index, { score, label: sentimentLabel(score), reason: article.reason });
+    }
+
+    const events: NewsEvent[] = [];
+    for (const event of parsed?.events || []) {
+      if (!event.headline) continue;
+      const indices = [...new Set((event.articles || []).map(articleIndex).filter(index => index >= 0))];
+      const published = indices
+        .map(index => articles[index].result.publishedDate?.slice(0, 10))
+        .filter((date): date is string => !!date && ISO_DATE.test(date))
+        .sort();
+      const date = event.date && ISO_DATE.test(event.date) ? event.date : published[0];
+      if (!date || indices.length === 0) continue;
+
+      events.push({
+        date,
+        type: EVENT_TYPES.includes(event.type as NewsEvent['type']) ? (event.type as NewsEvent['type']) : 'other',
+        headline: event.headline,
+        description: event.description || event.headline,
+        sentiment: clampSentiment(
+          typeof event.sentiment === 'number'
+            ? event.sentiment
+            : average(indices.map(index => sentiment.get(index)?.score ?? 0))
+        ),
+        sourceIds: indices.map(index => articles[index].source.id),
+      });
+    }
+
+    return { sentiment, events, insights: parsed?.insights || [] };
+  }
+}
+
+/**
+ * Report section listing news events newest first, or null if there are none
+ */
+export function recentDevelopmentsSection(findings: ResearchFinding[]): ReportSection | null {
+  const events = findings
+    .filter(f => f.category === 'news_event' && f.metadata.rawData)
+    .map(f => ({ finding: f, event: f.metadata.rawData as NewsEvent }))
+    .sort((a, b) => b.event.date.localeCompare(a.event.date));
+  if (events.length === 0) return null;
+
+  const content = events
+    .map(({ finding, event }) => {
+      const sources = finding.sources.map(s => s.title).join('; ') || 'no cited source';
+      return `- **${event.date}** ${formatEventType(event.type)}: ${event.headline}. ${event.description} (sentiment ${formatSentiment(event.sentiment)}; ${sources})`;
+    })
+    .join('\n');
+
+  return {
+    id: 'recent-developments',
+    title: 'Recent developments',
+    content,
+    findings: events.map(({ finding }) => finding.id),
+  };
+}
+
+function formatEventType(type: NewsEvent['type']): string {
+  const words = type.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatSentiment(score: number): string {
+  return `${score > 0 ? '+' : ''}${score.toFixed(1)}`;
+}
+
+function clampSentiment(score: number): number {
+  return Math.round(Math.max(-1, Math.min(1, score)) * 100) / 100;
+}
+
+function sentimentLabel(score: number): 'positive' | 'neutral' | 'negative' {
+  if (score >= 0.2) return 'positive';
+  if (score <= -0.2) return 'negative';
+  return 'neutral';
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
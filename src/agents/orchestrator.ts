@@ -4,20 +4,46 @@ import { AgentDBClient, getAgentDB } from '../memory/agentdb-client.js';
 import { WebResearcherAgent } from './web-researcher.js';
 import { FinancialAnalystAgent } from './financial-analyst.js';
 import { CompetitiveIntelligenceAgent } from './competitive-intelligence.js';
+import { NewsMonitorAgent } from './news-monitor.js';
+import { DataSynthesizerAgent } from './data-synthesizer.js';
 import { ReportGeneratorAgent } from './report-generator.js';
-import type { BaseAgent, AgentContext, AgentResult, GCPCredentials } from './base-agent.js';
+import { QualityReviewerAgent } from './quality-reviewer.js';
+import type { BaseAgent, AgentContext, AgentResult, AgentRetryEvent, GCPCredentials } from './base-agent.js';
+import { classifyError, createLLMClient, llmConfigFromEnv, type LLMClient } from '../llm/index.js';
+import { BudgetTracker } from '../workflow/budget-tracker.js';
+import { FindingDeduplicator } from '../workflow/finding-dedup.js';
+import { ConflictDetector, conflictsSection } from '../workflow/conflict-detector.js';
+import { TaskScheduler, type ScheduledTask } from '../workflow/task-scheduler.js';
+import { planFollowUpTasks } from '../workflow/research-rounds.js';
+import { buildResearchPlan, checkResearchPlan, previewResearchPlan, questionPriority } from '../workflow/research-plan.js';
+import { buildAppendices, mergeAppendices } from '../workflow/appendices.js';
+import { validatePlan, normalizePlan, PlanValidationError } from '../workflow/plan-validation.js';
+import { CitationIndex } from '../workflow/citations.js';
+import type { SearchProvider } from '../search/index.js';
+import type { PageFetcher } from '../fetcher/index.js';
+import type { EdgarClient } from '../financial/index.js';
 import type {
+  ApprovalDecision,
+  ApprovalGate,
   ScopingDocument,
   ResearchProject,
+  ResearchReport,
+  ResearchFinding,
+  ResearchPlan,
+  PlanTask,
+  PlanPreview,
+  FindingConflict,
+  QualityReview,
   AgentStatus,
   ResearchStatus,
-  KeyQuestion,
   WebSocketEvent,
   WebSocketEventType,
+  WorkflowPhase,
 } from '../types/index.js';
 
 interface OrchestratorConfig {
   maxConcurrentAgents: number;
+  /** Research rounds, counting the initial plan and each follow-up round (default: 3) */
   maxResearchDepth: number;
   dbPath?: string;
   /** GCP Project ID for Vertex AI */
@@ -26,6 +52,59 @@ interface OrchestratorConfig {
   gcpRegion?: string;
   /** GCP Access Token for authentication */
   gcpAccessToken?: string;
+  /** Search backend for web research (default: configured from environment) */
+  searchProvider?: SearchProvider;
+  /** Page fetching backend for web research (default: configured from environment) */
+  pageFetcher?: PageFetcher;
+  /** SEC EDGAR client for financial analysis (default: configured from environment) */
+  edgarClient?: EdgarClient;
+  /** Model client shared by all agents (default: configured from LLM_MODE) */
+  llmClient?: LLMClient;
+  /** Review the report against its findings before completion (default: true) */
+  qualityReview: boolean;
+  /** Send a report that fails review back for one revision pass (default: true) */
+  reviseAfterReview: boolean;
+  /** Minimum review score (0-100) for a report to pass (default: 70) */
+  reviewPassScore?: number;
+  /**
+   * Resume projects that were running when the server stopped. When off,
+   * they are marked interrupted and can be resumed by hand (default: false)
+   */
+  resumeInterrupted: boolean;
+  /** Checkpoints that wait for approval, unless the scoping document sets its own (default: none) */
+  approvalGates: ApprovalGate[];
+}
+
+// Statuses of projects with no workflow running
+const STOPPED_STATUSES: ResearchStatus[] = ['completed', 'failed', 'cancelled', 'paused', 'interrupted', 'awaiting_approval'];
+
+// Events after which a project's state is stored: changes to its status or
+// phase, its report or its approval. Task activity is stored as each task settles.
+const PERSISTED_EVENTS: WebSocketEventType[] = [
+  'project:created',
+  'project:updated',
+  'project:completed',
+  'project:failed',
+  'report:completed',
+  'report:reviewed',
+  'approval:requested',
+  'approval:granted',
+];
+
+// The phase each approval gate follows, and what the project waits for there
+const APPROVAL_GATES: Record<ApprovalGate, { phase: WorkflowPhase; waitingFor: string }> = {
+  after_planning: { phase: 'planning', waitingFor: 'Awaiting approval of the research plan' },
+  after_research: { phase: 'research', waitingFor: 'Awaiting review of research findings' },
+  before_report: { phase: 'synthesis', waitingFor: 'Awaiting approval to write the report' },
+};
+
+/**
+ * A running workflow. Aborting the controller pauses or cancels it; done
+ * settles once its in-flight work has stopped.
+ */
+interface WorkflowRun {
+  controller: AbortController;
+  done: Promise<void>;
 }
 
 interface TaskDefinition {
@@ -43,16 +122,22 @@ interface TaskDefinition {
  * 1. Parses scoping document and creates research plan
  * 2. Dispatches specialized agents for each research area
  * 3. Manages shared memory and context via AgentDB
- * 4. Synthesizes findings into final report
+ * 4. Answers each key question from its findings, then writes the final
+ *    report and reviews it for quality
  * 5. Emits real-time progress updates
  */
 export class ResearchOrchestrator extends EventEmitter {
   private config: OrchestratorConfig;
   private memory: AgentDBClient;
-  private agents: Map<string, BaseAgent>;
+  private llmClient: LLMClient;
   private activeProjects: Map<string, ResearchProject>;
-  private taskQueue: TaskDefinition[];
-  private runningTasks: Set<string>;
+  private plans: Map<string, TaskScheduler<TaskDefinition>>;
+  private runs: Map<string, WorkflowRun>;
+  private budgets: Map<string, BudgetTracker>;
+  /** Running tasks by project and agent type, task record ID to description */
+  private runningTasks: Map<string, Map<string, string>>;
+  private deduplicator: FindingDeduplicator;
+  private conflictDetector: ConflictDetector;
   private gcpCredentials?: GCPCredentials;
 
   constructor(config: Partial<OrchestratorConfig> = {}) {
@@ -64,6 +149,15 @@ export class ResearchOrchestrator extends EventEmitter {
       gcpProjectId: config.gcpProjectId,
       gcpRegion: config.gcpRegion || 'us-central1',
       gcpAccessToken: config.gcpAccessToken,
+      searchProvider: config.searchProvider,
+      pageFetcher: config.pageFetcher,
+      edgarClient: config.edgarClient,
+      llmClient: config.llmClient,
+      qualityReview: config.qualityReview ?? true,
+      reviseAfterReview: config.reviseAfterReview ?? true,
+      reviewPassScore: config.reviewPassScore,
+      resumeInterrupted: config.resumeInterrupted ?? false,
+      approvalGates: config.approvalGates || [],
     };
 
     // Set up GCP credentials if provided
@@ -76,12 +170,17 @@ export class ResearchOrchestrator extends EventEmitter {
     }
 
     this.memory = getAgentDB(this.config.dbPath);
-    this.agents = new Map();
     this.activeProjects = new Map();
-    this.taskQueue = [];
-    this.runningTasks = new Set();
-
-    this.initializeAgents();
+    this.plans = new Map();
+    this.runs = new Map();
+    this.budgets = new Map();
+    this.runningTasks = new Map();
+    this.deduplicator = new FindingDeduplicator(this.memory);
+    this.conflictDetector = new ConflictDetector(this.memory);
+
+    // Vertex AI if GCP credentials are provided, otherwise the direct API,
+    // unless LLM_MODE selects recording or replay
+    this.llmClient = this.config.llmClient || createLLMClient(llmConfigFromEnv(this.gcpCredentials));
   }
 
   /**
@@ -90,34 +189,97 @@ export class ResearchOrchestrator extends EventEmitter {
   updateCredentials(accessToken: string): void {
     if (this.gcpCredentials) {
       this.gcpCredentials.accessToken = accessToken;
-      // Update all agents with new credentials
-      for (const agent of this.agents.values()) {
-        agent.updateCredentials(accessToken);
-      }
+      // Agents share the orchestrator's credentials and model client
+      this.llmClient.updateCredentials?.(accessToken);
     }
   }
 
-  private initializeAgents(): void {
-    // Create agent instances with GCP credentials for Vertex AI
-    this.agents.set('web_researcher', new WebResearcherAgent(this.memory, this.gcpCredentials));
-    this.agents.set('financial_analyst', new FinancialAnalystAgent(this.memory, this.gcpCredentials));
-    this.agents.set('competitive_intelligence', new CompetitiveIntelligenceAgent(this.memory, this.gcpCredentials));
-    this.agents.set('report_generator', new ReportGeneratorAgent(this.memory, this.gcpCredentials));
+  /**
+   * Create an agent for one task. Each task gets its own instance, so
+   * conversation history never carries over between tasks or projects;
+   * the model client and data providers are shared.
+   */
+  private createAgent(agentType: string): BaseAgent {
+    const llmClient = this.llmClient;
+    let agent: BaseAgent;
+    switch (agentType) {
+      case 'web_researcher':
+        agent = new WebResearcherAgent(this.memory, this.gcpCredentials, {
+          llmClient,
+          searchProvider: this.config.searchProvider,
+          pageFetcher: this.config.pageFetcher,
+        });
+        break;
+      case 'financial_analyst':
+        agent = new FinancialAnalystAgent(this.memory, this.gcpCredentials, {
+          llmClient,
+          edgarClient: this.config.edgarClient,
+        });
+        break;
+      case 'competitive_intelligence':
+        agent = new CompetitiveIntelligenceAgent(this.memory, this.gcpCredentials, { llmClient });
+        break;
+      case 'news_monitor':
+        agent = new NewsMonitorAgent(this.memory, this.gcpCredentials, {
+          llmClient,
+          searchProvider: this.config.searchProvider,
+        });
+        break;
+      case 'data_synthesizer':
+        agent = new DataSynthesizerAgent(this.memory, this.gcpCredentials, { llmClient });
+        break;
+      case 'report_generator':
+        agent = new ReportGeneratorAgent(this.memory, this.gcpCredentials, { llmClient });
+        break;
+      case 'quality_reviewer':
+        agent = new QualityReviewerAgent(this.memory, this.gcpCredentials, {
+          llmClient,
+          passScore: this.config.reviewPassScore,
+        });
+        break;
+      default:
+        throw new Error(`Unknown agent type: ${agentType}`);
+    }
+
+    // Surface model call retries to clients watching the project
+    agent.on('retry', (event: AgentRetryEvent) => {
+      if (!event.projectId) return;
+      this.emitEvent('agent:error', event.projectId, {
+        agentType: event.agentType,
+        questionId: event.questionId,
+        error: event.message,
+        errorType: event.errorType,
+        status: event.status,
+        recoverable: true,
+        retrying: true,
+        attempt: event.attempt,
+        maxRetries: event.maxRetries,
+        retryInMs: event.delayMs,
+      });
+    });
+
+    return agent;
   }
 
   /**
-   * Start a new research project from a scoping document
+   * Start a new research project from a scoping document. A plan from
+   * previewPlan, possibly edited, runs in place of a freshly built one.
    */
-  async startProject(scopingDocument: ScopingDocument): Promise<ResearchProject> {
+  async startProject(scopingDocument: ScopingDocument, plan?: PlanTask[]): Promise<ResearchProject> {
     const projectId = scopingDocument.id || uuidv4();
+    const approvedPlan = plan && checkResearchPlan(scopingDocument, plan);
 
     // Initialize project in database
     this.memory.createProject(
       projectId,
       scopingDocument.projectName,
       scopingDocument.targetCompany.name,
-      scopingDocument
+      scopingDocument,
+      this.config.gcpProjectId
     );
+    if (approvedPlan) {
+      this.memory.savePlan(projectId, approvedPlan);
+    }
 
     // Create project state
     const project: ResearchProject = {
@@ -133,207 +295,668 @@ export class ResearchOrchestrator extends EventEmitter {
       metadata: {
         startedAt: new Date().toISOString(),
         totalTokensUsed: 0,
+        totalCostUsd: 0,
         totalSearches: 0,
         totalSources: 0,
       },
     };
 
+    const budget = new BudgetTracker(scopingDocument.budget);
+    if (budget.enabled) {
+      project.metadata.budget = budget.getStatus();
+    }
+    this.budgets.set(projectId, budget);
+
     this.activeProjects.set(projectId, project);
     this.emitEvent('project:created', projectId, { project });
 
     // Start the research workflow
-    this.executeWorkflow(project).catch(error => {
-      this.handleProjectError(project, error);
-    });
+    this.startRun(project);
 
     return project;
   }
 
   /**
-   * Execute the full research workflow
+   * Reload this orchestrator's projects from the database after a restart.
+   * Projects that were mid-run are resumed from their last checkpoint, or
+   * marked interrupted unless resumeInterrupted is set.
+   *
+   * Call this once per server process, before the orchestrator runs any
+   * work. Another process may still be running the stored projects, so
+   * short-lived orchestrators such as the CLI's never restore.
    */
-  private async executeWorkflow(project: ResearchProject): Promise<void> {
-    try {
-      // Phase 1: Planning
-      await this.planResearch(project);
+  restoreProjects(): void {
+    for (const project of this.memory.getProjectStates(this.config.gcpProjectId)) {
+      this.activeProjects.set(project.id, project);
+
+      const budget = new BudgetTracker(project.scopingDocument.budget);
+      if (project.metadata.budget) {
+        budget.restore(project.metadata.budget);
+      }
+      this.budgets.set(project.id, budget);
+
+      if (STOPPED_STATUSES.includes(project.status)) continue;
+
+      // Tasks that were running stopped with the server and will never report back
+      this.memory.interruptRunningTasks(project.id);
+      for (const agent of project.agents) {
+        if (agent.status === 'active') {
+          agent.status = 'idle';
+          agent.currentTask = null;
+          agent.activeTasks = 0;
+        }
+      }
 
-      // Phase 2: Primary Research (Web + Initial Analysis)
-      await this.executePrimaryResearch(project);
+      if (this.config.resumeInterrupted) {
+        project.currentPhase = 'Resuming research workflow after restart';
+        this.memory.saveProjectState(project);
+        this.startRun(project);
+        continue;
+      }
 
-      // Phase 3: Deep Analysis (Financial + Competitive)
-      await this.executeDeepAnalysis(project);
+      project.status = 'interrupted';
+      project.currentPhase = 'Interrupted by server restart';
+      project.errors.push({
+        id: uuidv4(),
+        projectId: project.id,
+        type: 'internal',
+        message: 'The server restarted while this project was running. Resume it to continue from the last completed step.',
+        recoverable: true,
+        occurredAt: new Date().toISOString(),
+      });
+      this.memory.saveProjectState(project);
+    }
+  }
 
-      // Phase 4: Synthesis and Reporting
-      await this.generateReport(project);
+  /**
+   * Run the workflow in the background, tracking it so it can be paused
+   * or cancelled
+   */
+  private startRun(project: ResearchProject): void {
+    const controller = new AbortController();
+    const done = this.executeWorkflow(project, controller.signal)
+      .catch(error => {
+        this.handleProjectError(project, error);
+      })
+      .finally(() => {
+        if (this.runs.get(project.id)?.controller === controller) {
+          this.runs.delete(project.id);
+        }
+      });
+    this.runs.set(project.id, { controller, done });
+  }
 
-      // Phase 5: Finalization
-      await this.finalizeProject(project);
+  /**
+   * Execute the full research workflow
+   */
+  private async executeWorkflow(project: ResearchProject, signal: AbortSignal): Promise<void> {
+    const phases: Array<[WorkflowPhase, () => Promise<void>]> = [
+      // Phase 1: Planning
+      ['planning', () => this.planResearch(project)],
+      // Phases 2-3: Research and analysis, in dependency order
+      ['research', () => this.executeResearchPlan(project, signal)],
+      // Phase 4: Synthesis of answers to key questions
+      ['synthesis', () => this.synthesizeFindings(project, signal)],
+      // Phase 5: Reporting
+      ['report', () => this.generateReport(project, signal)],
+      // Phase 6: Quality review
+      ['review', () => this.reviewReport(project, signal)],
+      // Phase 7: Finalization
+      ['finalize', () => this.finalizeProject(project)],
+    ];
+
+    // A resumed project continues after its last completed phase
+    const checkpoint = this.memory.getProjectCheckpoint(project.id);
+    const start = checkpoint ? phases.findIndex(([phase]) => phase === checkpoint) + 1 : 0;
+
+    try {
+      for (const [phase, run] of phases.slice(start)) {
+        await run();
+        // An interrupted phase is not checkpointed, so resuming repeats its unfinished work
+        if (signal.aborted) return;
+        this.memory.setProjectCheckpoint(project.id, phase);
+
+        const gate = this.approvalGateAfter(project, phase);
+        if (gate) {
+          this.requestApproval(project, gate);
+          return;
+        }
+      }
     } catch (error) {
+      if (signal.aborted) return;
       this.handleProjectError(project, error);
     }
   }
 
+  /**
+   * The approval gate that follows a phase, unless the project does not use
+   * it or it was already approved
+   */
+  private approvalGateAfter(project: ResearchProject, phase: WorkflowPhase): ApprovalGate | undefined {
+    const gates = project.scopingDocument.approvalGates ?? this.config.approvalGates;
+    return gates.find(gate =>
+      APPROVAL_GATES[gate].phase === phase && !project.approvals?.some(approval => approval.gate === gate)
+    );
+  }
+
+  /**
+   * Stop the workflow at a checkpoint until an analyst approves it
+   */
+  private requestApproval(project: ResearchProject, gate: ApprovalGate): void {
+    project.approval = {
+      gate,
+      requestedAt: new Date().toISOString(),
+      findingsCount: this.memory.getFindings(project.id).length,
+      pendingTasks: this.memory.getPlan(project.id).filter(task => task.status === 'pending').length,
+    };
+
+    this.memory.updateProjectStatus(project.id, 'awaiting_approval');
+    this.updateProjectStatus(project, 'awaiting_approval', project.progress, APPROVAL_GATES[gate].waitingFor);
+    this.emitEvent('approval:requested', project.id, { approval: project.approval });
+  }
+
+  /**
+   * Approve the checkpoint a project is waiting at and continue its
+   * workflow. Guidance is given to every agent from here on; tasks added
+   * after research has run send the project back to the research phase.
+   * Returns false if the project is not awaiting approval.
+   */
+  async approveCheckpoint(projectId: string, decision: ApprovalDecision = {}): Promise<boolean> {
+    const project = this.activeProjects.get(projectId);
+    const approval = project?.approval;
+    if (!project || !approval || project.status !== 'awaiting_approval') return false;
+
+    // The run that requested approval settles right after stopping
+    await this.runs.get(projectId)?.done;
+    if (project.status !== 'awaiting_approval') return false;
+
+    const addedTasks = this.applyPlanChanges(project, decision);
+    const guidance = decision.guidance?.trim() || undefined;
+    if (guidance) {
+      (project.guidance ||= []).push(guidance);
+    }
+
+    const record = {
+      gate: approval.gate,
+      requestedAt: approval.requestedAt,
+      approvedAt: new Date().toISOString(),
+      guidance,
+      addedTaskIds: addedTasks.map(task => task.id),
+      removedTaskIds: decision.removeTaskIds || [],
+    };
+    (project.approvals ||= []).push(record);
+    project.approval = undefined;
+
+    if (addedTasks.length > 0 && approval.gate !== 'after_planning') {
+      this.memory.setProjectCheckpoint(projectId, 'planning');
+    }
+
+    project.status = 'initializing';
+    project.currentPhase = 'Continuing after approval';
+    this.memory.updateProjectStatus(projectId, project.status);
+    this.emitEvent('approval:granted', projectId, { approval: record });
+    this.emitEvent('project:updated', projectId, { status: project.status, currentPhase: project.currentPhase });
+
+    this.startRun(project);
+    return true;
+  }
+
+  /**
+   * Remove and add the plan tasks an approval asks for, returning the
+   * tasks added. The whole change is rejected if the resulting plan is
+   * invalid or a task to remove has already run.
+   */
+  private applyPlanChanges(project: ResearchProject, decision: ApprovalDecision): PlanTask[] {
+    const { addTasks = [], removeTaskIds = [] } = decision;
+    if (addTasks.length === 0 && removeTaskIds.length === 0) return [];
+
+    const { keyQuestions } = project.scopingDocument;
+    const plan = this.memory.getPlan(project.id);
+    const errors: string[] = [];
+
+    for (const id of removeTaskIds) {
+      const task = plan.find(t => t.id === id);
+      if (!task) {
+        errors.push(`Task ${id} is not in the plan`);
+      } else if (task.status !== 'pending') {
+        errors.push(`Task ${id} is ${task.status} and cannot be removed`);
+      }
+    }
+
+    const added = addTasks.map(task => {
+      const question = keyQuestions.find(q => q.id === task.questionId);
+      return {
+        ...task,
+        id: task.id || uuidv4(),
+        priority: task.priority ?? (question ? questionPriority(question.priority) : 3),
+        dependencies: task.dependencies ?? [],
+      } as PlanTask;
+    });
+    const remaining = plan.filter(task => !removeTaskIds.includes(task.id));
+    errors.push(...validatePlan([...remaining, ...added], keyQuestions));
+
+    if (errors.length > 0) {
+      throw new PlanValidationError(errors);
+    }
+
+    // Added tasks join the latest round, so they run before any further follow-ups
+    const round = Math.max(1, ...plan.map(task => task.round));
+    const newTasks = normalizePlan(added, keyQuestions).map(task => ({ ...task, round }));
+
+    this.memory.removePlanTasks(project.id, removeTaskIds);
+    this.memory.addPlanTasks(project.id, newTasks);
+    this.restorePlan(project);
+    return newTasks;
+  }
+
+  /**
+   * Append a project's analyst guidance to an agent's additional context
+   */
+  private withGuidance(project: ResearchProject, additionalContext?: string): string | undefined {
+    if (!project.guidance?.length) return additionalContext;
+    const guidance = `Analyst guidance:\n${project.guidance.map(g => `- ${g}`).join('\n')}`;
+    return additionalContext ? `${additionalContext}\n\n${guidance}` : guidance;
+  }
+
   /**
    * Phase 1: Plan the research based on scoping document
    */
   private async planResearch(project: ResearchProject): Promise<void> {
     this.updateProjectStatus(project, 'initializing', 5, 'Planning research strategy');
 
-    const tasks: TaskDefinition[] = [];
-    const { keyQuestions, targetCompany, dataSources } = project.scopingDocument;
-
-    // Create tasks for each key question
-    for (const question of keyQuestions) {
-      // Determine which agents should handle this question
-      const agentTypes = this.determineAgentsForQuestion(question);
-
-      for (const agentType of agentTypes) {
-        tasks.push({
-          id: uuidv4(),
-          agentType,
-          context: {
-            projectId: project.id,
-            targetCompany: targetCompany.name,
-            questionId: question.id,
-            question: question.question,
-            additionalContext: question.subQuestions?.join('; '),
-          },
-          priority: this.questionPriorityToNumber(question.priority),
-          dependencies: [],
-        });
-      }
+    // A plan approved from a preview is already stored and runs as given
+    if (this.memory.getPlan(project.id).length === 0) {
+      this.memory.savePlan(project.id, buildResearchPlan(project.scopingDocument));
     }
+    const plan = this.restorePlan(project);
 
-    // Add general research tasks if enabled
-    if (dataSources.webSearch) {
-      tasks.push({
-        id: uuidv4(),
-        agentType: 'web_researcher',
-        context: {
-          projectId: project.id,
-          targetCompany: targetCompany.name,
-          question: `General company research and background on ${targetCompany.name}`,
+    // Store pending tasks
+    const pendingTasks = plan.getEntries().map(({ task }) => `${task.agentType}: ${task.context.question}`);
+    this.memory.updateSharedContext(project.id, { pendingTasks });
+
+    this.updateProjectStatus(project, 'researching', 10, 'Research plan created');
+  }
+
+  /**
+   * Plan a scoping document's research without running it, using this
+   * orchestrator's depth and review settings
+   */
+  previewPlan(scopingDocument: ScopingDocument, plan?: PlanTask[]): PlanPreview {
+    return previewResearchPlan(scopingDocument, this.config, plan);
+  }
+
+  /**
+   * Phases 2-3: Run the research plan. Primary research starts at once;
+   * each analysis task starts as soon as the research it depends on is done.
+   * Gaps and low-confidence findings from each round become follow-up tasks
+   * for another round, up to maxResearchDepth rounds.
+   */
+  private async executeResearchPlan(project: ResearchProject, signal: AbortSignal): Promise<void> {
+    this.updateProjectStatus(project, 'researching', 15, 'Executing research plan');
+
+    const maxDepth = this.config.maxResearchDepth;
+    let plan = this.plans.get(project.id) || this.restorePlan(project);
+    let round = Math.max(1, ...this.memory.getPlan(project.id).map(task => task.round));
+
+    for (;;) {
+      if (round > 1) {
+        const progress = 45 + Math.round((25 * (round - 1)) / maxDepth);
+        this.updateProjectStatus(project, 'analyzing', progress, `Research round ${round} of ${maxDepth}: following up on gaps`);
+      }
+
+      await this.executeTaskBatch(project, plan, round === 1 ? 'Research' : `Research round ${round}`, {
+        signal,
+        persist: true,
+        onTaskStart: task => {
+          if (task.dependencies.length > 0 && project.status === 'researching') {
+            this.updateProjectStatus(project, 'analyzing', 45, 'Executing deep analysis');
+          }
         },
-        priority: 2,
-        dependencies: [],
       });
+      if (signal.aborted) return;
+
+      const followUps = this.planNextRound(project, round);
+      if (followUps.length === 0) break;
+
+      round++;
+      this.memory.addPlanTasks(project.id, followUps);
+      plan = this.restorePlan(project);
     }
 
-    if (dataSources.financialReports) {
-      tasks.push({
-        id: uuidv4(),
-        agentType: 'financial_analyst',
-        context: {
-          projectId: project.id,
-          targetCompany: targetCompany.name,
-          question: `Financial overview and health assessment of ${targetCompany.name}`,
-        },
-        priority: 2,
-        dependencies: [],
-      });
+    this.updateProjectStatus(project, 'analyzing', 70, 'Research and analysis completed');
+  }
+
+  /**
+   * Follow-up tasks for the round after this one, or none once the depth
+   * limit is reached, the research budget is used up or the round left
+   * nothing to follow up
+   */
+  private planNextRound(project: ResearchProject, round: number): PlanTask[] {
+    if (round >= this.config.maxResearchDepth || this.getBudget(project.id).researchExhausted) {
+      return [];
     }
 
-    // Store pending tasks
-    const pendingTasks = tasks.map(t => `${t.agentType}: ${t.context.question}`);
-    this.memory.updateSharedContext(project.id, { pendingTasks });
+    const previousRound = this.memory.getPlan(project.id).filter(task => task.round === round);
+    return planFollowUpTasks(previousRound, this.memory.getFindings(project.id), round + 1);
+  }
+
+  /**
+   * Rebuild a project's research plan from its stored checkpoint
+   */
+  private restorePlan(project: ResearchProject): TaskScheduler<TaskDefinition> {
+    const saved = this.memory.getPlan(project.id);
+    const tasks: TaskDefinition[] = saved.map(task => ({
+      id: task.id,
+      agentType: task.agentType,
+      context: {
+        projectId: project.id,
+        targetCompany: project.scopingDocument.targetCompany.name,
+        questionId: task.questionId,
+        question: task.question,
+        additionalContext: task.additionalContext,
+      },
+      priority: task.priority,
+      dependencies: task.dependencies,
+    }));
 
-    // Queue tasks by priority
-    this.taskQueue = tasks.sort((a, b) => b.priority - a.priority);
+    const plan = new TaskScheduler(tasks, this.config.maxConcurrentAgents);
+    for (const { id, status, reason, startedAt, completedAt } of saved) {
+      plan.restore(id, { status, reason, startedAt, completedAt });
+    }
+    this.plans.set(project.id, plan);
+    return plan;
+  }
 
-    this.updateProjectStatus(project, 'researching', 10, 'Research plan created');
+  /**
+   * The research plan for a project, with each task's current status
+   */
+  getPlan(projectId: string): ResearchPlan | null {
+    const tasks = this.memory.getPlan(projectId);
+    return tasks.length > 0 ? { projectId, tasks } : null;
   }
 
   /**
-   * Phase 2: Execute primary research tasks
+   * Phase 4: Consolidate the findings on each key question into an answer
    */
-  private async executePrimaryResearch(project: ResearchProject): Promise<void> {
-    this.updateProjectStatus(project, 'researching', 15, 'Executing primary research');
+  private async synthesizeFindings(project: ResearchProject, signal: AbortSignal): Promise<void> {
+    this.updateProjectStatus(project, 'synthesizing', 72, 'Synthesizing answers to key questions');
 
-    // Get web research and general tasks
-    const primaryTasks = this.taskQueue.filter(
-      t => t.agentType === 'web_researcher' && t.dependencies.length === 0
-    );
+    this.detectConflicts(project);
+    this.mergeDuplicateFindings(project);
+
+    const { keyQuestions, targetCompany } = project.scopingDocument;
+    const synthesisTasks: TaskDefinition[] = keyQuestions.map(question => ({
+      id: uuidv4(),
+      agentType: 'data_synthesizer',
+      context: {
+        projectId: project.id,
+        targetCompany: targetCompany.name,
+        questionId: question.id,
+        question: question.question,
+        additionalContext: question.subQuestions?.join('; '),
+      },
+      priority: questionPriority(question.priority),
+      dependencies: [],
+    }));
+
+    await this.executeTaskBatch(project, new TaskScheduler(synthesisTasks, this.config.maxConcurrentAgents), 'Synthesis', { signal });
+    if (signal.aborted) return;
 
-    // Execute primary tasks with concurrency control
-    await this.executeTaskBatch(project, primaryTasks, 'Primary research');
+    for (const answer of this.memory.getQuestionAnswers(project.id)) {
+      this.emitEvent('question:answered', project.id, { answer });
+    }
 
-    this.updateProjectStatus(project, 'researching', 40, 'Primary research completed');
+    this.updateProjectStatus(project, 'synthesizing', 75, 'Key questions synthesized');
   }
 
   /**
-   * Phase 3: Execute deep analysis tasks
+   * Phase 5: Generate final report
    */
-  private async executeDeepAnalysis(project: ResearchProject): Promise<void> {
-    this.updateProjectStatus(project, 'analyzing', 45, 'Executing deep analysis');
+  private async generateReport(project: ResearchProject, signal: AbortSignal): Promise<void> {
+    this.updateProjectStatus(project, 'synthesizing', 75, 'Generating research report');
 
-    // Get analysis tasks
-    const analysisTasks = this.taskQueue.filter(
-      t =>
-        t.agentType === 'financial_analyst' ||
-        t.agentType === 'competitive_intelligence'
-    );
+    const budget = this.getBudget(project.id);
+    const partialReason = this.getPartialReason(budget);
+
+    // No budget left even for the report: assemble it from stored findings
+    if (budget.exhausted) {
+      project.report = this.buildPartialReport(project, partialReason || 'The project budget was exhausted.');
+      this.addAppendices(project, project.report);
+      this.emitEvent('report:completed', project.id, { report: project.report });
+      this.updateProjectStatus(project, 'synthesizing', 90, 'Partial report assembled');
+      return;
+    }
 
-    // Execute analysis tasks
-    await this.executeTaskBatch(project, analysisTasks, 'Deep analysis');
+    await this.writeReport(project, signal, partialReason
+      ? `${partialReason} State in the executive summary that the report is partial and which areas were not covered.`
+      : undefined);
 
-    this.updateProjectStatus(project, 'analyzing', 70, 'Deep analysis completed');
+    this.updateProjectStatus(project, 'synthesizing', 90, 'Report generated');
   }
 
   /**
-   * Phase 4: Generate final report
+   * Phase 6: Review the report against its findings, with one revision
+   * pass if it falls short
    */
-  private async generateReport(project: ResearchProject): Promise<void> {
-    this.updateProjectStatus(project, 'synthesizing', 75, 'Generating research report');
+  private async reviewReport(project: ResearchProject, signal: AbortSignal): Promise<void> {
+    const budget = this.getBudget(project.id);
+    if (!project.report || !this.config.qualityReview || budget.exhausted) return;
+
+    this.updateProjectStatus(project, 'reviewing', 91, 'Reviewing report quality');
+
+    let review = await this.runQualityReview(project, signal);
+
+    if (review && !review.passed && this.config.reviseAfterReview && !budget.exhausted) {
+      this.updateProjectStatus(project, 'reviewing', 93, 'Revising report after quality review');
 
-    const reportAgent = this.agents.get('report_generator') as ReportGeneratorAgent;
+      const partialReason = this.getPartialReason(budget);
+      const feedback = [
+        partialReason ? `${partialReason} State in the executive summary that the report is partial.` : '',
+        `A quality review of the previous draft scored ${review.score}/100. Revise the report to fix these issues:`,
+        ...review.issues.map(issue => `- [${issue.type}, ${issue.severity}] ${issue.description}${issue.suggestion ? ` Fix: ${issue.suggestion}` : ''}`),
+      ].filter(Boolean).join('\n');
+
+      if (await this.writeReport(project, signal, feedback)) {
+        project.report.metadata.revisions = (project.report.metadata.revisions || 0) + 1;
+        if (!budget.exhausted) {
+          review = await this.runQualityReview(project, signal);
+        }
+      }
+    }
+
+    if (review) {
+      project.report.metadata.review = review;
+      // Rebuilt so the methodology counts the models used for review
+      this.addAppendices(project, project.report);
+      this.emitEvent('report:reviewed', project.id, { review, revisions: project.report.metadata.revisions || 0 });
+    }
+  }
+
+  /**
+   * Run the report generator and make its report the project's report.
+   * Earlier drafts are kept as superseded findings. Returns false if
+   * generation failed, leaving any earlier report in place.
+   */
+  private async writeReport(project: ResearchProject, signal: AbortSignal, additionalContext?: string): Promise<boolean> {
+    const reportAgent = this.createAgent('report_generator');
+    const budget = this.getBudget(project.id);
+    const partialReason = this.getPartialReason(budget);
+    const previousDrafts = this.memory.getFindings(project.id).filter(f => f.category === 'final_report');
+
+    const taskRecordId = this.memory.createTask(project.id, reportAgent.agentId, 'report_generator', 'Generate final report');
+    this.memory.updateTaskStatus(taskRecordId, 'in_progress');
 
     // Update agent status
-    this.updateAgentStatus(project, 'report_generator', 'active', 'Generating final report');
+    this.updateAgentStatus(project, 'report_generator', taskRecordId, 'active', 'Generating final report');
 
-    const result = await reportAgent.execute({
+    const reportContext: AgentContext = {
       projectId: project.id,
       targetCompany: project.scopingDocument.targetCompany.name,
-    });
+      additionalContext: this.withGuidance(project, additionalContext),
+      model: budget.modelOverride,
+      signal,
+    };
 
-    if (result.success) {
-      // Extract report from findings
-      const reportFinding = result.findings.find(f => f.category === 'final_report');
-      if (reportFinding) {
-        try {
-          project.report = JSON.parse(reportFinding.content);
-        } catch {
-          // Use summary as fallback
-          project.report = {
-            id: reportFinding.id,
-            projectId: project.id,
-            title: reportFinding.title,
-            executiveSummary: reportFinding.summary,
-            sections: [],
-            keyInsights: result.insights,
-            riskFactors: [],
-            recommendations: [],
-            appendices: [],
-            metadata: {
-              generatedAt: new Date().toISOString(),
-              wordCount: reportFinding.content.length,
-              sourcesCount: result.sources.length,
-              confidenceScore: 0.7,
-            },
-          };
-        }
+    const result = await reportAgent.execute(reportContext);
+    this.recordTaskResult(project, 'report_generator', reportAgent, taskRecordId, result, reportContext.model);
+
+    if (!result.success && signal.aborted) {
+      this.recordInterruption(project, 'report_generator', taskRecordId);
+      return false;
+    }
+
+    if (!result.success) {
+      this.recordAgentFailure(project, 'report_generator', reportAgent, result);
+      this.updateAgentStatus(project, 'report_generator', taskRecordId, 'error', result.error || 'Unknown error');
+      return false;
+    }
+
+    // Extract report from findings
+    const reportFinding = result.findings.find(f => f.category === 'final_report');
+    if (reportFinding) {
+      try {
+        project.report = JSON.parse(reportFinding.content);
+      } catch {
+        // Use summary as fallback
+        project.report = {
+          id: reportFinding.id,
+          projectId: project.id,
+          title: reportFinding.title,
+          executiveSummary: reportFinding.summary,
+          sections: [],
+          keyInsights: result.insights,
+          riskFactors: [],
+          recommendations: [],
+          appendices: [],
+          metadata: {
+            generatedAt: new Date().toISOString(),
+            wordCount: reportFinding.content.length,
+            sourcesCount: result.sources.length,
+            confidenceScore: 0.7,
+          },
+        };
       }
 
-      this.updateAgentStatus(project, 'report_generator', 'completed', null);
-      this.emitEvent('report:completed', project.id, { report: project.report });
-    } else {
-      this.updateAgentStatus(project, 'report_generator', 'error', result.error || 'Unknown error');
+      for (const draft of previousDrafts) {
+        this.memory.updateFindingMetadata(draft.id, { supersededBy: reportFinding.id });
+      }
     }
 
-    this.updateProjectStatus(project, 'synthesizing', 90, 'Report generated');
+    if (project.report && partialReason) {
+      project.report.metadata.partial = true;
+      project.report.metadata.partialReason = partialReason;
+    }
+
+    if (project.report) {
+      this.addAppendices(project, project.report);
+    }
+
+    this.updateAgentStatus(project, 'report_generator', taskRecordId, 'completed', null);
+    this.emitEvent('report:completed', project.id, { report: project.report });
+    return Boolean(reportFinding);
+  }
+
+  /**
+   * Run the quality reviewer on the current report
+   */
+  private async runQualityReview(project: ResearchProject, signal: AbortSignal): Promise<QualityReview | null> {
+    const reviewer = this.createAgent('quality_reviewer') as QualityReviewerAgent;
+    const budget = this.getBudget(project.id);
+
+    const taskRecordId = this.memory.createTask(project.id, reviewer.agentId, 'quality_reviewer', 'Review report quality');
+    this.memory.updateTaskStatus(taskRecordId, 'in_progress');
+
+    this.updateAgentStatus(project, 'quality_reviewer', taskRecordId, 'active', 'Reviewing report');
+
+    const reviewContext: AgentContext = {
+      projectId: project.id,
+      targetCompany: project.scopingDocument.targetCompany.name,
+      model: budget.modelOverride,
+      signal,
+    };
+
+    const result = await reviewer.execute(reviewContext);
+    this.recordTaskResult(project, 'quality_reviewer', reviewer, taskRecordId, result, reviewContext.model);
+
+    if (!result.success && signal.aborted) {
+      this.recordInterruption(project, 'quality_reviewer', taskRecordId);
+      return null;
+    }
+
+    if (!result.success) {
+      // A failed review does not block delivery of the report
+      this.recordAgentFailure(project, 'quality_reviewer', reviewer, result);
+      this.updateAgentStatus(project, 'quality_reviewer', taskRecordId, 'error', result.error || 'Unknown error');
+      return null;
+    }
+
+    this.updateAgentStatus(project, 'quality_reviewer', taskRecordId, 'completed', null);
+    return reviewer.getLatestReview(project.id);
+  }
+
+  private getPartialReason(budget: BudgetTracker): string | undefined {
+    const budgetStatus = budget.getStatus();
+    return budgetStatus.researchExhausted
+      ? `Research stopped early because the project budget was exhausted; ${budgetStatus.skippedTasks.length} planned task(s) were not run.`
+      : budgetStatus.skippedTasks.length > 0
+        ? `${budgetStatus.skippedTasks.length} lower-priority task(s) were skipped to stay within the project budget.`
+        : undefined;
+  }
+
+  /**
+   * Flag findings that report different values for the same metric
+   */
+  private detectConflicts(project: ResearchProject): void {
+    const conflicts = this.conflictDetector.detect(project.id, project.scopingDocument.targetCompany.name);
+
+    for (const conflict of conflicts) {
+      this.emitEvent('finding:updated', project.id, {
+        conflict,
+        findingIds: conflict.claims.map(c => c.findingId),
+      });
+    }
+  }
+
+  /**
+   * Resolve a conflict between findings, e.g. after an analyst has checked
+   * the sources
+   */
+  resolveConflict(
+    projectId: string,
+    conflictId: string,
+    resolution: { note: string; acceptedFindingId?: string }
+  ): FindingConflict | null {
+    const conflict = this.conflictDetector.resolve(projectId, conflictId, resolution);
+    if (conflict) {
+      this.emitEvent('finding:updated', projectId, {
+        conflict,
+        findingIds: conflict.claims.map(c => c.findingId),
+      });
+    }
+    return conflict;
+  }
+
+  /**
+   * Merge near-identical findings from different agents so each is
+   * reported once
+   */
+  private mergeDuplicateFindings(project: ResearchProject): void {
+    // Contradicting findings stay separate so both sides reach the report
+    const conflicting = new Set(
+      this.conflictDetector.list(project.id, 'open').flatMap(c => c.claims.map(claim => claim.findingId))
+    );
+    const merged = this.deduplicator.deduplicate(project.id, conflicting);
+
+    for (const { canonical, supersededIds } of merged) {
+      this.emitEvent('finding:updated', project.id, {
+        finding: canonical,
+        mergedFrom: supersededIds,
+      });
+    }
   }
 
   /**
-   * Phase 5: Finalize project
+   * Phase 7: Finalize project
    */
   private async finalizeProject(project: ResearchProject): Promise<void> {
     this.updateProjectStatus(project, 'reviewing', 95, 'Finalizing project');
@@ -357,59 +980,89 @@ export class ResearchOrchestrator extends EventEmitter {
   }
 
   /**
-   * Execute a batch of tasks with concurrency control
+   * Run a batch of tasks through a scheduler, which dispatches each task
+   * once its dependencies are done and a concurrency slot is free
    */
   private async executeTaskBatch(
     project: ResearchProject,
-    tasks: TaskDefinition[],
-    batchName: string
+    scheduler: TaskScheduler<TaskDefinition>,
+    batchName: string,
+    options: {
+      signal?: AbortSignal;
+      /** Checkpoint each task's status to the stored plan */
+      persist?: boolean;
+      onTaskStart?: (task: TaskDefinition) => void;
+    } = {}
   ): Promise<void> {
-    const results: Promise<void>[] = [];
+    // Tasks settled in an earlier run or round are not counted again
+    const totalTasks = scheduler.getEntries().filter(entry => entry.status === 'pending').length;
     let completedTasks = 0;
-
-    for (const task of tasks) {
-      // Wait if we've hit max concurrency
-      while (this.runningTasks.size >= this.config.maxConcurrentAgents) {
-        await this.waitForAvailableSlot();
+    const checkpoint = (entry: ScheduledTask<TaskDefinition>) => {
+      if (options.persist) {
+        const { status, reason, startedAt, completedAt } = entry;
+        this.memory.updatePlanTask(entry.task.id, { status, reason, startedAt, completedAt });
       }
+    };
 
-      // Execute task
-      const taskPromise = this.executeTask(project, task)
-        .then(() => {
-          completedTasks++;
-          const progress = Math.round(
-            (completedTasks / tasks.length) * 100
-          );
-          this.emitEvent('agent:progress', project.id, {
-            batchName,
-            completedTasks,
-            totalTasks: tasks.length,
-            progress,
-          });
-        })
-        .finally(() => {
-          this.runningTasks.delete(task.id);
+    await scheduler.run({
+      run: task => {
+        options.onTaskStart?.(task);
+        if (options.persist) {
+          this.memory.updatePlanTask(task.id, { status: 'running', startedAt: new Date().toISOString() });
+        }
+        return this.executeTask(project, task, options.signal);
+      },
+      // Checked as each task is dispatched, as running tasks may have used up the budget
+      shouldSkip: task => this.getBudget(project.id).shouldSkip(task.priority),
+      onInterrupted: checkpoint,
+      onSettled: entry => {
+        checkpoint(entry);
+
+        if (entry.status === 'skipped') {
+          this.skipTask(project, entry.task, this.getBudget(project.id));
+        } else if (entry.status === 'blocked') {
+          this.blockTask(project, entry);
+        }
+        // The task's token usage, budget and errors
+        this.memory.saveProjectState(project);
+
+        completedTasks++;
+        this.emitEvent('agent:progress', project.id, {
+          batchName,
+          completedTasks,
+          totalTasks,
+          progress: Math.round((completedTasks / totalTasks) * 100),
         });
-
-      this.runningTasks.add(task.id);
-      results.push(taskPromise);
-    }
-
-    // Wait for all tasks to complete
-    await Promise.all(results);
+      },
+    }, options.signal);
   }
 
   /**
-   * Execute a single research task
+   * Execute a single research task, resolving to whether it succeeded
    */
-  private async executeTask(project: ResearchProject, task: TaskDefinition): Promise<void> {
-    const agent = this.agents.get(task.agentType);
-    if (!agent) {
-      throw new Error(`Unknown agent type: ${task.agentType}`);
-    }
+  private async executeTask(project: ResearchProject, task: TaskDefinition, signal?: AbortSignal): Promise<boolean> {
+    const agent = this.createAgent(task.agentType);
+    this.memory.setPlanTaskAgent(task.id, agent.agentId);
+
+    const taskRecordId = this.memory.createTask(
+      project.id,
+      agent.agentId,
+      task.agentType,
+      task.context.question || 'Processing'
+    );
+    this.memory.updateTaskStatus(taskRecordId, 'in_progress');
 
     // Update agent status
-    this.updateAgentStatus(project, task.agentType, 'active', task.context.question || 'Processing');
+    this.updateAgentStatus(project, task.agentType, taskRecordId, 'active', task.context.question || 'Processing');
+
+    const budget = this.getBudget(project.id);
+    const context: AgentContext = {
+      ...task.context,
+      additionalContext: this.withGuidance(project, task.context.additionalContext),
+      model: budget.modelOverride || task.context.model,
+      maxToolCalls: budget.maxToolCallsPerTask ?? task.context.maxToolCalls,
+      signal,
+    };
 
     try {
       this.emitEvent('agent:started', project.id, {
@@ -418,12 +1071,21 @@ export class ResearchOrchestrator extends EventEmitter {
         question: task.context.question,
       });
 
-      const result = await agent.execute(task.context);
+      const result = await agent.execute(context);
+      this.recordTaskResult(project, task.agentType, agent, taskRecordId, result, context.model);
+
+      if (!result.success && signal?.aborted) {
+        this.recordInterruption(project, task.agentType, taskRecordId);
+        return false;
+      }
 
       if (result.success) {
         // Add findings to project
         project.findings.push(...result.findings);
-        project.metadata.totalTokensUsed += result.tokensUsed;
+
+        if (result.gaps?.length) {
+          this.memory.setPlanTaskGaps(task.id, result.gaps);
+        }
 
         this.emitEvent('finding:discovered', project.id, {
           agentType: task.agentType,
@@ -431,65 +1093,285 @@ export class ResearchOrchestrator extends EventEmitter {
           insights: result.insights,
         });
       } else {
-        project.errors.push({
-          id: uuidv4(),
-          projectId: project.id,
-          agentId: agent.agentId,
-          type: 'internal',
-          message: result.error || 'Unknown error',
-          recoverable: true,
-          occurredAt: new Date().toISOString(),
-        });
-
-        this.emitEvent('agent:error', project.id, {
-          agentType: task.agentType,
-          error: result.error,
-        });
+        this.recordAgentFailure(project, task.agentType, agent, result, task.context.questionId);
       }
 
       this.updateAgentStatus(
         project,
         task.agentType,
+        taskRecordId,
         result.success ? 'completed' : 'error',
         result.success ? null : result.error
       );
+      return result.success;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.updateAgentStatus(project, task.agentType, 'error', errorMessage);
+      this.memory.updateTaskStatus(taskRecordId, 'failed', undefined, errorMessage);
+      this.updateAgentStatus(project, task.agentType, taskRecordId, 'error', errorMessage);
       throw error;
     }
   }
 
   /**
-   * Determine which agents should handle a question based on category
+   * Persist a task's outcome and token usage, and add its usage to the
+   * agent and project totals
    */
-  private determineAgentsForQuestion(question: KeyQuestion): string[] {
-    const categoryAgentMap: Record<string, string[]> = {
-      financial: ['financial_analyst', 'web_researcher'],
-      competitive: ['competitive_intelligence', 'web_researcher'],
-      market: ['competitive_intelligence', 'web_researcher'],
-      leadership: ['web_researcher'],
-      technology: ['web_researcher', 'competitive_intelligence'],
-      legal: ['web_researcher'],
-      operational: ['web_researcher', 'financial_analyst'],
-      reputation: ['web_researcher'],
-      custom: ['web_researcher'],
-    };
+  private recordTaskResult(
+    project: ResearchProject,
+    agentType: string,
+    agent: BaseAgent,
+    taskRecordId: string,
+    result: AgentResult,
+    model?: string
+  ): void {
+    this.memory.recordTaskUsage(taskRecordId, model || agent.model, result.usage);
+    this.memory.updateTaskStatus(
+      taskRecordId,
+      result.success ? 'completed' : 'failed',
+      JSON.stringify({
+        findings: result.findings.length,
+        sources: result.sources.length,
+        insights: result.insights.length,
+      }),
+      result.error
+    );
+
+    project.metadata.totalTokensUsed += result.usage.totalTokens;
+    project.metadata.totalCostUsd += result.usage.costUsd;
+    this.trackUnpricedModels(project, result.usage.unpricedModels || []);
+
+    const agentStatus = project.agents.find(a => a.type === agentType);
+    if (agentStatus) {
+      agentStatus.tokensUsed += result.usage.totalTokens;
+      agentStatus.costUsd += result.usage.costUsd;
+    }
+
+    this.trackBudget(project, result.usage);
+  }
+
+  /**
+   * Mark a task stopped by a pause or cancel. It is not an error: the
+   * agent goes back to idle and the task can run again on resume.
+   */
+  private recordInterruption(project: ResearchProject, agentType: string, taskRecordId: string): void {
+    this.memory.updateTaskStatus(taskRecordId, 'interrupted');
+    this.updateAgentStatus(project, agentType, taskRecordId, 'idle', null);
+  }
+
+  /**
+   * Record a failed agent task on the project with its classified error
+   */
+  private recordAgentFailure(
+    project: ResearchProject,
+    agentType: string,
+    agent: BaseAgent,
+    result: AgentResult,
+    questionId?: string
+  ): void {
+    project.errors.push({
+      id: uuidv4(),
+      projectId: project.id,
+      agentId: agent.agentId,
+      type: result.errorType || 'internal',
+      message: result.error || 'Unknown error',
+      recoverable: result.recoverable ?? true,
+      occurredAt: new Date().toISOString(),
+    });
+
+    this.emitEvent('agent:error', project.id, {
+      agentType,
+      questionId,
+      error: result.error,
+      errorType: result.errorType || 'internal',
+      recoverable: result.recoverable ?? true,
+      retrying: false,
+    });
+  }
+
+  /**
+   * Note models that have no configured price, announcing each the first
+   * time a project uses it, as their cost is missing from totals and budgets
+   */
+  private trackUnpricedModels(project: ResearchProject, models: string[]): void {
+    const known = project.metadata.unpricedModels || [];
+    const added = models.filter(model => !known.includes(model));
+    if (added.length === 0) return;
+
+    project.metadata.unpricedModels = [...known, ...added];
+    for (const model of added) {
+      this.emitEvent('budget:warning', project.id, {
+        action: 'unpriced_model',
+        model,
+        message: `No pricing configured for model "${model}"; its cost is recorded as $0`,
+      });
+    }
+  }
+
+  private getBudget(projectId: string): BudgetTracker {
+    let budget = this.budgets.get(projectId);
+    if (!budget) {
+      budget = new BudgetTracker();
+      this.budgets.set(projectId, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * Apply a task's usage to the project budget and announce thresholds,
+   * model downgrades and exhaustion
+   */
+  private trackBudget(project: ResearchProject, usage: AgentResult['usage']): void {
+    const budget = this.getBudget(project.id);
+    if (!budget.enabled) {
+      budget.record(usage);
+      return;
+    }
+
+    const before = budget.getStatus();
+    const crossed = budget.record(usage);
+    const status = budget.getStatus();
+    project.metadata.budget = status;
+
+    for (const threshold of crossed) {
+      this.emitEvent('budget:warning', project.id, {
+        threshold,
+        utilization: status.utilization,
+        tokensUsed: status.tokensUsed,
+        costUsd: status.costUsd,
+        message: `Project has used ${Math.round(threshold * 100)}% of its budget`,
+      });
+    }
+
+    if (status.downgraded && !before.downgraded) {
+      this.emitEvent('budget:warning', project.id, {
+        utilization: status.utilization,
+        action: 'model_downgrade',
+        model: budget.modelOverride,
+        message: `Switching new tasks to ${budget.modelOverride} to conserve budget`,
+      });
+    }
+
+    if (status.researchExhausted && !before.researchExhausted) {
+      this.emitEvent('budget:exhausted', project.id, {
+        utilization: status.utilization,
+        tokensUsed: status.tokensUsed,
+        costUsd: status.costUsd,
+        message: 'Research budget exhausted; remaining tasks will be skipped and a partial report produced',
+      });
+    }
+  }
+
+  /**
+   * Skip a queued task to stay within budget
+   */
+  private skipTask(project: ResearchProject, task: TaskDefinition, budget: BudgetTracker): void {
+    const description = `${task.agentType}: ${task.context.question || 'general research'}`;
+    budget.markSkipped(description);
+    project.metadata.budget = budget.getStatus();
+
+    this.emitEvent('task:skipped', project.id, {
+      taskId: task.id,
+      agentType: task.agentType,
+      question: task.context.question,
+      priority: task.priority,
+      reason: budget.researchExhausted ? 'budget_exhausted' : 'low_priority_near_budget',
+    });
+  }
 
-    return categoryAgentMap[question.category] || ['web_researcher'];
+  /**
+   * Announce a task that will not run because a task it depends on failed
+   * or was skipped
+   */
+  private blockTask(project: ResearchProject, entry: ScheduledTask<TaskDefinition>): void {
+    const { task } = entry;
+    this.emitEvent('task:skipped', project.id, {
+      taskId: task.id,
+      agentType: task.agentType,
+      question: task.context.question,
+      priority: task.priority,
+      reason: 'dependency_failed',
+      message: entry.reason,
+    });
   }
 
   /**
-   * Convert question priority to numeric value
+   * Assemble a report from stored findings without a model call, used when
+   * no budget remains for report generation
    */
-  private questionPriorityToNumber(priority: KeyQuestion['priority']): number {
-    const priorityMap = {
-      critical: 4,
-      high: 3,
-      medium: 2,
-      low: 1,
+  private buildPartialReport(project: ResearchProject, reason: string): ResearchReport {
+    const findings = this.memory.getFindings(project.id);
+    const sources = this.memory.getSources(project.id);
+    const { keyQuestions, targetCompany, projectName } = project.scopingDocument;
+    const questionIds = new Set(keyQuestions.map(q => q.id));
+    const citations = new CitationIndex(findings, sources);
+    const describe = (f: ResearchFinding) =>
+      `- **${f.title}** (${f.confidence} confidence): ${f.summary} [${citations.findingKey(f)}]`;
+
+    const sections = keyQuestions.map(question => {
+      const questionFindings = findings.filter(f => f.questionId === question.id);
+      return {
+        id: uuidv4(),
+        title: question.question,
+        content: questionFindings.length > 0
+          ? questionFindings.map(describe).join('\n')
+          : 'Not researched before the budget was exhausted.',
+        findings: questionFindings.map(f => f.id),
+      };
+    });
+
+    const otherFindings = findings.filter(f => !questionIds.has(f.questionId));
+    if (otherFindings.length > 0) {
+      sections.push({
+        id: uuidv4(),
+        title: 'General Findings',
+        content: otherFindings.map(describe).join('\n'),
+        findings: otherFindings.map(f => f.id),
+      });
+    }
+
+    const conflictSection = conflictsSection(this.conflictDetector.list(project.id, 'open'));
+    if (conflictSection) {
+      sections.push(conflictSection);
+    }
+
+    const executiveSummary = `${reason} This partial report lists the ${findings.length} finding(s) gathered on ${targetCompany.name} before the limit was reached, grouped by key question, without further synthesis.`;
+
+    const report: ResearchReport = {
+      id: uuidv4(),
+      projectId: project.id,
+      title: `${projectName} (Partial)`,
+      executiveSummary,
+      sections,
+      keyInsights: this.memory.getSharedContext(project.id)?.discoveredInsights || [],
+      riskFactors: [],
+      recommendations: [],
+      appendices: [],
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        wordCount: [executiveSummary, ...sections.map(s => s.content)].join(' ').split(/\s+/).length,
+        sourcesCount: sources.length,
+        confidenceScore: 0.5,
+        partial: true,
+        partialReason: reason,
+      },
     };
-    return priorityMap[priority] || 2;
+    report.citations = citations.resolve(report);
+    return report;
+  }
+
+  /**
+   * Build the report's appendices from stored sources, findings, plan and
+   * task records, replacing those of an earlier draft
+   */
+  private addAppendices(project: ResearchProject, report: ResearchReport): void {
+    report.appendices = mergeAppendices(report.appendices, buildAppendices({
+      plan: this.memory.getPlan(project.id),
+      findings: this.memory.getFindings(project.id).filter(f => f.category !== 'final_report'),
+      sources: this.memory.getSources(project.id),
+      tasks: this.memory.getAgentTasks(project.id),
+      maxDepth: this.config.maxResearchDepth,
+      citations: report.citations,
+    }));
   }
 
   /**
@@ -497,10 +1379,13 @@ export class ResearchOrchestrator extends EventEmitter {
    */
   private createAgentStatuses(): AgentStatus[] {
     return [
-      { id: 'web_researcher', type: 'web_researcher', name: 'Web Researcher', status: 'idle', currentTask: null, progress: 0, tokensUsed: 0 },
-      { id: 'financial_analyst', type: 'financial_analyst', name: 'Financial Analyst', status: 'idle', currentTask: null, progress: 0, tokensUsed: 0 },
-      { id: 'competitive_intelligence', type: 'competitive_intelligence', name: 'Competitive Intelligence', status: 'idle', currentTask: null, progress: 0, tokensUsed: 0 },
-      { id: 'report_generator', type: 'report_generator', name: 'Report Generator', status: 'idle', currentTask: null, progress: 0, tokensUsed: 0 },
+      { id: 'web_researcher', type: 'web_researcher', name: 'Web Researcher', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
+      { id: 'financial_analyst', type: 'financial_analyst', name: 'Financial Analyst', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
+      { id: 'competitive_intelligence', type: 'competitive_intelligence', name: 'Competitive Intelligence', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
+      { id: 'news_monitor', type: 'news_monitor', name: 'News Monitor', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
+      { id: 'data_synthesizer', type: 'data_synthesizer', name: 'Data Synthesizer', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
+      { id: 'report_generator', type: 'report_generator', name: 'Report Generator', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
+      { id: 'quality_reviewer', type: 'quality_reviewer', name: 'Quality Reviewer', status: 'idle', currentTask: null, activeTasks: 0, progress: 0, tokensUsed: 0, costUsd: 0 },
     ];
   }
 
@@ -513,6 +1398,9 @@ export class ResearchOrchestrator extends EventEmitter {
     progress: number,
     phase: string
   ): void {
+    // A paused or cancelled run winding down must not overwrite its status
+    if (this.runs.get(project.id)?.controller.signal.aborted) return;
+
     project.status = status;
     project.progress = progress;
     project.currentPhase = phase;
@@ -525,23 +1413,45 @@ export class ResearchOrchestrator extends EventEmitter {
   }
 
   /**
-   * Update agent status
+   * Update an agent type's status for one of its tasks. Concurrent tasks
+   * of a type share one status: it stays active, showing the latest task
+   * started, until the last of them finishes and sets the outcome.
    */
   private updateAgentStatus(
     project: ResearchProject,
     agentType: string,
+    taskRecordId: string,
     status: AgentStatus['status'],
     task: string | null | undefined
   ): void {
     const agent = project.agents.find(a => a.type === agentType);
-    if (agent) {
-      agent.status = status;
-      agent.currentTask = task ?? null;
-      if (status === 'active') {
+    if (!agent) return;
+
+    const key = `${project.id}:${agentType}`;
+    const running = this.runningTasks.get(key) || new Map<string, string>();
+    if (status === 'active') {
+      if (running.size === 0) {
         agent.startedAt = new Date().toISOString();
-      } else if (status === 'completed' || status === 'error') {
-        agent.completedAt = new Date().toISOString();
       }
+      running.set(taskRecordId, task || 'Processing');
+    } else {
+      running.delete(taskRecordId);
+    }
+
+    agent.activeTasks = running.size;
+    if (running.size > 0) {
+      this.runningTasks.set(key, running);
+      const tasks = [...running.values()];
+      agent.status = 'active';
+      agent.currentTask = tasks.length > 1 ? `${tasks[tasks.length - 1]} (+${tasks.length - 1} more)` : tasks[0];
+      return;
+    }
+
+    this.runningTasks.delete(key);
+    agent.status = status;
+    agent.currentTask = task ?? null;
+    if (status === 'completed' || status === 'error') {
+      agent.completedAt = new Date().toISOString();
     }
   }
 
@@ -555,7 +1465,7 @@ export class ResearchOrchestrator extends EventEmitter {
     project.errors.push({
       id: uuidv4(),
       projectId: project.id,
-      type: 'internal',
+      type: classifyError(error).type,
       message: errorMessage,
       recoverable: false,
       occurredAt: new Date().toISOString(),
@@ -566,16 +1476,16 @@ export class ResearchOrchestrator extends EventEmitter {
   }
 
   /**
-   * Wait for an available concurrency slot
-   */
-  private async waitForAvailableSlot(): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, 100));
-  }
-
-  /**
-   * Emit a WebSocket event
+   * Emit a WebSocket event, storing the project's state after the events
+   * that change it. Progress and retry events are frequent and change
+   * nothing a restored project needs, so they are not written.
    */
   private emitEvent(type: WebSocketEventType, projectId: string, payload: unknown): void {
+    const project = this.activeProjects.get(projectId);
+    if (project && PERSISTED_EVENTS.includes(type)) {
+      this.memory.saveProjectState(project);
+    }
+
     const event: WebSocketEvent = {
       type,
       projectId,
@@ -600,15 +1510,61 @@ export class ResearchOrchestrator extends EventEmitter {
   }
 
   /**
-   * Pause a project
+   * Pause a running project. In-flight model calls are aborted and queued
+   * tasks are not started; interrupted tasks run again on resume. Returns
+   * false if the project is not running.
    */
-  async pauseProject(projectId: string): Promise<void> {
+  async pauseProject(projectId: string): Promise<boolean> {
     const project = this.activeProjects.get(projectId);
-    if (project && project.status !== 'completed' && project.status !== 'failed') {
-      project.status = 'paused';
-      this.memory.updateProjectStatus(projectId, 'paused');
-      this.emitEvent('project:updated', projectId, { status: 'paused' });
-    }
+    const run = this.runs.get(projectId);
+    if (!project || !run || run.controller.signal.aborted) return false;
+
+    project.status = 'paused';
+    project.currentPhase = 'Paused';
+    this.memory.updateProjectStatus(projectId, 'paused');
+    run.controller.abort();
+    this.emitEvent('project:updated', projectId, { status: 'paused', currentPhase: project.currentPhase });
+    return true;
+  }
+
+  /**
+   * Resume a paused or interrupted project from its last checkpoint:
+   * completed phases and tasks are not repeated. Returns false if the
+   * project is neither.
+   */
+  async resumeProject(projectId: string): Promise<boolean> {
+    const project = this.activeProjects.get(projectId);
+    const resumable = () => project?.status === 'paused' || project?.status === 'interrupted';
+    if (!project || !resumable()) return false;
+
+    // Let the paused run finish winding down before starting a new one
+    await this.runs.get(projectId)?.done;
+    if (!resumable()) return false;
+
+    project.status = 'initializing';
+    project.currentPhase = 'Resuming research workflow';
+    this.memory.updateProjectStatus(projectId, project.status);
+    this.emitEvent('project:updated', projectId, { status: project.status, currentPhase: project.currentPhase });
+
+    this.startRun(project);
+    return true;
+  }
+
+  /**
+   * Stop a running or paused project for good. Returns false if it has
+   * already finished.
+   */
+  async cancelProject(projectId: string): Promise<boolean> {
+    const project = this.activeProjects.get(projectId);
+    if (!project || ['completed', 'failed', 'cancelled'].includes(project.status)) return false;
+
+    project.status = 'cancelled';
+    project.currentPhase = 'Cancelled';
+    project.metadata.completedAt = new Date().toISOString();
+    this.memory.updateProjectStatus(projectId, 'cancelled');
+    this.runs.get(projectId)?.controller.abort();
+    this.emitEvent('project:updated', projectId, { status: 'cancelled', currentPhase: project.currentPhase });
+    return true;
   }
 
   /**
@@ -0,0 +1,345 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
+import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { emptyUsage } from '../usage/index.js';
+import type { KeyQuestion, QualityReview, ResearchFinding, ResearchReport, ReviewIssue } from '../types/index.js';
+
+export interface QualityReviewerOptions extends AgentOptions {
+  /** Minimum score (0-100) for a report to pass review (default: 70) */
+  passScore?: number;
+}
+
+// Points deducted from a perfect score per issue
+const SEVERITY_PENALTY: Record<ReviewIssue['severity'], number> = {
+  high: 15,
+  medium: 7,
+  low: 3,
+};
+
+const CONFIDENCE_VALUES: Record<ResearchFinding['confidence'], number> = {
+  high: 1,
+  medium: 0.6,
+  low: 0.3,
+};
+
+// Report confidence may exceed the findings' average by this much before it is flagged
+const CONFIDENCE_MARGIN = 0.15;
+
+/**
+ * Quality Reviewer Agent
+ *
+ * Specializes in:
+ * - Checking report claims against the findings they cite
+ * - Finding sections without citations
+ * - Identifying key questions the report leaves unanswered
+ * - Flagging confidence that the evidence does not support
+ */
+export class QualityReviewerAgent extends BaseAgent {
+  private passScore: number;
+
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: QualityReviewerOptions = {}) {
+    super(
+      {
+        name: 'Quality Reviewer',
+        type: 'quality_reviewer',
+        gcpCredentials,
+        llmClient: options.llmClient,
+        systemPrompt: `You are a senior research editor reviewing commercial research reports before they are delivered to clients.
+
+Your role is to check every claim in a report against the research findings it was written from.
+
+Review criteria:
+1. Unsupported claims
+   - Statements, figures or conclusions not backed by any finding
+   - Findings cited for a claim they do not actually support
+2. Overstated confidence
+   - Definitive language ("clearly", "certainly", "is the market leader") resting on low or medium confidence findings
+   - Single-source claims presented as established fact
+   - Estimates presented as reported figures
+
+Guidelines:
+- Be specific: name the section and quote or paraphrase the claim
+- Only raise issues you can tie to the report text
+- Rate severity by how much the issue could mislead a decision-maker
+- Suggest a concrete fix for each issue`,
+        model: AGENT_MODELS.quality_reviewer,
+        maxTokens: 4096,
+      },
+      memory
+    );
+    this.passScore = options.passScore ?? 70;
+  }
+
+  async execute(context: AgentContext): Promise<AgentResult> {
+    const insights: string[] = [];
+    const usage = emptyUsage();
+
+    try {
+      const findings = this.getExistingFindings(context.projectId);
+      const reportFinding = findings.find(f => f.category === 'final_report');
+      if (!reportFinding) {
+        throw new Error('No report available to review');
+      }
+
+      const report = JSON.parse(reportFinding.content) as ResearchReport;
+      const evidence = findings.filter(f => f.category !== 'final_report');
+      const keyQuestions = this.memory.getSharedContext(context.projectId)?.keyQuestions || [];
+
+      const issues: ReviewIssue[] = [
+        ...this.checkCitations(report, evidence),
+        ...this.checkQuestionCoverage(report, evidence, keyQuestions),
+        ...this.checkReportConfidence(report, evidence),
+      ];
+
+      const response = await this.chat(this.buildReviewPrompt(context, report, evidence), { usage, context });
+      const modelReview = this.parseModelReview(response, report);
+      issues.push(...modelReview.issues);
+
+      const score = Math.max(0, 100 - issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0));
+      const review: QualityReview = {
+        id: uuidv4(),
+        reportFindingId: reportFinding.id,
+        score,
+        passed: score >= this.passScore && !issues.some(issue => issue.severity === 'high'),
+        summary: modelReview.summary || `${issues.length} issue(s) found.`,
+        issues,
+        reviewedAt: new Date().toISOString(),
+      };
+
+      this.storeMemory({
+        projectId: context.projectId,
+        type: 'context',
+        content: `Quality review: score ${review.score}/100, ${issues.length} issue(s). ${review.summary}`,
+        metadata: { kind: 'quality_review', review },
+      });
+
+      insights.push(...issues.filter(issue => issue.severity === 'high').map(issue => issue.description));
+
+      this.completeTask(context.projectId, 'Review report quality');
+
+      return {
+        success: true,
+        findings: [],
+        sources: [],
+        insights,
+        tokensUsed: usage.totalTokens,
+        usage,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        findings: [],
+        sources: [],
+        insights,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
+      };
+    }
+  }
+
+  /**
+   * Most recent review stored for a project
+   */
+  getLatestReview(projectId: string): QualityReview | null {
+    const reviews = this.getMemories(projectId, 'context')
+      .filter(m => m.metadata.kind === 'quality_review')
+      .map(m => m.metadata.review as QualityReview)
+      .sort((a, b) => b.reviewedAt.localeCompare(a.reviewedAt));
+    return reviews[0] || null;
+  }
+
+  /**
+   * Sections must cite findings, cited IDs must exist, and inline citations
+   * that could not be verified are reported where they were removed
+   */
+  private checkCitations(report: ResearchReport, evidence: ResearchFinding[]): ReviewIssue[] {
+    const known = new Set(evidence.map(f => f.id));
+    const issues: ReviewIssue[] = [];
+
+    for (const section of report.sections) {
+      const cited = section.findings || [];
+      const unknown = cited.filter(id => !known.has(id));
+
+      if (cited.length === 0) {
+        issues.push({
+          id: uuidv4(),
+          type: 'missing_citation',
+          severity: 'medium',
+          sectionId: section.id,
+          description: `Section "${section.title}" cites no findings.`,
+          suggestion: 'Link the findings that support this section, or remove unsupported content.',
+        });
+      } else if (unknown.length > 0) {
+        issues.push({
+          id: uuidv4(),
+          type: 'missing_citation',
+          severity: 'low',
+          sectionId: section.id,
+          findingIds: unknown,
+          description: `Section "${section.title}" cites ${unknown.length} finding ID(s) that do not exist.`,
+          suggestion: 'Replace the invalid IDs with the findings actually used.',
+        });
+      }
+    }
+
+    const unverified = new Map<string, string[]>();
+    for (const { location, citation } of report.citations?.unverified || []) {
+      unverified.set(location, [...(unverified.get(location) || []), citation]);
+    }
+    for (const [location, citations] of unverified) {
+      issues.push({
+        id: uuidv4(),
+        type: 'missing_citation',
+        severity: 'medium',
+        sectionId: location.startsWith('sections/') ? location.slice('sections/'.length) : undefined,
+        description: `${citations.length} citation(s) in ${location} matched no finding or source and were removed: ${citations.join(', ')}.`,
+        suggestion: 'Cite only the findings and sources provided, or remove the claims they were meant to support.',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Every key question should have findings, and those findings should
+   * reach the report
+   */
+  private checkQuestionCoverage(
+    report: ResearchReport,
+    evidence: ResearchFinding[],
+    keyQuestions: KeyQuestion[]
+  ): ReviewIssue[] {
+    const cited = new Set(report.sections.flatMap(s => [...(s.findings || []), ...(s.subsections || []).flatMap(sub => sub.findings || [])]));
+    const issues: ReviewIssue[] = [];
+
+    for (const question of keyQuestions) {
+      const questionFindings = evidence.filter(f => f.questionId === question.id);
+      const severity: ReviewIssue['severity'] = question.priority === 'critical' || question.priority === 'high' ? 'high' : 'medium';
+
+      if (questionFindings.length === 0) {
+        issues.push({
+          id: uuidv4(),
+          type: 'unanswered_question',
+          severity,
+          questionId: question.id,
+          description: `No findings answer the key question "${question.question}".`,
+          suggestion: 'State in the report that this question could not be answered and why.',
+        });
+      } else if (!questionFindings.some(f => cited.has(f.id))) {
+        issues.push({
+          id: uuidv4(),
+          type: 'unanswered_question',
+          severity,
+          questionId: question.id,
+          findingIds: questionFindings.map(f => f.id),
+          description: `The report does not cite any of the ${questionFindings.length} finding(s) for the key question "${question.question}".`,
+          suggestion: 'Address this question using its findings.',
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * The report's confidence score should not exceed its evidence
+   */
+  private checkReportConfidence(report: ResearchReport, evidence: ResearchFinding[]): ReviewIssue[] {
+    if (evidence.length === 0) return [];
+
+    const average = evidence.reduce((sum, f) => sum + CONFIDENCE_VALUES[f.confidence], 0) / evidence.length;
+    if (report.metadata.confidenceScore <= average + CONFIDENCE_MARGIN) return [];
+
+    return [{
+      id: uuidv4(),
+      type: 'overstated_confidence',
+      severity: 'medium',
+      description: `Report confidence ${report.metadata.confidenceScore.toFixed(2)} exceeds the average confidence of its findings (${average.toFixed(2)}).`,
+      suggestion: 'Lower the stated confidence or qualify the conclusions.',
+    }];
+  }
+
+  private buildReviewPrompt(context: AgentContext, report: ResearchReport, evidence: ResearchFinding[]): string {
+    let prompt = `Quality Review Task: Review this research report on ${context.targetCompany} against its findings.
+
+## Report
+
+Title: ${report.title}
+
+Executive Summary:
+${report.executiveSummary}
+
+`;
+
+    for (const section of report.sections) {
+      prompt += `### [${section.id}] ${section.title}\nCited findings: ${(section.findings || []).join(', ') || 'none'}\n\n${section.content}\n\n`;
+    }
+
+    const citationKeys = new Map((report.citations?.findings || []).map(f => [f.findingId, f.key]));
+
+    prompt += `## Findings\n\nInline markers such as [F2] in the report cite the finding shown with that key.\n\n`;
+    for (const finding of evidence) {
+      const key = citationKeys.get(finding.id);
+      prompt += `- [${finding.id}]${key ? ` (cited as ${key})` : ''} **${finding.title}** (confidence: ${finding.confidence}, ${finding.sources.length} source(s)): ${finding.summary}\n`;
+    }
+
+    prompt += `
+## Instructions
+
+Identify unsupported claims and overstated confidence. Citation coverage and unanswered key questions are checked separately; do not report them.
+
+Output Format (JSON):
+\`\`\`json
+{
+  "summary": "One-paragraph overall assessment",
+  "issues": [
+    {
+      "type": "unsupported_claim|overstated_confidence",
+      "severity": "high|medium|low",
+      "sectionId": "section-id",
+      "description": "What is wrong, quoting the claim",
+      "findingIds": ["finding-id"],
+      "suggestion": "How to fix it"
+    }
+  ]
+}
+\`\`\``;
+
+    return prompt;
+  }
+
+  private parseModelReview(response: string, report: ResearchReport): { summary: string; issues: ReviewIssue[] } {
+    const parsed = this.parseJSON<{
+      summary?: string;
+      issues?: Array<{
+        type?: string;
+        severity?: string;
+        sectionId?: string;
+        description?: string;
+        findingIds?: string[];
+        suggestion?: string;
+      }>;
+    }>(response);
+
+    if (!parsed) {
+      return { summary: '', issues: [] };
+    }
+
+    const sectionIds = new Set(report.sections.map(s => s.id));
+    const issues = (parsed.issues || [])
+      .filter(issue => issue.description && (issue.type === 'unsupported_claim' || issue.type === 'overstated_confidence'))
+      .map(issue => ({
+        id: uuidv4(),
+        type: issue.type as ReviewIssue['type'],
+        severity: (['high', 'medium', 'low'].includes(issue.severity || '') ? issue.severity : 'medium') as ReviewIssue['severity'],
+        sectionId: issue.sectionId && sectionIds.has(issue.sectionId) ? issue.sectionId : undefined,
+        description: issue.description as string,
+        findingIds: issue.findingIds,
+        suggestion: issue.suggestion,
+      }));
+
+    return { summary: parsed.summary || '', issues };
+  }
+}
@@ -1,6 +1,11 @@
-import { BaseAgent, AgentContext, AgentResult, GCPCredentials } from './base-agent.js';
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
 import type { AgentDBClient } from '../memory/agentdb-client.js';
-import type { ResearchFinding, ResearchReport, ReportSection, RiskFactor, Source } from '../types/index.js';
+import { emptyUsage } from '../usage/index.js';
+import { conflictsSection } from '../workflow/conflict-detector.js';
+import { CitationIndex } from '../workflow/citations.js';
+import { recentDevelopmentsSection } from './news-monitor.js';
+import type { FindingConflict, QuestionAnswer, ResearchFinding, ResearchReport, ReportSection, RiskFactor, Source } from '../types/index.js';
 
 /**
  * Report Generator Agent
@@ -12,12 +17,13 @@ import type { ResearchFinding, ResearchReport, ReportSection, RiskFactor, Source
  * - Identifying key insights and recommendations
  */
 export class ReportGeneratorAgent extends BaseAgent {
-  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials) {
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: AgentOptions = {}) {
     super(
       {
         name: 'Report Generator',
         type: 'report_generator',
         gcpCredentials,
+        llmClient: options.llmClient,
         systemPrompt: `You are an expert research report writer specializing in commercial due diligence and company analysis.
 
 Your role is to synthesize research findings from multiple sources and agents into comprehensive, well-structured reports.
@@ -58,7 +64,7 @@ Report sections typically include:
 - Appendices
 
 Your output should be publication-ready and suitable for business decision-making.`,
-        model: 'claude-opus-4-5-20251101',
+        model: AGENT_MODELS.report_generator,
         maxTokens: 16384,
       },
       memory
@@ -69,27 +75,55 @@ Your output should be publication-ready and suitable for business decision-makin
     const findings: ResearchFinding[] = [];
     const sources: Source[] = [];
     const insights: string[] = [];
-    let tokensUsed = 0;
+    const usage = emptyUsage();
 
     try {
-      // Gather all findings from the project
-      const allFindings = this.getExistingFindings(context.projectId);
+      // Gather all findings from the project, leaving out earlier drafts
+      const allFindings = this.getExistingFindings(context.projectId).filter(f => f.category !== 'final_report');
       const sharedContext = this.memory.getSharedContext(context.projectId);
       const allSources = this.memory.getSources(context.projectId);
+      const answers = this.memory.getQuestionAnswers(context.projectId);
+      const openConflicts = this.getMemories(context.projectId, 'conflict')
+        .map(entry => entry.metadata as unknown as FindingConflict)
+        .filter(conflict => conflict.status === 'open');
 
       if (allFindings.length === 0) {
         throw new Error('No findings available to generate report');
       }
 
+      const citations = new CitationIndex(allFindings, allSources);
+
       // Build report generation prompt
-      const reportPrompt = this.buildReportPrompt(context, allFindings, sharedContext?.discoveredInsights || []);
+      const reportPrompt = this.buildReportPrompt(
+        context,
+        allFindings,
+        citations,
+        answers,
+        sharedContext?.discoveredInsights || [],
+        openConflicts
+      );
 
       // Generate the report
-      const response = await this.chat(reportPrompt);
+      const response = await this.chat(reportPrompt, { usage, context });
 
       // Parse and structure the report
       const report = await this.parseReport(response, context.projectId, allFindings);
 
+      // The news timeline is built from event dates rather than left to the model
+      const developmentsSection = recentDevelopmentsSection(allFindings);
+      if (developmentsSection) {
+        report.sections.push(developmentsSection);
+      }
+
+      // Contradictions are listed verbatim rather than left to the model
+      const conflictSection = conflictsSection(openConflicts);
+      if (conflictSection) {
+        report.sections.push(conflictSection);
+      }
+
+      // Citations are checked against the findings and sources the model was given
+      report.citations = citations.resolve(report);
+
       // Store the report as a finding
       const reportFinding = this.storeFinding({
         projectId: context.projectId,
@@ -123,17 +157,18 @@ Your output should be publication-ready and suitable for business decision-makin
         findings,
         sources,
         insights,
-        tokensUsed,
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return {
         success: false,
         findings,
         sources,
         insights,
-        error: errorMessage,
-        tokensUsed,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     }
   }
@@ -141,14 +176,58 @@ Your output should be publication-ready and suitable for business decision-makin
   private buildReportPrompt(
     context: AgentContext,
     findings: ResearchFinding[],
-    discoveredInsights: string[]
+    citations: CitationIndex,
+    answers: QuestionAnswer[],
+    discoveredInsights: string[],
+    conflicts: FindingConflict[]
   ): string {
     // Group findings by category and agent type
     const findingsByCategory = this.groupFindings(findings);
 
     let prompt = `Report Generation Task: Create a comprehensive commercial research report on ${context.targetCompany}
 
-## Research Findings to Synthesize
+`;
+
+    if (answers.length > 0) {
+      const byId = new Map(findings.map(f => [f.id, f]));
+      const titlesFor = (ids: string[]) => ids
+        .map(id => byId.get(id))
+        .filter((f): f is ResearchFinding => f !== undefined)
+        .map(f => `[${citations.findingKey(f)}] ${f.title}`)
+        .join('; ');
+
+      prompt += `## Answers to Key Questions
+
+Each key question has been answered from its findings. Address every question in the report, keep each answer's confidence, and carry its gaps into Data Limitations.
+
+`;
+      for (const answer of answers) {
+        prompt += `### ${answer.question}
+`;
+        prompt += `Status: ${answer.status.replace('_', ' ')} (confidence: ${answer.confidence})
+`;
+        prompt += `${answer.answer}
+`;
+        if (answer.supportingFindingIds.length > 0) {
+          prompt += `Supported by: ${titlesFor(answer.supportingFindingIds)}
+`;
+        }
+        if (answer.contradictingFindingIds.length > 0) {
+          prompt += `Contradicted by: ${titlesFor(answer.contradictingFindingIds)}
+`;
+        }
+        if (answer.gaps.length > 0) {
+          prompt += `Gaps: ${answer.gaps.join('; ')}
+`;
+        }
+        prompt += `
+`;
+      }
+    }
+
+    prompt += `## Research Findings to Synthesize
+
+Each finding has a citation key in brackets, and so does each of its sources.
 
 `;
 
@@ -156,9 +235,13 @@ Your output should be publication-ready and suitable for business decision-makin
     for (const [category, categoryFindings] of Object.entries(findingsByCategory)) {
       prompt += `### ${category.replace(/_/g, ' ').toUpperCase()}\n\n`;
       for (const finding of categoryFindings) {
-        prompt += `**${finding.title}** (Confidence: ${finding.confidence})\n`;
+        prompt += `**[${citations.findingKey(finding)}] ${finding.title}** (Confidence: ${finding.confidence})\n`;
         prompt += `${finding.summary}\n`;
-        prompt += `Agent: ${finding.agentType}\n\n`;
+        prompt += `Agent: ${finding.agentType}\n`;
+        if (finding.sources.length > 0) {
+          prompt += `Sources: ${finding.sources.map(s => `[${citations.sourceKey(s)}] ${s.title}`).join('; ')}\n`;
+        }
+        prompt += `\n`;
       }
     }
 
@@ -170,6 +253,18 @@ Your output should be publication-ready and suitable for business decision-makin
       }
     }
 
+    if (conflicts.length > 0) {
+      prompt += `\n## Conflicting Evidence\n\nThese figures differ between findings and are unresolved. Do not present any of them as settled; note the disagreement where the figure is discussed.\n\n`;
+      for (const conflict of conflicts) {
+        const values = conflict.claims.map(c => `${c.value} ${c.unit} (${c.agentType})`).join(' vs ');
+        prompt += `- ${conflict.metric}${conflict.period ? ` (${conflict.period})` : ''}: ${values}\n`;
+      }
+    }
+
+    if (context.additionalContext) {
+      prompt += `\n## Additional Context\n\n${context.additionalContext}\n`;
+    }
+
     prompt += `\n## Report Requirements
 
 Generate a comprehensive research report with the following structure:
@@ -215,6 +310,10 @@ Generate a comprehensive research report with the following structure:
    - Information gaps identified
    - Confidence level caveats
 
+## Citations
+
+Cite the evidence for each factual claim inline, using the keys above: [F3] for a finding, [S7] for a source, or [F3, S7] for both. Put the marker at the end of the claim, before its full stop. Use only keys listed above; citations that match nothing are removed and flagged. List the finding keys each section relies on in its "findings", and the keys behind each risk in its "sources".
+
 Output Format (JSON):
 \`\`\`json
 {
@@ -224,8 +323,8 @@ Output Format (JSON):
     {
       "id": "section-id",
       "title": "Section Title",
-      "content": "Section content...",
-      "findings": ["finding-id-1", "finding-id-2"]
+      "content": "Revenue grew 23% in FY2024 [F3, S7]...",
+      "findings": ["F3", "F5"]
     }
   ],
   "keyInsights": ["Insight 1", "Insight 2"],
@@ -236,7 +335,8 @@ Output Format (JSON):
       "description": "Risk description",
       "severity": "critical|high|medium|low",
       "likelihood": "certain|likely|possible|unlikely",
-      "mitigation": "Suggested mitigation"
+      "mitigation": "Suggested mitigation",
+      "sources": ["F5", "S2"]
     }
   ],
   "recommendations": ["Recommendation 1", "Recommendation 2"],
@@ -274,7 +374,7 @@ Output Format (JSON):
         title: string;
         content: string;
         findings?: string[];
-        subsections?: Array<{ id: string; title: string; content: string }>;
+        subsections?: Array<{ id: string; title: string; content: string; findings?: string[] }>;
       }>;
       keyInsights: string[];
       riskFactors: Array<{
@@ -284,6 +384,7 @@ Output Format (JSON):
         severity: 'critical' | 'high' | 'medium' | 'low';
         likelihood: 'certain' | 'likely' | 'possible' | 'unlikely';
         mitigation?: string;
+        sources?: string[];
       }>;
       recommendations: string[];
       dataGaps?: string[];
@@ -303,7 +404,7 @@ Output Format (JSON):
         id: sub.id || `subsection-${index}-${subIndex}`,
         title: sub.title,
         content: sub.content,
-        findings: [],
+        findings: sub.findings || [],
       })),
     }));
 
@@ -314,7 +415,7 @@ Output Format (JSON):
       severity: r.severity,
       likelihood: r.likelihood,
       mitigation: r.mitigation,
-      sources: [],
+      sources: r.sources || [],
     }));
 
     const wordCount = this.countWords(parsed.executiveSummary + sections.map(s => s.content).join(' '));
@@ -1,8 +1,26 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseAgent, AgentContext, AgentResult, GCPCredentials } from './base-agent.js';
+import { BaseAgent, AgentContext, AgentOptions, AgentResult, GCPCredentials } from './base-agent.js';
+import { AGENT_MODELS } from './agent-models.js';
 import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { emptyUsage } from '../usage/index.js';
+import { getSearchProvider, type SearchProvider, type SearchQuery, type SearchResult } from '../search/index.js';
+import {
+  getPageFetcher,
+  extractContent,
+  applyExtractionMode,
+  type PageFetcher,
+  type ExtractedContent,
+  type ExtractionMode,
+} from '../fetcher/index.js';
 import type { ResearchFinding, Source } from '../types/index.js';
 
+export interface WebResearcherOptions extends AgentOptions {
+  /** Search backend (default: configured from environment) */
+  searchProvider?: SearchProvider;
+  /** Page fetching backend (default: configured from environment) */
+  pageFetcher?: PageFetcher;
+}
+
 /**
  * Web Researcher Agent
  *
@@ -13,12 +31,16 @@ import type { ResearchFinding, Source } from '../types/index.js';
  * - Social media presence research
  */
 export class WebResearcherAgent extends BaseAgent {
-  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials) {
+  private searchProvider: SearchProvider;
+  private pageFetcher: PageFetcher;
+
+  constructor(memory: AgentDBClient, gcpCredentials?: GCPCredentials, options: WebResearcherOptions = {}) {
     super(
       {
         name: 'Web Researcher',
         type: 'web_researcher',
         gcpCredentials,
+        llmClient: options.llmClient,
         systemPrompt: `You are an expert commercial research analyst specializing in web-based intelligence gathering.
 
 Your role is to conduct thorough web research on companies to answer specific questions. You have access to web search capabilities.
@@ -38,18 +60,20 @@ When analyzing sources:
 - Extract key facts and figures
 
 Output your findings in a structured format with clear citations.`,
-        model: 'claude-opus-4-5-20251101',
+        model: AGENT_MODELS.web_researcher,
         maxTokens: 8192,
       },
       memory
     );
+    this.searchProvider = options.searchProvider || getSearchProvider();
+    this.pageFetcher = options.pageFetcher || getPageFetcher();
   }
 
   async execute(context: AgentContext): Promise<AgentResult> {
     const findings: ResearchFinding[] = [];
     const sources: Source[] = [];
     const insights: string[] = [];
-    let tokensUsed = 0;
+    const usage = emptyUsage();
 
     try {
       // Define the web search tool
@@ -68,6 +92,24 @@ Output your findings in a structured format with clear citations.`,
                 type: 'number',
                 description: 'Number of results to return (default: 10)',
               },
+              date_from: {
+                type: 'string',
+                description: 'Only return results published on or after this date (YYYY-MM-DD)',
+              },
+              date_to: {
+                type: 'string',
+                description: 'Only return results published on or before this date (YYYY-MM-DD)',
+              },
+              sites: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Restrict results to these domains (e.g. ["sec.gov", "reuters.com"])',
+              },
+              exclude_sites: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Exclude results from these domains',
+              },
             },
             required: ['query'],
           },
@@ -97,7 +139,10 @@ Output your findings in a structured format with clear citations.`,
       const researchPrompt = this.buildResearchPrompt(context);
 
       // Get existing context from other agents
-      const existingFindings = this.getExistingFindings(context.projectId, context.questionId);
+      const existingFindings = this.getRelevantFindings(
+        context,
+        ['web_researcher', 'financial_analyst', 'competitive_intelligence']
+      );
       const contextSummary = existingFindings.length > 0
         ? `\n\nExisting findings from other agents:\n${existingFindings.map(f => `- ${f.title}: ${f.summary}`).join('\n')}`
         : '';
@@ -108,7 +153,8 @@ Output your findings in a structured format with clear citations.`,
         tools,
         async (toolName, toolInput) => {
           return this.handleToolCall(toolName, toolInput, context.projectId, sources);
-        }
+        },
+        { usage, context }
       );
 
       // Parse and structure the findings
@@ -132,17 +178,19 @@ Output your findings in a structured format with clear citations.`,
         findings,
         sources,
         insights,
-        tokensUsed,
+        gaps: this.extractGaps(response),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return {
         success: false,
         findings,
         sources,
         insights,
-        error: errorMessage,
-        tokensUsed,
+        ...this.describeFailure(error),
+        tokensUsed: usage.totalTokens,
+        usage,
       };
     }
   }
@@ -210,61 +258,163 @@ Output your findings in a structured format with clear citations.`,
     sources: Source[]
   ): Promise<string> {
     if (toolName === 'web_search') {
-      // Simulate web search - in production, integrate with actual search API
       const query = toolInput.query as string;
-      const numResults = (toolInput.num_results as number) || 10;
+      const searchQuery: SearchQuery = {
+        query,
+        numResults: toolInput.num_results as number | undefined,
+        dateRange: toolInput.date_from || toolInput.date_to
+          ? { from: toolInput.date_from as string | undefined, to: toolInput.date_to as string | undefined }
+          : undefined,
+        sites: toolInput.sites as string[] | undefined,
+        excludeSites: toolInput.exclude_sites as string[] | undefined,
+      };
 
       // Store the search query as a memory entry
       this.storeMemory({
         projectId,
         type: 'context',
         content: `Web search performed: "${query}"`,
-        metadata: { query, numResults, timestamp: new Date().toISOString() },
+        metadata: { ...searchQuery, provider: this.searchProvider.name, timestamp: new Date().toISOString() },
       });
 
-      // In production, this would call a real search API (SerpAPI, Google Custom Search, etc.)
+      let results: SearchResult[];
+      try {
+        results = await this.searchProvider.search(searchQuery);
+      } catch (error) {
+        return JSON.stringify({
+          query,
+          error: `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          results: [],
+        });
+      }
+
+      const registered = results.map(result =>
+        this.registerSearchResult(projectId, result, results.length, query, sources)
+      );
+
       return JSON.stringify({
         query,
-        message: `Search executed for: "${query}". In production, this would return actual search results.`,
-        note: 'Integrate with SerpAPI, Google Custom Search API, or similar service for actual results.',
-        mock_results: [
-          {
-            title: `${query} - Search Result`,
-            url: `https://example.com/result`,
-            snippet: `This is a placeholder result for the query: ${query}`,
-          },
-        ],
+        provider: this.searchProvider.name,
+        totalResults: results.length,
+        results: results.map((result, index) => ({
+          sourceId: registered[index].id,
+          title: result.title,
+          url: result.url,
+          snippet: result.snippet,
+          publishedDate: result.publishedDate,
+          source: result.source,
+        })),
       });
     }
 
     if (toolName === 'fetch_webpage') {
       const url = toolInput.url as string;
-      const extractType = (toolInput.extract_type as string) || 'summary';
+      const extractType = ((toolInput.extract_type as string) || 'summary') as ExtractionMode;
+
+      let content: ExtractedContent;
+      try {
+        content = extractContent(await this.pageFetcher.fetch(url), this.pageFetcher.maxBytes);
+      } catch (error) {
+        return JSON.stringify({
+          url,
+          error: `Fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
 
-      // Register this source
-      const source: Source = {
-        id: '',
-        type: 'web',
-        url,
-        title: `Webpage: ${url}`,
-        accessedAt: new Date().toISOString(),
-        relevanceScore: 0.5,
+      // Enrich the source registered by an earlier search, or register a new one
+      const existing = sources.find(s => s.url === url);
+      const metadata = {
+        ...existing?.metadata,
+        contentType: content.contentType,
+        finalUrl: content.finalUrl,
+        wordCount: content.wordCount,
+        fetcher: this.pageFetcher.name,
       };
-      const registeredSource = this.registerSource(projectId, source);
-      sources.push(registeredSource);
+      let source: Source;
+      if (existing) {
+        source = Object.assign(existing, {
+          title: content.metadata.title || existing.title,
+          author: content.metadata.author || existing.author,
+          publishedDate: content.metadata.publishedDate || existing.publishedDate,
+          accessedAt: content.fetchedAt,
+          snippet: existing.snippet || content.metadata.description,
+          metadata,
+        });
+        this.memory.registerSource(projectId, source);
+      } else {
+        source = this.registerSource(projectId, {
+          type: 'web',
+          url,
+          title: content.metadata.title || url,
+          author: content.metadata.author,
+          publishedDate: content.metadata.publishedDate,
+          accessedAt: content.fetchedAt,
+          relevanceScore: 0.5,
+          snippet: content.metadata.description || content.text.slice(0, 300),
+          metadata,
+        });
+        sources.push(source);
+      }
+
+      // Keep the full text so later agents and the report can quote it
+      this.storeMemory({
+        projectId,
+        type: 'source',
+        content: content.text,
+        metadata: { sourceId: source.id, url, title: source.title, wordCount: content.wordCount },
+      });
 
-      // In production, this would fetch and parse the actual webpage
       return JSON.stringify({
+        sourceId: source.id,
         url,
+        title: source.title,
+        author: source.author,
+        publishedDate: source.publishedDate,
+        wordCount: content.wordCount,
         extractType,
-        message: `Webpage fetch simulated for: ${url}`,
-        note: 'In production, this would fetch and analyze the actual webpage content.',
+        content: applyExtractionMode(content, extractType),
       });
     }
 
     return JSON.stringify({ error: `Unknown tool: ${toolName}` });
   }
 
+  /**
+   * Register a search result as a source, reusing the existing source when
+   * the same URL was already returned earlier in this task
+   */
+  private registerSearchResult(
+    projectId: string,
+    result: SearchResult,
+    totalResults: number,
+    query: string,
+    sources: Source[]
+  ): Source {
+    const existing = sources.find(s => s.url === result.url);
+    if (existing) return existing;
+
+    // Rank-based relevance: the top result scores 1.0, the last no lower than 0.5
+    const relevanceScore = Math.round((1 - ((result.rank - 1) / Math.max(totalResults, 1)) * 0.5) * 100) / 100;
+
+    const registeredSource = this.registerSource(projectId, {
+      type: 'web',
+      url: result.url,
+      title: result.title,
+      publishedDate: result.publishedDate,
+      accessedAt: new Date().toISOString(),
+      relevanceScore,
+      snippet: result.snippet,
+      metadata: {
+        query,
+        provider: this.searchProvider.name,
+        rank: result.rank,
+        publisher: result.source,
+      },
+    });
+    sources.push(registeredSource);
+    return registeredSource;
+  }
+
   private async parseFindings(response: string, context: AgentContext): Promise<ResearchFinding[]> {
     const findings: ResearchFinding[] = [];
 
@@ -295,7 +445,6 @@ Output your findings in a structured format with clear citations.`,
           summary: f.summary,
           confidence: f.confidence || 'medium',
           sources: (f.sources || []).map(s => ({
-            id: '',
             type: 'web' as const,
             url: s.url,
             title: s.title,
@@ -320,4 +469,9 @@ Output your findings in a structured format with clear citations.`,
     const parsed = this.parseJSON<{ insights?: string[] }>(response);
     return parsed?.insights || [];
   }
+
+  private extractGaps(response: string): string[] {
+    const parsed = this.parseJSON<{ gaps?: string[] }>(response);
+    return parsed?.gaps || [];
+  }
 }
@@ -9,7 +9,18 @@ import { getOrchestrator, ResearchOrchestrator } from '../agents/orchestrator.js
 import { scopingParser } from '../workflow/scoping-parser.js';
 import { getAgentDB } from '../memory/agentdb-client.js';
 import { createGCPAuthMiddleware, getGCPAuth, type AuthenticatedRequest } from '../auth/index.js';
-import type { ScopingDocument, WebSocketEvent, CreateProjectRequest } from '../types/index.js';
+import { PlanValidationError } from '../workflow/plan-validation.js';
+import { traceCitations } from '../workflow/citations.js';
+import { renderReport, isReportFormat, REPORT_FORMATS } from '../report/index.js';
+import { ApprovalGateSchema } from '../types/index.js';
+import type {
+  ScopingDocument,
+  WebSocketEvent,
+  CreateProjectRequest,
+  FindingConflict,
+  PlanTask,
+  ApprovalDecision,
+} from '../types/index.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -32,6 +43,15 @@ app.use(createGCPAuthMiddleware({
   allowUnauthenticatedPaths: ['/api/health', '/api/templates'],
 }));
 
+// Findings returned by a semantic search (`q`), by default and at most
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 50;
+
+// Checkpoints that wait for analyst approval, unless a scoping document sets its own
+const approvalGates = ApprovalGateSchema.array().parse(
+  (process.env.APPROVAL_GATES || '').split(',').map(gate => gate.trim()).filter(Boolean)
+);
+
 // Orchestrator instances per GCP project (user credentials)
 const orchestrators = new Map<string, ResearchOrchestrator>();
 
@@ -47,6 +67,8 @@ function getOrchestratorInstance(gcpProjectId: string, accessToken: string): Res
       gcpProjectId,
       gcpRegion: process.env.GCP_REGION || 'us-central1',
       gcpAccessToken: accessToken,
+      resumeInterrupted: process.env.RESUME_INTERRUPTED_PROJECTS === 'true',
+      approvalGates,
     });
 
     // Forward orchestrator events to WebSocket clients
@@ -54,6 +76,9 @@ function getOrchestratorInstance(gcpProjectId: string, accessToken: string): Res
       io.to(`project:${event.projectId}`).emit('project:event', event);
     });
 
+    // Pick up this GCP project's stored projects from before the server started
+    orchestrator.restoreProjects();
+
     orchestrators.set(key, orchestrator);
   } else {
     // Update access token for existing orchestrator
@@ -79,8 +104,80 @@ app.get('/api/health', (_req: Request, res: Response) => {
   });
 });
 
+type ScopingRequestBody = (CreateProjectRequest | { rawDocument: string; format?: string }) & { plan?: PlanTask[] };
+
+/**
+ * Parse the scoping document from a request body, given either as a
+ * structured object or as a raw JSON/YAML string. Returns null when neither
+ * is present.
+ */
+function parseScopingRequest(body: ScopingRequestBody): ScopingDocument | null {
+  // Check if raw document string was provided
+  if ('rawDocument' in body && typeof body.rawDocument === 'string') {
+    const format = body.format || 'auto';
+    if (format === 'yaml') {
+      return scopingParser.parseYAML(body.rawDocument);
+    }
+    if (format === 'json') {
+      return scopingParser.parseJSON(body.rawDocument);
+    }
+    return scopingParser.parse(body.rawDocument);
+  }
+
+  if ('scopingDocument' in body) {
+    // Structured scoping document provided
+    const now = new Date().toISOString();
+    return scopingParser.parseJSON(JSON.stringify({
+      ...body.scopingDocument,
+      id: body.scopingDocument.id || uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    }));
+  }
+
+  return null;
+}
+
+/**
+ * Preview the research plan for a scoping document without starting it:
+ * tasks, agents per question, phases and estimated cost. Pass an edited
+ * `plan` to validate and re-estimate it.
+ */
+app.post('/api/projects/plan', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const gcpAuth = getGCPAuth(req);
+    if (!gcpAuth) {
+      res.status(401).json({ error: 'GCP authentication required' });
+      return;
+    }
+
+    const body = req.body as ScopingRequestBody;
+    const scopingDocument = parseScopingRequest(body);
+    if (!scopingDocument) {
+      res.status(400).json({
+        error: 'Invalid request',
+        message: 'Provide either a scopingDocument object or rawDocument string',
+      });
+      return;
+    }
+
+    const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+    res.json({
+      scopingDocument,
+      preview: orch.previewPlan(scopingDocument, body.plan),
+    });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      res.status(400).json({ error: 'Invalid plan', errors: error.errors });
+      return;
+    }
+    next(error);
+  }
+});
+
 /**
- * Create a new research project
+ * Create a new research project, optionally running an approved plan from
+ * the plan preview
  */
 app.post('/api/projects', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -90,30 +187,9 @@ app.post('/api/projects', async (req: Request, res: Response, next: NextFunction
       return;
     }
 
-    const body = req.body as CreateProjectRequest | { rawDocument: string; format?: string };
-
-    let scopingDocument: ScopingDocument;
-
-    // Check if raw document string was provided
-    if ('rawDocument' in body && typeof body.rawDocument === 'string') {
-      const format = body.format || 'auto';
-      if (format === 'yaml') {
-        scopingDocument = scopingParser.parseYAML(body.rawDocument);
-      } else if (format === 'json') {
-        scopingDocument = scopingParser.parseJSON(body.rawDocument);
-      } else {
-        scopingDocument = scopingParser.parse(body.rawDocument);
-      }
-    } else if ('scopingDocument' in body) {
-      // Structured scoping document provided
-      const now = new Date().toISOString();
-      scopingDocument = scopingParser.parseJSON(JSON.stringify({
-        ...body.scopingDocument,
-        id: body.scopingDocument.id || uuidv4(),
-        createdAt: now,
-        updatedAt: now,
-      }));
-    } else {
+    const body = req.body as ScopingRequestBody;
+    const scopingDocument = parseScopingRequest(body);
+    if (!scopingDocument) {
       res.status(400).json({
         error: 'Invalid request',
         message: 'Provide either a scopingDocument object or rawDocument string',
@@ -123,7 +199,7 @@ app.post('/api/projects', async (req: Request, res: Response, next: NextFunction
 
     // Start the research project using the user's GCP credentials
     const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
-    const project = await orch.startProject(scopingDocument);
+    const project = await orch.startProject(scopingDocument, body.plan);
 
     res.status(201).json({
       success: true,
@@ -137,6 +213,10 @@ app.post('/api/projects', async (req: Request, res: Response, next: NextFunction
       },
     });
   } catch (error) {
+    if (error instanceof PlanValidationError) {
+      res.status(400).json({ error: 'Invalid plan', errors: error.errors });
+      return;
+    }
     next(error);
   }
 });
@@ -224,7 +304,7 @@ app.get('/api/projects', (req: Request, res: Response) => {
 /**
  * Get project by ID
  */
-app.get('/api/projects/:projectId', (req: Request, res: Response) => {
+app.get('/api/projects/:projectId', (req: Request<{ projectId: string }>, res: Response) => {
   const gcpAuth = getGCPAuth(req);
   if (!gcpAuth) {
     res.status(401).json({ error: 'GCP authentication required' });
@@ -270,6 +350,9 @@ app.get('/api/projects/:projectId', (req: Request, res: Response) => {
       findingsCount: project.findings.length,
       errorsCount: project.errors.length,
       metadata: project.metadata,
+      approval: project.approval,
+      approvals: project.approvals || [],
+      guidance: project.guidance || [],
     },
     scopingDocument: project.scopingDocument,
     report: project.report,
@@ -277,17 +360,54 @@ app.get('/api/projects/:projectId', (req: Request, res: Response) => {
 });
 
 /**
- * Get project findings
+ * Get project findings, or the findings most relevant to `q` when given
  */
-app.get('/api/projects/:projectId/findings', (req: Request, res: Response) => {
+app.get('/api/projects/:projectId/findings', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
   const { projectId } = req.params;
-  const { questionId } = req.query as { questionId?: string };
+  const { questionId, q, limit, includeSuperseded } = req.query as {
+    questionId?: string;
+    q?: string;
+    limit?: string;
+    includeSuperseded?: string;
+  };
+
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  if (!orch.getProject(projectId)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
 
   const db = getAgentDB();
-  const findings = db.getFindings(projectId, questionId);
+
+  if (q) {
+    const k = limit === undefined ? DEFAULT_SEARCH_RESULTS : Number(limit);
+    if (!Number.isInteger(k) || k < 1) {
+      res.status(400).json({
+        error: 'Invalid limit',
+        message: `limit must be a whole number from 1 to ${MAX_SEARCH_RESULTS}`,
+      });
+      return;
+    }
+
+    const results = db.searchFindings(projectId, q, Math.min(k, MAX_SEARCH_RESULTS), { questionId });
+    res.json({
+      findings: results.map(({ finding: { embedding, ...finding }, score }) => ({ ...finding, score })),
+      total: results.length,
+    });
+    return;
+  }
+
+  const findings = db.getFindings(projectId, questionId, { includeSuperseded: includeSuperseded === 'true' });
 
   res.json({
-    findings,
+    // Embeddings are only used server-side
+    findings: findings.map(({ embedding, ...finding }) => finding),
     total: findings.length,
   });
 });
@@ -295,8 +415,19 @@ app.get('/api/projects/:projectId/findings', (req: Request, res: Response) => {
 /**
  * Get project sources
  */
-app.get('/api/projects/:projectId/sources', (req: Request, res: Response) => {
+app.get('/api/projects/:projectId/sources', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
   const { projectId } = req.params;
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  if (!orch.getProject(projectId)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
 
   const db = getAgentDB();
   const sources = db.getSources(projectId);
@@ -310,7 +441,7 @@ app.get('/api/projects/:projectId/sources', (req: Request, res: Response) => {
 /**
  * Get project report
  */
-app.get('/api/projects/:projectId/report', (req: Request, res: Response) => {
+app.get('/api/projects/:projectId/report', (req: Request<{ projectId: string }>, res: Response) => {
   const gcpAuth = getGCPAuth(req);
   if (!gcpAuth) {
     res.status(401).json({ error: 'GCP authentication required' });
@@ -344,9 +475,259 @@ app.get('/api/projects/:projectId/report', (req: Request, res: Response) => {
 });
 
 /**
- * Pause a project
+ * Which findings and sources back each sentence of the report. The q
+ * parameter limits the result to sentences containing that text.
+ */
+app.get('/api/projects/:projectId/report/lineage', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
+  const { projectId } = req.params;
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  const project = orch.getProject(projectId);
+
+  if (!project) {
+    res.status(404).json({
+      error: 'Project not found',
+    });
+    return;
+  }
+
+  if (!project.report?.citations) {
+    res.status(404).json({
+      error: 'Citations not available',
+      message: project.report
+        ? 'This report was generated without resolved citations.'
+        : `Project is still ${project.status}. Report will be available when complete.`,
+    });
+    return;
+  }
+
+  const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+
+  res.json({
+    lineage: traceCitations(project.report, query),
+    unverified: project.report.citations.unverified,
+  });
+});
+
+/**
+ * Download the project report as a document in one of the export formats
+ */
+app.get('/api/projects/:projectId/report.:format', (req: Request<{ projectId: string; format: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
+  const { projectId, format } = req.params;
+  if (!isReportFormat(format)) {
+    res.status(400).json({
+      error: 'Unsupported report format',
+      message: `Supported formats: ${REPORT_FORMATS.join(', ')}`,
+    });
+    return;
+  }
+
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  const project = orch.getProject(projectId);
+
+  if (!project) {
+    res.status(404).json({
+      error: 'Project not found',
+    });
+    return;
+  }
+
+  if (!project.report) {
+    res.status(404).json({
+      error: 'Report not available',
+      message: project.status === 'completed'
+        ? 'Report generation failed'
+        : `Project is still ${project.status}. Report will be available when complete.`,
+    });
+    return;
+  }
+
+  const rendered = renderReport(project.report, format, { sources: getAgentDB().getSources(projectId) });
+  res
+    .type(rendered.contentType)
+    .setHeader('Content-Disposition', `inline; filename="${rendered.fileName}"`)
+    .send(rendered.content);
+});
+
+/**
+ * Get project token usage and cost
+ */
+app.get('/api/projects/:projectId/usage', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
+  const { projectId } = req.params;
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  if (!orch.getProject(projectId)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const db = getAgentDB();
+  const { total, byAgentType } = db.getProjectUsage(projectId);
+  const tasks = db.getAgentTasks(projectId).map(task => ({
+    id: task.id,
+    agentType: task.agentType,
+    description: task.description,
+    status: task.status,
+    model: task.model,
+    inputTokens: task.inputTokens,
+    outputTokens: task.outputTokens,
+    cacheCreationTokens: task.cacheCreationTokens,
+    cacheReadTokens: task.cacheReadTokens,
+    costUsd: task.costUsd,
+  }));
+
+  res.json({
+    total,
+    byAgentType,
+    tasks,
+  });
+});
+
+/**
+ * Get a project's research plan: each agent task, its dependencies and status
+ */
+app.get('/api/projects/:projectId/plan', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
+  const { projectId } = req.params;
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  if (!orch.getProject(projectId)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const plan = orch.getPlan(projectId);
+
+  if (!plan) {
+    res.status(404).json({
+      error: 'Plan not found',
+      message: `No research plan for project: ${projectId}`,
+    });
+    return;
+  }
+
+  res.json(plan);
+});
+
+/**
+ * Get the synthesized answer to each key question, showing which were
+ * answered, partially answered or left unanswered
+ */
+app.get('/api/projects/:projectId/answers', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
+  const { projectId } = req.params;
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  if (!orch.getProject(projectId)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const db = getAgentDB();
+  const answers = db.getQuestionAnswers(projectId);
+
+  res.json({
+    answers,
+    total: answers.length,
+    unanswered: answers.filter(a => a.status === 'unanswered').length,
+  });
+});
+
+/**
+ * Get contradictions detected between a project's findings
  */
-app.post('/api/projects/:projectId/pause', async (req: Request, res: Response, next: NextFunction) => {
+app.get('/api/projects/:projectId/conflicts', (req: Request<{ projectId: string }>, res: Response) => {
+  const gcpAuth = getGCPAuth(req);
+  if (!gcpAuth) {
+    res.status(401).json({ error: 'GCP authentication required' });
+    return;
+  }
+
+  const { projectId } = req.params;
+  const { status } = req.query as { status?: string };
+  const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+  if (!orch.getProject(projectId)) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const db = getAgentDB();
+  const conflicts = db.getMemories(projectId, undefined, 'conflict')
+    .map(entry => entry.metadata as unknown as FindingConflict)
+    .filter(conflict => !status || conflict.status === status);
+
+  res.json({
+    conflicts,
+    total: conflicts.length,
+  });
+});
+
+/**
+ * Resolve a conflict, optionally accepting one finding's value
+ */
+app.post('/api/projects/:projectId/conflicts/:conflictId/resolve', (req: Request<{ projectId: string; conflictId: string }>, res: Response, next: NextFunction) => {
+  try {
+    const gcpAuth = getGCPAuth(req);
+    if (!gcpAuth) {
+      res.status(401).json({ error: 'GCP authentication required' });
+      return;
+    }
+
+    const { projectId, conflictId } = req.params;
+    const { note, acceptedFindingId } = req.body as { note?: string; acceptedFindingId?: string };
+
+    if (!note) {
+      res.status(400).json({ error: 'A resolution note is required' });
+      return;
+    }
+
+    const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+    if (!orch.getProject(projectId)) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const conflict = orch.resolveConflict(projectId, conflictId, { note, acceptedFindingId });
+
+    if (!conflict) {
+      res.status(404).json({ error: 'Conflict not found' });
+      return;
+    }
+
+    res.json({ conflict });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Pause a project: stop its running tasks and start no new ones
+ */
+app.post('/api/projects/:projectId/pause', async (req: Request<{ projectId: string }>, res: Response, next: NextFunction) => {
   try {
     const gcpAuth = getGCPAuth(req);
     if (!gcpAuth) {
@@ -356,8 +737,20 @@ app.post('/api/projects/:projectId/pause', async (req: Request, res: Response, n
 
     const { projectId } = req.params;
     const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+    const project = orch.getProject(projectId);
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
 
-    await orch.pauseProject(projectId);
+    if (!(await orch.pauseProject(projectId))) {
+      res.status(409).json({
+        error: 'Project is not running',
+        message: `Project ${projectId} is ${project.status}`,
+      });
+      return;
+    }
 
     res.json({
       success: true,
@@ -368,6 +761,124 @@ app.post('/api/projects/:projectId/pause', async (req: Request, res: Response, n
   }
 });
 
+/**
+ * Resume a paused or interrupted project, running only its unfinished tasks
+ */
+app.post('/api/projects/:projectId/resume', async (req: Request<{ projectId: string }>, res: Response, next: NextFunction) => {
+  try {
+    const gcpAuth = getGCPAuth(req);
+    if (!gcpAuth) {
+      res.status(401).json({ error: 'GCP authentication required' });
+      return;
+    }
+
+    const { projectId } = req.params;
+    const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+    const project = orch.getProject(projectId);
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    if (!(await orch.resumeProject(projectId))) {
+      res.status(409).json({
+        error: 'Project is not paused or interrupted',
+        message: `Project ${projectId} is ${project.status}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Project resumed',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Approve the checkpoint a project is waiting at, optionally adding or
+ * removing plan tasks and giving guidance to the agents that run next
+ */
+app.post('/api/projects/:projectId/approve', async (req: Request<{ projectId: string }>, res: Response, next: NextFunction) => {
+  try {
+    const gcpAuth = getGCPAuth(req);
+    if (!gcpAuth) {
+      res.status(401).json({ error: 'GCP authentication required' });
+      return;
+    }
+
+    const { projectId } = req.params;
+    const { guidance, addTasks, removeTaskIds } = req.body as ApprovalDecision;
+    const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+    const project = orch.getProject(projectId);
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    if (!(await orch.approveCheckpoint(projectId, { guidance, addTasks, removeTaskIds }))) {
+      res.status(409).json({
+        error: 'Project is not awaiting approval',
+        message: `Project ${projectId} is ${project.status}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Checkpoint approved',
+      approval: project.approvals?.[project.approvals.length - 1],
+    });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      res.status(400).json({ error: 'Invalid plan changes', errors: error.errors });
+      return;
+    }
+    next(error);
+  }
+});
+
+/**
+ * Cancel a project: stop all work and mark it cancelled
+ */
+app.post('/api/projects/:projectId/cancel', async (req: Request<{ projectId: string }>, res: Response, next: NextFunction) => {
+  try {
+    const gcpAuth = getGCPAuth(req);
+    if (!gcpAuth) {
+      res.status(401).json({ error: 'GCP authentication required' });
+      return;
+    }
+
+    const { projectId } = req.params;
+    const orch = getOrchestratorInstance(gcpAuth.projectId, gcpAuth.accessToken);
+    const project = orch.getProject(projectId);
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    if (!(await orch.cancelProject(projectId))) {
+      res.status(409).json({
+        error: 'Project has already finished',
+        message: `Project ${projectId} is ${project.status}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Project cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * Get scoping document template
  */
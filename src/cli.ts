@@ -1,11 +1,17 @@
 #!/usr/bin/env node
 
-import { readFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { resolve } from 'path';
 import 'dotenv/config';
 
-import { getOrchestrator } from './agents/orchestrator.js';
+import { getOrchestrator, type ResearchOrchestrator } from './agents/orchestrator.js';
 import { scopingParser } from './workflow/scoping-parser.js';
+import { formatCost } from './usage/index.js';
+import { PlanValidationError } from './workflow/plan-validation.js';
+import { previewResearchPlan } from './workflow/research-plan.js';
+import { getAgentDB } from './memory/agentdb-client.js';
+import { renderReport, isReportFormat, REPORT_FORMATS } from './report/index.js';
+import type { ApprovalRequest, PlanTask } from './types/index.js';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -19,6 +25,11 @@ Usage:
 
 Commands:
   start <file>     Start a new research project from a scoping document
+                   (--plan=<file> runs an approved plan saved by the plan command)
+  plan <file>      Preview the research plan and estimated cost without running it
+                   (--output=<file> saves the plan for editing)
+  export <id>      Export a project's report as a document
+                   (--format=md|html|pdf|docx|pptx, default pdf; --output=<file>)
   quick            Start a quick research with interactive prompts
   template         Generate a scoping document template
   status <id>      Check the status of a research project
@@ -27,6 +38,9 @@ Commands:
 Examples:
   npm run research start ./scoping.json
   npm run research start ./scoping.yaml
+  npm run research plan ./scoping.yaml --output=plan.json
+  npm run research start ./scoping.yaml --plan=plan.json
+  npm run research export <project-id> --format=html --output=report.html
   npm run research quick
   npm run research template --format json > scoping.json
   npm run research template --format yaml > scoping.yaml
@@ -38,7 +52,80 @@ Environment Variables:
 `);
 }
 
-async function startResearch(filePath: string): Promise<void> {
+function readPlan(planPath: string): PlanTask[] {
+  if (!existsSync(planPath)) {
+    console.error(`Error: Plan file not found: ${planPath}`);
+    process.exit(1);
+  }
+  return JSON.parse(readFileSync(planPath, 'utf-8')) as PlanTask[];
+}
+
+async function previewPlan(filePath: string, outputPath?: string): Promise<void> {
+  if (!existsSync(filePath)) {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const scopingDocument = scopingParser.parse(readFileSync(filePath, 'utf-8'));
+
+  // The orchestrator settings `start` runs with; nothing stored is opened
+  const preview = previewResearchPlan(scopingDocument, {
+    maxResearchDepth: 3,
+    qualityReview: true,
+    reviseAfterReview: true,
+  });
+
+  console.log(`\n📋 Research Plan: ${preview.projectName}`);
+  console.log(`🎯 Target: ${preview.targetCompany}`);
+  console.log(`🔄 Phases: ${preview.phases.join(' → ')}`);
+
+  console.log(`\n🤖 Tasks (${preview.tasks.length}):`);
+  for (const task of preview.tasks) {
+    const dependsOn = task.dependencies.length > 0 ? ` (after ${task.dependencies.join(', ')})` : '';
+    console.log(`   ${task.id}  ${task.agentType} [priority ${task.priority}]: ${task.question}${dependsOn}`);
+  }
+
+  console.log('\n❓ Agents per question:');
+  for (const question of preview.questions) {
+    console.log(`   ${question.questionId}: ${question.agentTypes.join(', ') || 'none'} — ${question.question}`);
+  }
+
+  const { tokens, costUsd } = preview.estimate;
+  console.log(`\n💰 Estimated tokens: ${tokens.low.toLocaleString('en-US')} – ${tokens.high.toLocaleString('en-US')}`);
+  console.log(`   Estimated cost: ${formatCost(costUsd.low)} – ${formatCost(costUsd.high)}`);
+
+  for (const warning of preview.warnings) {
+    console.log(`\n⚠️  ${warning}`);
+  }
+
+  if (outputPath) {
+    writeFileSync(outputPath, JSON.stringify(preview.tasks, null, 2));
+    console.log(`\n💾 Plan saved to ${outputPath}. Edit it, then run: npm run research start ${filePath} --plan=${outputPath}`);
+  }
+}
+
+/**
+ * Ask for guidance at a checkpoint set in the scoping document's
+ * approvalGates, then continue the workflow
+ */
+async function promptApproval(orchestrator: ResearchOrchestrator, projectId: string, approval: ApprovalRequest): Promise<void> {
+  console.log(`\n⏸️  Checkpoint: ${approval.gate.replace(/_/g, ' ')}`);
+  console.log(`   Findings so far: ${approval.findingsCount}, tasks still to run: ${approval.pendingTasks}`);
+
+  const readline = await import('readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const guidance = await new Promise<string>((resolve) => {
+    rl.question('Guidance for the next agents (press Enter to approve as is): ', resolve);
+  });
+  rl.close();
+
+  await orchestrator.approveCheckpoint(projectId, { guidance });
+}
+
+async function startResearch(filePath: string, planPath?: string): Promise<void> {
   if (!existsSync(filePath)) {
     console.error(`Error: File not found: ${filePath}`);
     process.exit(1);
@@ -83,6 +170,10 @@ async function startResearch(filePath: string): Promise<void> {
       case 'report:completed':
         console.log('\n📝 Report generated successfully!');
         break;
+      case 'approval:requested':
+        const approvalPayload = event.payload as { approval: ApprovalRequest };
+        void promptApproval(orchestrator, event.projectId, approvalPayload.approval);
+        break;
       case 'project:completed':
         console.log('\n✅ Research project completed!');
         break;
@@ -94,7 +185,18 @@ async function startResearch(filePath: string): Promise<void> {
   });
 
   console.log('🚀 Starting research workflow...\n');
-  const project = await orchestrator.startProject(scopingDocument);
+  let project;
+  try {
+    project = await orchestrator.startProject(scopingDocument, planPath ? readPlan(planPath) : undefined);
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      console.error('Error: The plan cannot be run:');
+      error.errors.forEach(message => console.error(`  - ${message}`));
+      orchestrator.close();
+      process.exit(1);
+    }
+    throw error;
+  }
   console.log(`Project ID: ${project.id}`);
 
   // Keep the process running until complete
@@ -111,6 +213,7 @@ async function startResearch(filePath: string): Promise<void> {
           console.log(`Total Findings: ${currentProject.findings.length}`);
           console.log(`Total Sources: ${currentProject.metadata.totalSources}`);
           console.log(`Total Tokens Used: ${currentProject.metadata.totalTokensUsed}`);
+          console.log(`Total Cost: ${formatCost(currentProject.metadata.totalCostUsd)}`);
 
           if (currentProject.report) {
             console.log('\n📄 Executive Summary:');
@@ -125,6 +228,33 @@ async function startResearch(filePath: string): Promise<void> {
   });
 }
 
+function exportReport(projectId: string, format: string, outputPath?: string): void {
+  if (!isReportFormat(format)) {
+    console.error(`Error: Unsupported format: ${format}. Use one of: ${REPORT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const db = getAgentDB();
+  try {
+    const project = db.getProjectState(projectId);
+    if (!project) {
+      console.error(`Error: Project not found: ${projectId}`);
+      process.exit(1);
+    }
+    if (!project.report) {
+      console.error(`Error: Project ${projectId} has no report yet (status: ${project.status})`);
+      process.exit(1);
+    }
+
+    const rendered = renderReport(project.report, format, { sources: db.getSources(projectId) });
+    const target = outputPath || resolve(process.cwd(), rendered.fileName);
+    writeFileSync(target, rendered.content);
+    console.log(`📄 Report exported to ${target}`);
+  } finally {
+    db.close();
+  }
+}
+
 async function generateTemplate(format: string): Promise<void> {
   if (format === 'yaml') {
     console.log(scopingParser.generateYAMLTemplate());
@@ -248,7 +378,41 @@ async function main(): Promise<void> {
         console.error('Usage: npm run research start <file>');
         process.exit(1);
       }
-      await startResearch(resolve(process.cwd(), filePath));
+      const planArg = args.find(a => a.startsWith('--plan='));
+      await startResearch(
+        resolve(process.cwd(), filePath),
+        planArg ? resolve(process.cwd(), planArg.split('=')[1]) : undefined
+      );
+      break;
+
+    case 'plan':
+      const planFile = args[1];
+      if (!planFile) {
+        console.error('Error: Please provide a scoping document file path');
+        console.error('Usage: npm run research plan <file> [--output=<file>]');
+        process.exit(1);
+      }
+      const outputArg = args.find(a => a.startsWith('--output='));
+      await previewPlan(
+        resolve(process.cwd(), planFile),
+        outputArg ? resolve(process.cwd(), outputArg.split('=')[1]) : undefined
+      );
+      break;
+
+    case 'export':
+      const projectId = args[1];
+      if (!projectId) {
+        console.error('Error: Please provide a project ID');
+        console.error('Usage: npm run research export <id> [--format=md|html|pdf|docx|pptx] [--output=<file>]');
+        process.exit(1);
+      }
+      const exportFormatArg = args.find(a => a.startsWith('--format='));
+      const exportOutputArg = args.find(a => a.startsWith('--output='));
+      exportReport(
+        projectId,
+        exportFormatArg ? exportFormatArg.split('=')[1] : 'pdf',
+        exportOutputArg ? resolve(process.cwd(), exportOutputArg.split('=')[1]) : undefined
+      );
       break;
 
     case 'quick':
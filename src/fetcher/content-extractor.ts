@@ -0,0 +1,125 @@
+import { DEFAULT_MAX_BYTES, type FetchedDocument } from './page-fetcher.js';
+import { FetchError } from './fetch-error.js';
+import { extractHtml } from './html-extractor.js';
+import { extractPdf } from './pdf-extractor.js';
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  /** ISO date when it can be parsed, otherwise the raw value */
+  publishedDate?: string;
+  description?: string;
+  siteName?: string;
+}
+
+/**
+ * Readable content extracted from a fetched document
+ */
+export interface ExtractedContent {
+  url: string;
+  finalUrl: string;
+  contentType: string;
+  metadata: DocumentMetadata;
+  text: string;
+  wordCount: number;
+  fetchedAt: string;
+}
+
+export type ExtractionMode = 'full' | 'summary' | 'key_facts';
+
+// Keeps tool results within a reasonable share of the model's context
+const MAX_FULL_TEXT_CHARS = 20000;
+const SUMMARY_MAX_CHARS = 1500;
+const MAX_KEY_FACTS = 15;
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December';
+const FACT_PATTERN = new RegExp(
+  `(\\d|\\$|€|£|%|\\b(${MONTHS})\\b|\\b(million|billion|trillion|percent|revenue|profit|acquired|founded|raised|launched|employees)\\b)`,
+  'i'
+);
+
+/**
+ * Convert a fetched document into readable text plus metadata. `maxBytes`
+ * caps how much compressed PDF content may inflate to.
+ */
+export function extractContent(doc: FetchedDocument, maxBytes = DEFAULT_MAX_BYTES): ExtractedContent {
+  let result: { text: string; metadata: DocumentMetadata };
+
+  if (doc.contentType === 'application/pdf' || doc.body.subarray(0, 5).toString('latin1') === '%PDF-') {
+    result = extractPdf(doc.body, maxBytes);
+  } else if (doc.contentType.includes('html') || doc.contentType === '' || /^\s*</.test(doc.body.subarray(0, 512).toString('utf-8'))) {
+    result = extractHtml(doc.body.toString('utf-8'));
+  } else if (doc.contentType.startsWith('text/') || doc.contentType === 'application/json') {
+    result = { text: doc.body.toString('utf-8').trim(), metadata: {} };
+  } else {
+    throw new FetchError(`Unsupported content type: ${doc.contentType}`, 'unsupported_content', doc.url);
+  }
+
+  return {
+    url: doc.url,
+    finalUrl: doc.finalUrl,
+    contentType: doc.contentType,
+    metadata: {
+      ...result.metadata,
+      publishedDate: normalizePublishedDate(result.metadata.publishedDate),
+    },
+    text: result.text,
+    wordCount: result.text.split(/\s+/).filter(word => word.length > 0).length,
+    fetchedAt: doc.fetchedAt,
+  };
+}
+
+/**
+ * Shape extracted content for one of the fetch_webpage extraction modes
+ */
+export function applyExtractionMode(content: ExtractedContent, mode: ExtractionMode): string | string[] {
+  switch (mode) {
+    case 'full':
+      return content.text.length > MAX_FULL_TEXT_CHARS
+        ? `${content.text.slice(0, MAX_FULL_TEXT_CHARS)}\n\n[Truncated: ${content.wordCount} words total]`
+        : content.text;
+
+    case 'key_facts':
+      return splitSentences(content.text)
+        .filter(sentence => FACT_PATTERN.test(sentence))
+        .slice(0, MAX_KEY_FACTS);
+
+    case 'summary':
+    default:
+      return summarize(content);
+  }
+}
+
+/**
+ * Lead-based summary: the description (if any) followed by the opening
+ * paragraphs, which is where news and press content puts its key points
+ */
+function summarize(content: ExtractedContent): string {
+  let summary = content.metadata.description ? `${content.metadata.description}\n\n` : '';
+
+  for (const paragraph of content.text.split(/\n+/)) {
+    if (summary.length + paragraph.length > SUMMARY_MAX_CHARS) {
+      if (summary.length === 0) {
+        summary = splitSentences(paragraph).slice(0, 3).join(' ');
+      }
+      break;
+    }
+    summary += `${paragraph}\n\n`;
+  }
+
+  return summary.trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"“])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 20);
+}
+
+function normalizePublishedDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? value : parsed.toISOString().slice(0, 10);
+}
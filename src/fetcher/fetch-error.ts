@@ -0,0 +1,23 @@
+export type FetchErrorReason =
+  | 'invalid_url'
+  | 'robots_disallowed'
+  | 'blocked_host'
+  | 'too_large'
+  | 'timeout'
+  | 'http_error'
+  | 'not_found'
+  | 'unsupported_content';
+
+/**
+ * Error raised when a page cannot be retrieved or extracted
+ */
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: FetchErrorReason,
+    public readonly url: string
+  ) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
@@ -0,0 +1,78 @@
+import { isIP } from 'net';
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet. Page URLs come from the model, so fetching these
+ * would let it reach internal services such as the cloud metadata server.
+ * Anything that is not an IP address is refused.
+ */
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateIpv4(address.split('.').map(Number));
+    case 6:
+      return isPrivateIpv6(expandIpv6(address.toLowerCase().split('%')[0]));
+    default:
+      return true;
+  }
+}
+
+function isPrivateIpv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 ||                               // "this network"
+    a === 10 ||                              // private
+    a === 127 ||                             // loopback
+    a >= 224 ||                              // multicast and reserved
+    (a === 100 && b >= 64 && b <= 127) ||    // carrier-grade NAT
+    (a === 169 && b === 254) ||              // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||     // private
+    (a === 192 && b === 168) ||              // private
+    (a === 192 && b === 0 && c === 0) ||     // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19))    // benchmarking
+  );
+}
+
+function isPrivateIpv6(groups: number[]): boolean {
+  const embeddedIpv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d, which
+  // includes :: and ::1) addresses
+  if (zeros(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPrivateIpv4(embeddedIpv4(groups[6], groups[7]));
+  }
+  // NAT64 (64:ff9b::a.b.c.d)
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6)) {
+    return isPrivateIpv4(embeddedIpv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002:aabb:ccdd::)
+  if (groups[0] === 0x2002) {
+    return isPrivateIpv4(embeddedIpv4(groups[1], groups[2]));
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 ||       // unique local
+    (groups[0] & 0xffc0) === 0xfe80 ||       // link-local
+    (groups[0] & 0xffc0) === 0xfec0 ||       // site-local (deprecated)
+    (groups[0] & 0xff00) === 0xff00          // multicast
+  );
+}
+
+/**
+ * The eight 16-bit groups of a valid IPv6 address
+ */
+function expandIpv6(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+
+  return [...start, ...new Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
@@ -0,0 +1,172 @@
+import type { DocumentMetadata } from './content-extractor.js';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+};
+
+// Elements whose content is never readable text
+const NON_CONTENT_TAGS = ['script', 'style', 'noscript', 'svg', 'iframe', 'template', 'canvas', 'select'];
+
+// Page chrome that surrounds the main content
+const BOILERPLATE_TAGS = ['nav', 'header', 'footer', 'aside', 'form', 'button'];
+
+// Class/id fragments that usually mark non-content blocks
+const BOILERPLATE_HINTS = /(cookie|consent|banner|newsletter|subscribe|share|social|related|comment|advert|promo|breadcrumb|sidebar|menu)/i;
+
+const BLOCK_TAGS = /<\/?(p|div|section|article|main|br|li|ul|ol|h[1-6]|tr|table|blockquote|pre|figcaption|dd|dt)\b[^>]*>/gi;
+
+// Paragraphs shorter than this are treated as navigation or link lists
+const MIN_PARAGRAPH_WORDS = 6;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Extract readable text and metadata from an HTML document
+ */
+export function extractHtml(html: string): { text: string; metadata: DocumentMetadata } {
+  const metadata = extractHtmlMetadata(html);
+
+  let content = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of NON_CONTENT_TAGS) {
+    content = content.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+  }
+
+  // Prefer the main article body when the page marks one up
+  content = innerOf(content, 'article') || innerOf(content, 'main') || innerOf(content, 'body') || content;
+
+  for (const tag of BOILERPLATE_TAGS) {
+    content = content.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+  }
+
+  // Drop leaf blocks whose class or id marks them as page chrome
+  content = content.replace(
+    /<(div|section|ul|p)\b([^>]*\b(?:class|id)\s*=[^>]*)>((?:(?!<\1\b)[\s\S])*?)<\/\1>/gi,
+    (match, _tag: string, attributes: string) => {
+      const hints = `${attributeOf(attributes, 'class') || ''} ${attributeOf(attributes, 'id') || ''}`;
+      return BOILERPLATE_HINTS.test(hints) ? ' ' : match;
+    }
+  );
+
+  const text = content
+    .replace(BLOCK_TAGS, '\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  const paragraphs = decodeEntities(text)
+    .split(/\n+/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.split(' ').length >= MIN_PARAGRAPH_WORDS);
+
+  return { text: paragraphs.join('\n\n'), metadata };
+}
+
+function extractHtmlMetadata(html: string): DocumentMetadata {
+  const meta = new Map<string, string>();
+  for (const match of html.matchAll(/<meta\b([^>]*)>/gi)) {
+    const key = attributeOf(match[1], 'property') || attributeOf(match[1], 'name') || attributeOf(match[1], 'itemprop');
+    const value = attributeOf(match[1], 'content');
+    if (key && value && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), decodeEntities(value).trim());
+    }
+  }
+
+  const jsonLd = extractJsonLd(html);
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+  const timeTag = html.match(/<time\b[^>]*datetime=["']([^"']+)["']/i)?.[1];
+
+  const title = meta.get('og:title')
+    || jsonLd.headline
+    || (titleTag && decodeEntities(titleTag.replace(/<[^>]+>/g, '')).trim())
+    || (h1 && decodeEntities(h1.replace(/<[^>]+>/g, '')).trim())
+    || undefined;
+
+  const author = meta.get('author')
+    || meta.get('article:author')
+    || meta.get('parsely-author')
+    || meta.get('dc.creator')
+    || jsonLd.author
+    || undefined;
+
+  const publishedDate = meta.get('article:published_time')
+    || meta.get('datepublished')
+    || meta.get('date')
+    || meta.get('pubdate')
+    || meta.get('publish-date')
+    || meta.get('dc.date')
+    || jsonLd.datePublished
+    || timeTag
+    || undefined;
+
+  return {
+    title: title || undefined,
+    author: author && !/^https?:\/\//.test(author) ? author : undefined,
+    publishedDate,
+    description: meta.get('og:description') || meta.get('description') || undefined,
+    siteName: meta.get('og:site_name') || undefined,
+  };
+}
+
+function extractJsonLd(html: string): { headline?: string; author?: string; datePublished?: string } {
+  for (const match of html.matchAll(/<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      const data = JSON.parse(match[1]) as unknown;
+      const nodes = (Array.isArray(data) ? data : [data]).flatMap(node =>
+        node && typeof node === 'object' && Array.isArray((node as { '@graph'?: unknown[] })['@graph'])
+          ? (node as { '@graph': unknown[] })['@graph']
+          : [node]
+      ) as Array<Record<string, unknown>>;
+
+      const article = nodes.find(node => node && (node.datePublished || node.headline));
+      if (!article) continue;
+
+      const author = Array.isArray(article.author) ? article.author[0] : article.author;
+      return {
+        headline: typeof article.headline === 'string' ? article.headline : undefined,
+        author: typeof author === 'string'
+          ? author
+          : (author as { name?: string } | undefined)?.name,
+        datePublished: typeof article.datePublished === 'string' ? article.datePublished : undefined,
+      };
+    } catch {
+      // Ignore malformed structured data
+    }
+  }
+  return {};
+}
+
+function innerOf(html: string, tag: string): string | null {
+  const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)</${tag}>`, 'i'));
+  return match ? match[1] : null;
+}
+
+function attributeOf(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
@@ -0,0 +1,257 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import { isIP } from 'net';
+import { Agent, fetch, type Response } from 'undici';
+import type { FetchedDocument, PageFetcher } from './page-fetcher.js';
+import { FetchError } from './fetch-error.js';
+import { isPrivateAddress } from './host-policy.js';
+import { RobotsTxt } from './robots.js';
+
+interface HttpPageFetcherOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  userAgent: string;
+  respectRobots: boolean;
+}
+
+const MAX_REDIRECTS = 5;
+// Crawlers commonly read no more than this much of a robots.txt
+const ROBOTS_MAX_BYTES = 512 * 1024;
+
+/**
+ * Raised from a connection's DNS lookup when the host resolves to an
+ * address outside the public internet
+ */
+class BlockedAddressError extends Error {
+  constructor(public readonly hostname: string, public readonly address: string) {
+    super(`${hostname} resolves to non-public address ${address}`);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+/**
+ * Fetches pages over HTTP(S), honoring robots.txt and response size limits.
+ * Hosts that resolve to loopback, private or link-local addresses are
+ * refused, and redirects are followed one hop at a time so every target is
+ * checked the same way as the original URL. Addresses are checked in the
+ * lookup that opens each connection, so a host cannot pass the check and
+ * then resolve somewhere else (DNS rebinding).
+ */
+export class HttpPageFetcher implements PageFetcher {
+  readonly name = 'http';
+  private robotsCache: Map<string, Promise<RobotsTxt | null>> = new Map();
+  private dispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+  constructor(private options: HttpPageFetcherOptions) {}
+
+  get maxBytes(): number {
+    return this.options.maxBytes;
+  }
+
+  async fetch(url: string): Promise<FetchedDocument> {
+    let target = parseUrl(url, url);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        checkHost(target, url);
+
+        if (this.options.respectRobots) {
+          const robots = await this.getRobots(target.origin);
+          if (robots && !robots.isAllowed(this.options.userAgent, target.pathname + target.search)) {
+            throw new FetchError(`Fetching ${target.href} is disallowed by robots.txt`, 'robots_disallowed', url);
+          }
+        }
+
+        const response = await fetch(target.href, {
+          headers: {
+            'User-Agent': this.options.userAgent,
+            Accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+          },
+          redirect: 'manual',
+          signal: controller.signal,
+          dispatcher: this.dispatcher,
+        });
+
+        const location = isRedirect(response.status) ? response.headers.get('location') : null;
+        if (location) {
+          await response.body?.cancel();
+          if (redirects >= MAX_REDIRECTS) {
+            throw new FetchError(`Too many redirects fetching ${url}`, 'http_error', url);
+          }
+          target = parseUrl(new URL(location, target).href, url);
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new FetchError(
+            `HTTP ${response.status} ${response.statusText} for ${target.href}`,
+            response.status === 404 || response.status === 410 ? 'not_found' : 'http_error',
+            url
+          );
+        }
+
+        const declaredLength = parseInt(response.headers.get('content-length') || '0', 10);
+        if (declaredLength > this.options.maxBytes) {
+          throw new FetchError(
+            `Response for ${url} is ${declaredLength} bytes, over the ${this.options.maxBytes} byte limit`,
+            'too_large',
+            url
+          );
+        }
+
+        const body = await readBody(response, url, controller, this.options.maxBytes);
+
+        return {
+          url,
+          finalUrl: target.href,
+          contentType: (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase(),
+          body,
+          fetchedAt: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      if (error instanceof FetchError) throw error;
+      const cause = error instanceof Error ? error.cause : undefined;
+      if (cause instanceof BlockedAddressError) {
+        throw new FetchError(`Refusing to fetch ${url}: ${cause.message}`, 'blocked_host', url);
+      }
+      if (controller.signal.aborted) {
+        throw new FetchError(`Timed out fetching ${url} after ${this.options.timeoutMs}ms`, 'timeout', url);
+      }
+      throw new FetchError(
+        `Failed to fetch ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'http_error',
+        url
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Load and cache robots.txt for an origin. A missing, unreachable or
+   * oversized robots.txt is treated as allowing everything.
+   */
+  private getRobots(origin: string): Promise<RobotsTxt | null> {
+    let cached = this.robotsCache.get(origin);
+    if (!cached) {
+      cached = this.loadRobots(origin);
+      this.robotsCache.set(origin, cached);
+    }
+    return cached;
+  }
+
+  private async loadRobots(origin: string): Promise<RobotsTxt | null> {
+    const url = `${origin}/robots.txt`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      // A redirect away from the origin is treated as no robots.txt rather
+      // than followed
+      const response = await fetch(url, {
+        headers: { 'User-Agent': this.options.userAgent },
+        redirect: 'manual',
+        signal: controller.signal,
+        dispatcher: this.dispatcher,
+      });
+      if (!response.ok) {
+        await response.body?.cancel();
+        return null;
+      }
+      const body = await readBody(response, url, controller, ROBOTS_MAX_BYTES);
+      return new RobotsTxt(body.toString('utf-8'));
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Refuse a URL whose host is a non-public IP address. Host names are
+ * checked when the connection resolves them (see publicLookup).
+ */
+function checkHost(target: URL, url: string): void {
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new FetchError(`Refusing to fetch ${target.href}: ${hostname} is a non-public address`, 'blocked_host', url);
+  }
+}
+
+/**
+ * DNS lookup for outgoing connections that fails when any address the
+ * host resolves to is non-public, so the connection can only be made to an
+ * address that passed the check
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      callback(new BlockedAddressError(hostname, blocked.address), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+function parseUrl(value: string, url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    throw new FetchError(`Invalid URL: ${value}`, 'invalid_url', url);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchError(`Unsupported protocol: ${parsed.protocol}`, 'invalid_url', url);
+  }
+  return parsed;
+}
+
+function isRedirect(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+/**
+ * Read a response body, stopping as soon as the size limit is exceeded
+ * (servers do not always send an accurate Content-Length)
+ */
+async function readBody(response: Response, url: string, controller: AbortController, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      controller.abort();
+      throw new FetchError(`Response for ${url} exceeded the ${maxBytes} byte limit`, 'too_large', url);
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  return Buffer.concat(chunks);
+}
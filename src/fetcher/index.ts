@@ -0,0 +1,21 @@
+export {
+  createPageFetcher,
+  getPageFetcher,
+  fetcherConfigFromEnv,
+  type FetchedDocument,
+  type PageFetcher,
+  type PageFetcherBackend,
+  type PageFetcherConfig,
+} from './page-fetcher.js';
+export { FetchError, type FetchErrorReason } from './fetch-error.js';
+export { HttpPageFetcher } from './http-fetcher.js';
+export { isPrivateAddress } from './host-policy.js';
+export { LocalPageFetcher } from './local-fetcher.js';
+export { RobotsTxt } from './robots.js';
+export {
+  extractContent,
+  applyExtractionMode,
+  type DocumentMetadata,
+  type ExtractedContent,
+  type ExtractionMode,
+} from './content-extractor.js';
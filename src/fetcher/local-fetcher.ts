@@ -0,0 +1,129 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { extname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+import type { FetchedDocument, PageFetcher } from './page-fetcher.js';
+import { FetchError } from './fetch-error.js';
+
+type FixtureManifest = Record<string, string | { file: string; contentType?: string }>;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xhtml': 'application/xhtml+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/plain',
+  '.json': 'application/json',
+};
+
+/**
+ * Serves pages from the local filesystem for tests and offline runs
+ *
+ * URLs are resolved in this order:
+ * 1. `file://` URLs are read directly
+ * 2. An `index.json` manifest in the fixtures directory mapping URL to file
+ * 3. `<fixturesDir>/<host>/<path>`, trying `.html` and `index.html` fallbacks
+ *
+ * Every path must stay inside the fixtures directory.
+ */
+export class LocalPageFetcher implements PageFetcher {
+  readonly name = 'local';
+  private manifest: FixtureManifest | null = null;
+
+  constructor(
+    private fixturesDir: string,
+    readonly maxBytes: number
+  ) {}
+
+  async fetch(url: string): Promise<FetchedDocument> {
+    const { path, contentType } = this.resolvePath(url);
+
+    const size = statSync(path).size;
+    if (size > this.maxBytes) {
+      throw new FetchError(
+        `Fixture for ${url} is ${size} bytes, over the ${this.maxBytes} byte limit`,
+        'too_large',
+        url
+      );
+    }
+
+    return {
+      url,
+      finalUrl: url,
+      contentType: contentType || CONTENT_TYPES[extname(path).toLowerCase()] || 'application/octet-stream',
+      body: readFileSync(path),
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+
+  private resolvePath(url: string): { path: string; contentType?: string } {
+    if (url.startsWith('file://')) {
+      const path = this.fixturePath(fileURLToPath(url), url);
+      if (!this.isFile(path)) {
+        throw new FetchError(`File not found: ${path}`, 'not_found', url);
+      }
+      return { path };
+    }
+
+    const entry = this.loadManifest()[url];
+    if (entry) {
+      const file = typeof entry === 'string' ? entry : entry.file;
+      const path = this.fixturePath(file, url);
+      if (!this.isFile(path)) {
+        throw new FetchError(`Fixture file not found for ${url}: ${path}`, 'not_found', url);
+      }
+      return { path, contentType: typeof entry === 'string' ? undefined : entry.contentType };
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new FetchError(`Invalid URL: ${url}`, 'invalid_url', url);
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(parsed.pathname);
+    } catch {
+      throw new FetchError(`Invalid URL: ${url}`, 'invalid_url', url);
+    }
+
+    const base = this.fixturePath(join(parsed.hostname, pathname), url);
+    const candidates = [base, `${base}.html`, join(base, 'index.html')];
+    const path = candidates.find(candidate => this.isFile(candidate));
+    if (!path) {
+      throw new FetchError(`No fixture found for ${url}`, 'not_found', url);
+    }
+
+    return { path };
+  }
+
+  /**
+   * Resolve a path against the fixtures directory, refusing anything that
+   * ends up outside it
+   */
+  private fixturePath(path: string, url: string): string {
+    const root = resolve(this.fixturesDir);
+    const resolved = resolve(root, path);
+    const inside = relative(root, resolved);
+    if (inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+      throw new FetchError(`${url} is outside the fixtures directory`, 'invalid_url', url);
+    }
+    return resolved;
+  }
+
+  private loadManifest(): FixtureManifest {
+    if (!this.manifest) {
+      const manifestPath = join(this.fixturesDir, 'index.json');
+      this.manifest = existsSync(manifestPath)
+        ? JSON.parse(readFileSync(manifestPath, 'utf-8')) as FixtureManifest
+        : {};
+    }
+    return this.manifest;
+  }
+
+  private isFile(path: string): boolean {
+    return existsSync(path) && statSync(path).isFile();
+  }
+}
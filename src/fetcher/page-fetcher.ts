@@ -0,0 +1,90 @@
+import { HttpPageFetcher } from './http-fetcher.js';
+import { LocalPageFetcher } from './local-fetcher.js';
+
+/**
+ * Raw document retrieved by a fetcher, before content extraction
+ */
+export interface FetchedDocument {
+  url: string;
+  /** URL after redirects */
+  finalUrl: string;
+  contentType: string;
+  body: Buffer;
+  fetchedAt: string;
+}
+
+/**
+ * Common interface for all page fetching backends
+ */
+export interface PageFetcher {
+  readonly name: string;
+  /** Largest body the fetcher returns; also caps content inflated from it */
+  readonly maxBytes: number;
+  fetch(url: string): Promise<FetchedDocument>;
+}
+
+export type PageFetcherBackend = 'http' | 'local';
+
+export interface PageFetcherConfig {
+  backend?: PageFetcherBackend;
+  /** Maximum response size in bytes (default: 5 MB) */
+  maxBytes?: number;
+  /** Request timeout in milliseconds (default: 15s) */
+  timeoutMs?: number;
+  userAgent?: string;
+  /** Honor robots.txt rules (default: true) */
+  respectRobots?: boolean;
+  /** Directory of fixture files for the local backend */
+  fixturesDir?: string;
+}
+
+export const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+export const DEFAULT_USER_AGENT = 'CommercialResearchBot/1.0 (+https://github.com/AlabamaMike/repp-resent)';
+
+/**
+ * Create a page fetcher from explicit configuration
+ */
+export function createPageFetcher(config: PageFetcherConfig = {}): PageFetcher {
+  const maxBytes = config.maxBytes || DEFAULT_MAX_BYTES;
+
+  switch (config.backend || 'http') {
+    case 'http':
+      return new HttpPageFetcher({
+        maxBytes,
+        timeoutMs: config.timeoutMs || 15000,
+        userAgent: config.userAgent || DEFAULT_USER_AGENT,
+        respectRobots: config.respectRobots ?? true,
+      });
+
+    case 'local':
+      return new LocalPageFetcher(config.fixturesDir || './data/fetch-fixtures', maxBytes);
+
+    default:
+      throw new Error(`Unknown page fetcher backend: ${config.backend}`);
+  }
+}
+
+/**
+ * Build page fetcher configuration from environment variables
+ */
+export function fetcherConfigFromEnv(): PageFetcherConfig {
+  return {
+    backend: process.env.FETCHER_BACKEND as PageFetcherBackend | undefined,
+    maxBytes: process.env.FETCH_MAX_BYTES ? parseInt(process.env.FETCH_MAX_BYTES, 10) : undefined,
+    timeoutMs: process.env.FETCH_TIMEOUT_MS ? parseInt(process.env.FETCH_TIMEOUT_MS, 10) : undefined,
+    userAgent: process.env.FETCH_USER_AGENT || undefined,
+    respectRobots: process.env.FETCH_RESPECT_ROBOTS !== 'false',
+    fixturesDir: process.env.FETCH_FIXTURES_DIR || undefined,
+  };
+}
+
+// Singleton instance for shared access
+let instance: PageFetcher | null = null;
+
+export function getPageFetcher(): PageFetcher {
+  if (!instance) {
+    instance = createPageFetcher(fetcherConfigFromEnv());
+  }
+  return instance;
+}
@@ -0,0 +1,190 @@
+import { inflateSync } from 'zlib';
+import type { DocumentMetadata } from './content-extractor.js';
+
+/**
+ * Dependency-free PDF text extraction
+ *
+ * Inflates FlateDecode content streams and reads the text-showing operators
+ * (Tj, TJ, ', "). This covers most text-based PDFs such as filings and press
+ * releases; scanned documents and fonts with custom CID encodings yield
+ * little or no text. Streams together may inflate to at most `maxBytes`;
+ * a stream that would go over the limit is skipped.
+ */
+export function extractPdf(buffer: Buffer, maxBytes: number): { text: string; metadata: DocumentMetadata } {
+  const raw = buffer.toString('latin1');
+  const chunks: string[] = [];
+  let inflated = 0;
+
+  const streamPattern = /\bobj\s*<<((?:(?!\bendobj\b)[\s\S])*?)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(raw)) !== null) {
+    const dictionary = match[1];
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    // Skip images, fonts and other binary payloads
+    if (/\/Subtype\s*\/Image|\/Length1|\/Length2|\/Type\s*\/XRef|\/Type\s*\/ObjStm/.test(dictionary)) {
+      continue;
+    }
+
+    const data = buffer.subarray(start, end);
+    let content: string;
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        const output = inflateSync(data, { maxOutputLength: Math.max(maxBytes - inflated, 1) });
+        inflated += output.length;
+        content = output.toString('latin1');
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      // Other filters (DCT, LZW, ...) are not text we can read
+      continue;
+    } else {
+      content = data.toString('latin1');
+    }
+
+    const text = extractTextOperators(content);
+    if (text.trim()) {
+      chunks.push(text);
+    }
+  }
+
+  const text = chunks
+    .join('\n')
+    .split(/\n+/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+
+  return { text, metadata: extractPdfInfo(raw) };
+}
+
+function extractTextOperators(content: string): string {
+  if (!/\bBT\b/.test(content)) return '';
+
+  let output = '';
+  const tokenPattern = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g;
+  const operands: string[] = [];
+  let inArray = false;
+  let arrayText = '';
+
+  for (const token of content.match(tokenPattern) || []) {
+    if (token === '[') {
+      inArray = true;
+      arrayText = '';
+      continue;
+    }
+    if (token === ']') {
+      inArray = false;
+      operands.push(arrayText);
+      continue;
+    }
+
+    if (token.startsWith('(') || (token.startsWith('<') && token !== '<<')) {
+      const decoded = token.startsWith('(') ? decodeLiteral(token.slice(1, -1)) : decodeHex(token.slice(1, -1));
+      if (inArray) {
+        arrayText += decoded;
+      } else {
+        operands.push(decoded);
+      }
+      continue;
+    }
+
+    if (inArray) {
+      // Large negative kerning inside TJ arrays usually represents a word gap
+      if (/^-?\d*\.?\d+$/.test(token) && parseFloat(token) < -200) {
+        arrayText += ' ';
+      }
+      continue;
+    }
+
+    switch (token) {
+      case 'Tj':
+      case 'TJ':
+        output += operands.pop() ?? '';
+        break;
+      case "'":
+      case '"':
+        output += '\n' + (operands.pop() ?? '');
+        break;
+      case 'Td':
+      case 'TD':
+      case 'T*':
+      case 'Tm':
+        output += '\n';
+        break;
+      case 'ET':
+        output += '\n';
+        break;
+    }
+
+    if (/^[A-Za-z'"*]+$/.test(token)) {
+      operands.length = 0;
+    }
+  }
+
+  return output;
+}
+
+function decodeLiteral(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_match, escape: string) => {
+    switch (escape) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '(': return '(';
+      case ')': return ')';
+      case '\\': return '\\';
+      default:
+        if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+        return ''; // Escaped line break continues the string
+    }
+  });
+}
+
+function decodeHex(value: string): string {
+  const hex = value.replace(/\s+/g, '');
+  const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+
+  // UTF-16BE with byte order mark
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+
+  return bytes.toString('latin1');
+}
+
+function extractPdfInfo(raw: string): DocumentMetadata {
+  const field = (name: string): string | undefined => {
+    const literal = raw.match(new RegExp(`/${name}\\s*\\(((?:\\\\[\\s\\S]|[^\\\\)])*)\\)`));
+    if (literal) return decodeLiteral(literal[1]).trim() || undefined;
+    const hex = raw.match(new RegExp(`/${name}\\s*<([0-9A-Fa-f\\s]+)>`));
+    if (hex) return decodeHex(hex[1]).trim() || undefined;
+    return undefined;
+  };
+
+  return {
+    title: field('Title'),
+    author: field('Author'),
+    publishedDate: parsePdfDate(field('CreationDate')),
+  };
+}
+
+/**
+ * Convert a PDF date string (D:YYYYMMDDHHmmSS...) to ISO format
+ */
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^D?:?(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+  return [match[1], match[2] || '01', match[3] || '01'].join('-');
+}
@@ -0,0 +1,102 @@
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+/**
+ * Minimal robots.txt parser supporting Allow/Disallow, `*` wildcards and
+ * `$` anchors. The most specific (longest) matching rule wins, with Allow
+ * taking precedence on ties, as in RFC 9309.
+ */
+export class RobotsTxt {
+  private groups: RobotsGroup[];
+
+  constructor(content: string) {
+    this.groups = this.parse(content);
+  }
+
+  isAllowed(userAgent: string, path: string): boolean {
+    const rules = this.rulesFor(userAgent);
+    let best: RobotsRule | null = null;
+
+    for (const rule of rules) {
+      if (!this.matches(rule.pattern, path)) continue;
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  private rulesFor(userAgent: string): RobotsRule[] {
+    const agent = userAgent.toLowerCase();
+    const specific = this.groups.filter(g =>
+      g.userAgents.some(ua => ua !== '*' && agent.includes(ua))
+    );
+    if (specific.length > 0) {
+      return specific.flatMap(g => g.rules);
+    }
+    return this.groups.filter(g => g.userAgents.includes('*')).flatMap(g => g.rules);
+  }
+
+  private matches(pattern: string, path: string): boolean {
+    // An empty Disallow means "allow everything"
+    if (pattern === '') return false;
+
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+  }
+
+  private parse(content: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line) continue;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+      if (!current) continue;
+
+      if (field === 'allow' || field === 'disallow') {
+        current.rules.push({ allow: field === 'allow', pattern: value });
+      }
+    }
+
+    return groups;
+  }
+}
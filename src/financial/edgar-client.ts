@@ -0,0 +1,273 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { extractContent, type ExtractedContent } from '../fetcher/index.js';
+import { parseCompanyFacts, type CompanyFacts, type FinancialStatements } from './xbrl-parser.js';
+
+/**
+ * A company registered with the SEC
+ */
+export interface CompanyIdentity {
+  /** Ten-digit, zero-padded Central Index Key */
+  cik: string;
+  name: string;
+  ticker?: string;
+}
+
+export type FilingForm = '10-K' | '10-Q' | '8-K' | string;
+
+export interface Filing {
+  cik: string;
+  accessionNumber: string;
+  form: FilingForm;
+  filingDate: string;
+  reportDate?: string;
+  primaryDocument: string;
+  description?: string;
+  url: string;
+}
+
+export interface EdgarClientConfig {
+  /**
+   * Local mirror of EDGAR data. When set the client runs offline and reads:
+   * - company_tickers.json
+   * - submissions/CIK##########.json
+   * - companyfacts/CIK##########.json
+   * - Archives/edgar/data/<cik>/<accession>/<document>
+   */
+  mirrorDir?: string;
+  /** SEC requires a descriptive User-Agent with contact details for live access */
+  userAgent?: string;
+}
+
+interface TickerEntry {
+  cik_str: number;
+  ticker: string;
+  title: string;
+}
+
+interface SubmissionsResponse {
+  cik: string;
+  name: string;
+  tickers?: string[];
+  filings: {
+    recent: {
+      accessionNumber: string[];
+      filingDate: string[];
+      reportDate: string[];
+      form: string[];
+      primaryDocument: string[];
+      primaryDocDescription: string[];
+    };
+  };
+}
+
+const SEC_WWW = 'https://www.sec.gov';
+const SEC_DATA = 'https://data.sec.gov';
+
+// Legal suffixes ignored when matching company names
+const NAME_SUFFIXES = /\b(inc|incorporated|corp|corporation|co|company|ltd|limited|plc|llc|lp|holdings?|group|sa|ag|nv|the)\b/g;
+
+/**
+ * SEC EDGAR client
+ *
+ * Resolves companies to CIKs, lists filings and loads XBRL company facts,
+ * either live from sec.gov or from a local mirror directory.
+ */
+export class EdgarClient {
+  private tickers: TickerEntry[] | null = null;
+
+  constructor(private config: EdgarClientConfig = {}) {}
+
+  get offline(): boolean {
+    return Boolean(this.config.mirrorDir);
+  }
+
+  /**
+   * Resolve a company name or ticker to its SEC identity
+   */
+  async resolveCompany(nameOrTicker: string, aliases: string[] = []): Promise<CompanyIdentity | null> {
+    const tickers = await this.loadTickers();
+    const candidates = [nameOrTicker, ...aliases];
+
+    // Exact ticker match
+    for (const candidate of candidates) {
+      const entry = tickers.find(t => t.ticker.toLowerCase() === candidate.trim().toLowerCase());
+      if (entry) return this.toIdentity(entry);
+    }
+
+    // Exact name match, then prefix match, ignoring legal suffixes
+    for (const candidate of candidates) {
+      const normalized = this.normalizeName(candidate);
+      if (!normalized) continue;
+
+      const exact = tickers.find(t => this.normalizeName(t.title) === normalized);
+      if (exact) return this.toIdentity(exact);
+
+      const prefix = tickers.find(t => this.normalizeName(t.title).startsWith(`${normalized} `));
+      if (prefix) return this.toIdentity(prefix);
+    }
+
+    return null;
+  }
+
+  /**
+   * List recent filings for a company, newest first
+   */
+  async getFilings(
+    cik: string,
+    options: { forms?: FilingForm[]; since?: string; limit?: number } = {}
+  ): Promise<Filing[]> {
+    const paddedCik = this.padCik(cik);
+    const submissions = await this.loadJSON<SubmissionsResponse>(
+      `submissions/CIK${paddedCik}.json`,
+      `${SEC_DATA}/submissions/CIK${paddedCik}.json`
+    );
+
+    const recent = submissions.filings.recent;
+    const filings: Filing[] = [];
+
+    for (let i = 0; i < recent.accessionNumber.length; i++) {
+      const form = recent.form[i];
+      if (options.forms && !options.forms.includes(form)) continue;
+      if (options.since && recent.filingDate[i] < options.since) continue;
+
+      const accessionNumber = recent.accessionNumber[i];
+      filings.push({
+        cik: paddedCik,
+        accessionNumber,
+        form,
+        filingDate: recent.filingDate[i],
+        reportDate: recent.reportDate[i] || undefined,
+        primaryDocument: recent.primaryDocument[i],
+        description: recent.primaryDocDescription[i] || undefined,
+        url: `${SEC_WWW}/Archives/edgar/data/${parseInt(paddedCik, 10)}/${accessionNumber.replace(/-/g, '')}/${recent.primaryDocument[i]}`,
+      });
+
+      if (options.limit && filings.length >= options.limit) break;
+    }
+
+    return filings.sort((a, b) => b.filingDate.localeCompare(a.filingDate));
+  }
+
+  /**
+   * Load and parse all XBRL facts for a company
+   */
+  async getFinancialStatements(cik: string): Promise<FinancialStatements> {
+    const paddedCik = this.padCik(cik);
+    const facts = await this.loadJSON<CompanyFacts>(
+      `companyfacts/CIK${paddedCik}.json`,
+      `${SEC_DATA}/api/xbrl/companyfacts/CIK${paddedCik}.json`
+    );
+    return parseCompanyFacts(facts);
+  }
+
+  /**
+   * Load a filing's primary document and extract its readable text
+   */
+  async getFilingContent(filing: Filing): Promise<ExtractedContent> {
+    const relativePath = join(
+      'Archives', 'edgar', 'data',
+      String(parseInt(filing.cik, 10)),
+      filing.accessionNumber.replace(/-/g, ''),
+      filing.primaryDocument
+    );
+
+    let body: Buffer;
+    let contentType: string;
+
+    if (this.config.mirrorDir) {
+      const path = join(this.config.mirrorDir, relativePath);
+      if (!existsSync(path)) {
+        throw new Error(`Filing ${filing.accessionNumber} is not in the EDGAR mirror (${path})`);
+      }
+      body = readFileSync(path);
+      contentType = filing.primaryDocument.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'text/html';
+    } else {
+      const response = await fetch(filing.url, { headers: this.headers() });
+      if (!response.ok) {
+        throw new Error(`EDGAR request failed for ${filing.url}: ${response.status} ${response.statusText}`);
+      }
+      body = Buffer.from(await response.arrayBuffer());
+      contentType = (response.headers.get('content-type') || 'text/html').split(';')[0].trim();
+    }
+
+    return extractContent({
+      url: filing.url,
+      finalUrl: filing.url,
+      contentType,
+      body,
+      fetchedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * URL of the human-readable filing index for an accession number
+   */
+  filingIndexUrl(cik: string, accessionNumber: string): string {
+    return `${SEC_WWW}/Archives/edgar/data/${parseInt(cik, 10)}/${accessionNumber.replace(/-/g, '')}/${accessionNumber}-index.htm`;
+  }
+
+  private async loadTickers(): Promise<TickerEntry[]> {
+    if (!this.tickers) {
+      const data = await this.loadJSON<Record<string, TickerEntry>>(
+        'company_tickers.json',
+        `${SEC_WWW}/files/company_tickers.json`
+      );
+      this.tickers = Object.values(data);
+    }
+    return this.tickers;
+  }
+
+  private async loadJSON<T>(mirrorPath: string, url: string): Promise<T> {
+    if (this.config.mirrorDir) {
+      const path = join(this.config.mirrorDir, mirrorPath);
+      if (!existsSync(path)) {
+        throw new Error(`EDGAR mirror file not found: ${path}`);
+      }
+      return JSON.parse(readFileSync(path, 'utf-8')) as T;
+    }
+
+    const response = await fetch(url, { headers: this.headers() });
+    if (!response.ok) {
+      throw new Error(`EDGAR request failed for ${url}: ${response.status} ${response.statusText}`);
+    }
+    return await response.json() as T;
+  }
+
+  private headers(): Record<string, string> {
+    if (!this.config.userAgent) {
+      throw new Error('SEC_USER_AGENT must be set (e.g. "Company Name admin@example.com") to access EDGAR');
+    }
+    return { 'User-Agent': this.config.userAgent, Accept: 'application/json, text/html;q=0.9' };
+  }
+
+  private toIdentity(entry: TickerEntry): CompanyIdentity {
+    return { cik: this.padCik(String(entry.cik_str)), name: entry.title, ticker: entry.ticker };
+  }
+
+  private padCik(cik: string): string {
+    return cik.replace(/^CIK/i, '').padStart(10, '0');
+  }
+
+  private normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]+/g, ' ')
+      .replace(NAME_SUFFIXES, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+// Singleton instance for shared access
+let instance: EdgarClient | null = null;
+
+export function getEdgarClient(): EdgarClient {
+  if (!instance) {
+    instance = new EdgarClient({
+      mirrorDir: process.env.EDGAR_MIRROR_DIR || undefined,
+      userAgent: process.env.SEC_USER_AGENT || undefined,
+    });
+  }
+  return instance;
+}
@@ -0,0 +1,38 @@
+export {
+  EdgarClient,
+  getEdgarClient,
+  type CompanyIdentity,
+  type EdgarClientConfig,
+  type Filing,
+  type FilingForm,
+} from './edgar-client.js';
+export {
+  parseCompanyFacts,
+  latestPeriods,
+  type CompanyFacts,
+  type FinancialStatements,
+  type StatementPeriod,
+  type PeriodType,
+  type IncomeStatementLine,
+  type BalanceSheetLine,
+  type CashFlowLine,
+} from './xbrl-parser.js';
+export {
+  analyzeMetrics,
+  cagr,
+  growthMetrics,
+  profitabilityMetrics,
+  liquidityMetrics,
+  burnMetrics,
+  valuationMetrics,
+  compareCompanies,
+  periodsFromStatements,
+  METRIC_TYPES,
+  type PeriodData,
+  type CompanyPeriods,
+  type MetricsInput,
+  type MetricsAnalysis,
+  type MetricResult,
+  type MetricType,
+  type MetricUnit,
+} from './metrics-engine.js';
@@ -0,0 +1,553 @@
+/**
+ * Financial metrics engine
+ *
+ * Pure, deterministic calculations over structured period data. Every result
+ * carries the formula and the exact inputs used, so any figure quoted in a
+ * report can be recomputed from the finding's raw data.
+ */
+
+import type { FinancialStatements, PeriodType } from './xbrl-parser.js';
+
+/**
+ * Financial data for one reporting period. All fields are optional; metrics
+ * whose inputs are missing are reported as unavailable rather than guessed.
+ */
+export interface PeriodData {
+  /** Label for the period, e.g. "FY2023" or "2024-Q2" */
+  period: string;
+  periodEnd?: string;
+  /** Length of the period in months (default: 12) */
+  months?: number;
+
+  // Income statement
+  revenue?: number;
+  costOfRevenue?: number;
+  grossProfit?: number;
+  operatingIncome?: number;
+  netIncome?: number;
+  interestExpense?: number;
+  depreciationAndAmortization?: number;
+  ebitda?: number;
+  epsDiluted?: number;
+
+  // Balance sheet
+  cashAndEquivalents?: number;
+  shortTermInvestments?: number;
+  accountsReceivable?: number;
+  inventory?: number;
+  currentAssets?: number;
+  currentLiabilities?: number;
+  shortTermDebt?: number;
+  longTermDebt?: number;
+  totalDebt?: number;
+  totalLiabilities?: number;
+  stockholdersEquity?: number;
+
+  // Cash flow
+  operatingCashFlow?: number;
+  capitalExpenditures?: number;
+
+  // Market data
+  marketCap?: number;
+  enterpriseValue?: number;
+  sharePrice?: number;
+  sharesOutstanding?: number;
+}
+
+export type MetricUnit = 'currency' | 'percent' | 'ratio' | 'multiple' | 'months';
+
+export interface MetricResult {
+  name: string;
+  /** Null when the inputs needed for the metric are missing or invalid */
+  value: number | null;
+  unit: MetricUnit;
+  formula: string;
+  inputs: Record<string, number>;
+  period?: string;
+  company?: string;
+  note?: string;
+}
+
+export type MetricType = 'growth_rate' | 'profitability' | 'liquidity' | 'burn' | 'valuation' | 'comparison';
+
+export const METRIC_TYPES: MetricType[] = ['growth_rate', 'profitability', 'liquidity', 'burn', 'valuation', 'comparison'];
+
+export interface CompanyPeriods {
+  company: string;
+  periods: PeriodData[];
+}
+
+export interface MetricsInput {
+  /** Periods for a single company, in any order */
+  periods?: PeriodData[];
+  /** Multiple companies, for comparison */
+  companies?: CompanyPeriods[];
+}
+
+export interface MetricsAnalysis {
+  metricType: MetricType;
+  metrics: MetricResult[];
+  warnings: string[];
+}
+
+/**
+ * Run all calculations for one analysis type
+ */
+export function analyzeMetrics(metricType: MetricType, input: MetricsInput): MetricsAnalysis {
+  const warnings: string[] = [];
+
+  if (metricType === 'comparison') {
+    const companies = input.companies || [];
+    if (companies.length < 2) {
+      warnings.push('Comparison needs data for at least two companies');
+    }
+    return { metricType, metrics: compareCompanies(companies), warnings };
+  }
+
+  const periods = sortPeriods(input.periods || []);
+  if (periods.length === 0) {
+    warnings.push('No period data provided');
+    return { metricType, metrics: [], warnings };
+  }
+
+  const latest = periods[periods.length - 1];
+  let metrics: MetricResult[];
+
+  switch (metricType) {
+    case 'growth_rate':
+      if (periods.length < 2) warnings.push('Growth rates need at least two periods');
+      metrics = growthMetrics(periods);
+      break;
+    case 'profitability':
+      metrics = periods.flatMap(profitabilityMetrics);
+      break;
+    case 'liquidity':
+      metrics = liquidityMetrics(latest);
+      break;
+    case 'burn':
+      metrics = burnMetrics(latest);
+      break;
+    case 'valuation':
+      metrics = valuationMetrics(latest);
+      break;
+  }
+
+  const missing = metrics.filter(m => m.value === null).map(m => m.name);
+  if (missing.length > 0) {
+    warnings.push(`Insufficient data for: ${Array.from(new Set(missing)).join(', ')}`);
+  }
+
+  return { metricType, metrics, warnings };
+}
+
+/**
+ * Compound annual growth rate between two values, as a fraction
+ */
+export function cagr(startValue: number, endValue: number, years: number): number | null {
+  if (startValue <= 0 || endValue < 0 || years <= 0) return null;
+  return Math.pow(endValue / startValue, 1 / years) - 1;
+}
+
+/**
+ * Year-over-year growth for revenue and net income, plus revenue CAGR
+ */
+export function growthMetrics(periods: PeriodData[]): MetricResult[] {
+  const sorted = sortPeriods(periods);
+  const results: MetricResult[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+
+    for (const field of ['revenue', 'netIncome'] as const) {
+      const before = previous[field];
+      const after = current[field];
+      const inputs = collect({ [`${field}_${previous.period}`]: before, [`${field}_${current.period}`]: after });
+      const valid = before !== undefined && after !== undefined && before !== 0;
+
+      results.push({
+        name: `${field}_growth`,
+        value: valid ? toPercent((after - before) / Math.abs(before)) : null,
+        unit: 'percent',
+        formula: `(${field} ${current.period} - ${field} ${previous.period}) / |${field} ${previous.period}|`,
+        inputs,
+        period: current.period,
+      });
+    }
+  }
+
+  const withRevenue = sorted.filter(p => p.revenue !== undefined);
+  if (withRevenue.length >= 2) {
+    const first = withRevenue[0];
+    const last = withRevenue[withRevenue.length - 1];
+    const years = yearsBetween(first, last, withRevenue.length - 1);
+    const rate = cagr(first.revenue!, last.revenue!, years);
+
+    results.push({
+      name: 'revenue_cagr',
+      value: rate === null ? null : toPercent(rate),
+      unit: 'percent',
+      formula: `(revenue ${last.period} / revenue ${first.period})^(1/${round(years)}) - 1`,
+      inputs: { [`revenue_${first.period}`]: first.revenue!, [`revenue_${last.period}`]: last.revenue!, years: round(years) },
+      period: `${first.period}-${last.period}`,
+      note: rate === null ? 'CAGR is undefined when the starting value is zero or negative' : undefined,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Margins and EBITDA for a period
+ */
+export function profitabilityMetrics(period: PeriodData): MetricResult[] {
+  const { revenue } = period;
+  const grossProfit = period.grossProfit ??
+    (revenue !== undefined && period.costOfRevenue !== undefined ? revenue - period.costOfRevenue : undefined);
+  const ebitda = ebitdaOf(period);
+
+  return [
+    margin('gross_margin', 'grossProfit', grossProfit, revenue, period),
+    margin('operating_margin', 'operatingIncome', period.operatingIncome, revenue, period),
+    margin('net_margin', 'netIncome', period.netIncome, revenue, period),
+    {
+      name: 'ebitda',
+      value: ebitda === undefined ? null : ebitda,
+      unit: 'currency',
+      formula: period.ebitda !== undefined ? 'reported EBITDA' : 'operatingIncome + depreciationAndAmortization',
+      inputs: collect({
+        ebitda: period.ebitda,
+        operatingIncome: period.ebitda === undefined ? period.operatingIncome : undefined,
+        depreciationAndAmortization: period.ebitda === undefined ? period.depreciationAndAmortization : undefined,
+      }),
+      period: period.period,
+    },
+    margin('ebitda_margin', 'ebitda', ebitda, revenue, period),
+  ];
+}
+
+/**
+ * Liquidity and leverage ratios for a balance sheet date
+ */
+export function liquidityMetrics(period: PeriodData): MetricResult[] {
+  const quickAssets = period.cashAndEquivalents !== undefined && period.accountsReceivable !== undefined
+    ? period.cashAndEquivalents + (period.shortTermInvestments || 0) + period.accountsReceivable
+    : period.currentAssets !== undefined && period.inventory !== undefined
+      ? period.currentAssets - period.inventory
+      : undefined;
+  const debt = totalDebtOf(period);
+  const ebitda = ebitdaOf(period);
+
+  return [
+    ratio('current_ratio', 'currentAssets / currentLiabilities', period.currentAssets, period.currentLiabilities, {
+      currentAssets: period.currentAssets,
+      currentLiabilities: period.currentLiabilities,
+    }, period),
+    ratio('quick_ratio', period.accountsReceivable !== undefined
+      ? '(cashAndEquivalents + shortTermInvestments + accountsReceivable) / currentLiabilities'
+      : '(currentAssets - inventory) / currentLiabilities', quickAssets, period.currentLiabilities, {
+      cashAndEquivalents: period.cashAndEquivalents,
+      shortTermInvestments: period.shortTermInvestments,
+      accountsReceivable: period.accountsReceivable,
+      currentAssets: period.accountsReceivable === undefined ? period.currentAssets : undefined,
+      inventory: period.accountsReceivable === undefined ? period.inventory : undefined,
+      currentLiabilities: period.currentLiabilities,
+    }, period),
+    ratio('debt_to_equity', 'totalDebt / stockholdersEquity', debt, positive(period.stockholdersEquity), {
+      totalDebt: debt,
+      stockholdersEquity: period.stockholdersEquity,
+    }, period),
+    ratio('debt_to_ebitda', 'totalDebt / ebitda', debt, positive(ebitda), { totalDebt: debt, ebitda }, period),
+    ratio('interest_coverage', 'operatingIncome / interestExpense', period.operatingIncome, positive(period.interestExpense), {
+      operatingIncome: period.operatingIncome,
+      interestExpense: period.interestExpense,
+    }, period),
+    {
+      name: 'net_debt',
+      value: debt !== undefined && period.cashAndEquivalents !== undefined
+        ? debt - period.cashAndEquivalents - (period.shortTermInvestments || 0)
+        : null,
+      unit: 'currency',
+      formula: 'totalDebt - cashAndEquivalents - shortTermInvestments',
+      inputs: collect({
+        totalDebt: debt,
+        cashAndEquivalents: period.cashAndEquivalents,
+        shortTermInvestments: period.shortTermInvestments,
+      }),
+      period: period.period,
+    },
+  ];
+}
+
+/**
+ * Monthly cash burn and runway. Burn is free cash outflow (operating cash
+ * flow less capital expenditures) spread over the period's months.
+ */
+export function burnMetrics(period: PeriodData): MetricResult[] {
+  const months = period.months || 12;
+  const freeCashFlow = period.operatingCashFlow !== undefined
+    ? period.operatingCashFlow - Math.abs(period.capitalExpenditures || 0)
+    : undefined;
+  const monthlyBurn = freeCashFlow === undefined ? undefined : -freeCashFlow / months;
+  const cash = period.cashAndEquivalents !== undefined
+    ? period.cashAndEquivalents + (period.shortTermInvestments || 0)
+    : undefined;
+
+  const inputs = collect({
+    operatingCashFlow: period.operatingCashFlow,
+    capitalExpenditures: period.capitalExpenditures,
+    months,
+  });
+
+  return [
+    {
+      name: 'monthly_burn_rate',
+      value: monthlyBurn === undefined ? null : round(Math.max(monthlyBurn, 0)),
+      unit: 'currency',
+      formula: '-(operatingCashFlow - |capitalExpenditures|) / months',
+      inputs,
+      period: period.period,
+      note: monthlyBurn !== undefined && monthlyBurn <= 0 ? 'Free cash flow is positive; the company is not burning cash' : undefined,
+    },
+    {
+      name: 'runway_months',
+      value: monthlyBurn !== undefined && monthlyBurn > 0 && cash !== undefined ? round(cash / monthlyBurn) : null,
+      unit: 'months',
+      formula: '(cashAndEquivalents + shortTermInvestments) / monthly_burn_rate',
+      inputs: collect({
+        ...inputs,
+        cashAndEquivalents: period.cashAndEquivalents,
+        shortTermInvestments: period.shortTermInvestments,
+      }),
+      period: period.period,
+      note: monthlyBurn !== undefined && monthlyBurn <= 0 ? 'Runway is unlimited at current cash flow' : undefined,
+    },
+  ];
+}
+
+/**
+ * Valuation multiples. Enterprise value is derived from market cap, debt and
+ * cash when not provided.
+ */
+export function valuationMetrics(period: PeriodData): MetricResult[] {
+  const marketCap = period.marketCap ??
+    (period.sharePrice !== undefined && period.sharesOutstanding !== undefined
+      ? period.sharePrice * period.sharesOutstanding
+      : undefined);
+  const debt = totalDebtOf(period);
+  const enterpriseValue = period.enterpriseValue ??
+    (marketCap !== undefined && debt !== undefined && period.cashAndEquivalents !== undefined
+      ? marketCap + debt - period.cashAndEquivalents
+      : undefined);
+  const ebitda = ebitdaOf(period);
+  const eps = period.epsDiluted ??
+    (period.netIncome !== undefined && period.sharesOutstanding ? period.netIncome / period.sharesOutstanding : undefined);
+
+  return [
+    {
+      name: 'enterprise_value',
+      value: enterpriseValue === undefined ? null : round(enterpriseValue),
+      unit: 'currency',
+      formula: period.enterpriseValue !== undefined ? 'reported enterprise value' : 'marketCap + totalDebt - cashAndEquivalents',
+      inputs: collect({ marketCap, totalDebt: debt, cashAndEquivalents: period.cashAndEquivalents }),
+      period: period.period,
+    },
+    ratio('ev_to_revenue', 'enterpriseValue / revenue', enterpriseValue, positive(period.revenue), {
+      enterpriseValue,
+      revenue: period.revenue,
+    }, period, 'multiple'),
+    ratio('ev_to_ebitda', 'enterpriseValue / ebitda', enterpriseValue, positive(ebitda), {
+      enterpriseValue,
+      ebitda,
+    }, period, 'multiple'),
+    ratio('price_to_sales', 'marketCap / revenue', marketCap, positive(period.revenue), {
+      marketCap,
+      revenue: period.revenue,
+    }, period, 'multiple'),
+    ratio('price_to_earnings', 'sharePrice / epsDiluted', period.sharePrice, positive(eps), {
+      sharePrice: period.sharePrice,
+      epsDiluted: eps,
+    }, period, 'multiple'),
+  ];
+}
+
+/**
+ * Latest-period profitability and revenue growth for each company, side by side
+ */
+export function compareCompanies(companies: CompanyPeriods[]): MetricResult[] {
+  const results: MetricResult[] = [];
+
+  for (const { company, periods } of companies) {
+    const sorted = sortPeriods(periods);
+    if (sorted.length === 0) continue;
+
+    const latest = sorted[sorted.length - 1];
+    const selected = [
+      ...profitabilityMetrics(latest).filter(m => m.name !== 'ebitda'),
+      ...growthMetrics(sorted.slice(-2)).filter(m => m.name === 'revenue_growth'),
+      ...valuationMetrics(latest).filter(m => m.name === 'ev_to_revenue' && m.value !== null),
+    ];
+
+    results.push(
+      {
+        name: 'revenue',
+        value: latest.revenue ?? null,
+        unit: 'currency',
+        formula: 'reported revenue',
+        inputs: collect({ revenue: latest.revenue }),
+        period: latest.period,
+        company,
+      },
+      ...selected.map(metric => ({ ...metric, company }))
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Merge parsed XBRL statements into period data, oldest first
+ */
+export function periodsFromStatements(statements: FinancialStatements, periodType: PeriodType): PeriodData[] {
+  const byEnd = new Map<string, PeriodData>();
+
+  const periodFor = (periodEnd: string, fiscalYear: number, fiscalPeriod: string): PeriodData => {
+    let period = byEnd.get(periodEnd);
+    if (!period) {
+      period = {
+        period: periodType === 'annual' ? `FY${fiscalYear}` : `${fiscalYear}-${fiscalPeriod}`,
+        periodEnd,
+        months: periodType === 'annual' ? 12 : 3,
+      };
+      byEnd.set(periodEnd, period);
+    }
+    return period;
+  };
+
+  for (const statement of statements.incomeStatements.filter(s => s.periodType === periodType)) {
+    Object.assign(periodFor(statement.periodEnd, statement.fiscalYear, statement.fiscalPeriod), {
+      revenue: statement.values.revenue,
+      costOfRevenue: statement.values.costOfRevenue,
+      grossProfit: statement.values.grossProfit,
+      operatingIncome: statement.values.operatingIncome,
+      netIncome: statement.values.netIncome,
+      interestExpense: statement.values.interestExpense,
+      epsDiluted: statement.values.epsDiluted,
+    });
+  }
+
+  for (const sheet of statements.balanceSheets.filter(s => s.periodType === periodType)) {
+    Object.assign(periodFor(sheet.periodEnd, sheet.fiscalYear, sheet.fiscalPeriod), {
+      cashAndEquivalents: sheet.values.cashAndEquivalents,
+      accountsReceivable: sheet.values.accountsReceivable,
+      inventory: sheet.values.inventory,
+      currentAssets: sheet.values.currentAssets,
+      currentLiabilities: sheet.values.currentLiabilities,
+      shortTermDebt: sheet.values.shortTermDebt,
+      longTermDebt: sheet.values.longTermDebt,
+      totalLiabilities: sheet.values.totalLiabilities,
+      stockholdersEquity: sheet.values.stockholdersEquity,
+    });
+  }
+
+  for (const flow of statements.cashFlows.filter(s => s.periodType === periodType)) {
+    Object.assign(periodFor(flow.periodEnd, flow.fiscalYear, flow.fiscalPeriod), {
+      operatingCashFlow: flow.values.operatingCashFlow,
+      capitalExpenditures: flow.values.capitalExpenditures,
+      depreciationAndAmortization: flow.values.depreciationAndAmortization,
+    });
+  }
+
+  // Drop fields with no reported value so missing inputs stay distinguishable
+  return sortPeriods(Array.from(byEnd.values()).map(period =>
+    Object.fromEntries(Object.entries(period).filter(([, value]) => value !== undefined)) as PeriodData
+  ));
+}
+
+function margin(
+  name: string,
+  numeratorName: string,
+  numerator: number | undefined,
+  revenue: number | undefined,
+  period: PeriodData
+): MetricResult {
+  const valid = numerator !== undefined && revenue !== undefined && revenue > 0;
+  return {
+    name,
+    value: valid ? toPercent(numerator / revenue) : null,
+    unit: 'percent',
+    formula: `${numeratorName} / revenue`,
+    inputs: collect({ [numeratorName]: numerator, revenue }),
+    period: period.period,
+  };
+}
+
+function ratio(
+  name: string,
+  formula: string,
+  numerator: number | undefined,
+  denominator: number | undefined,
+  inputs: Record<string, number | undefined>,
+  period: PeriodData,
+  unit: MetricUnit = 'ratio'
+): MetricResult {
+  const valid = numerator !== undefined && denominator !== undefined && denominator !== 0;
+  return {
+    name,
+    value: valid ? round(numerator / denominator) : null,
+    unit,
+    formula,
+    inputs: collect(inputs),
+    period: period.period,
+  };
+}
+
+function ebitdaOf(period: PeriodData): number | undefined {
+  if (period.ebitda !== undefined) return period.ebitda;
+  if (period.operatingIncome === undefined || period.depreciationAndAmortization === undefined) return undefined;
+  return period.operatingIncome + period.depreciationAndAmortization;
+}
+
+function totalDebtOf(period: PeriodData): number | undefined {
+  if (period.totalDebt !== undefined) return period.totalDebt;
+  if (period.shortTermDebt === undefined && period.longTermDebt === undefined) return undefined;
+  return (period.shortTermDebt || 0) + (period.longTermDebt || 0);
+}
+
+function positive(value: number | undefined): number | undefined {
+  return value !== undefined && value > 0 ? value : undefined;
+}
+
+/**
+ * Years between the first and last period, from period end dates when
+ * available, otherwise one year per step
+ */
+function yearsBetween(first: PeriodData, last: PeriodData, steps: number): number {
+  if (first.periodEnd && last.periodEnd) {
+    const days = (Date.parse(last.periodEnd) - Date.parse(first.periodEnd)) / 86_400_000;
+    if (days > 0) return Math.round((days / 365.25) * 100) / 100;
+  }
+  return steps * ((first.months || 12) / 12);
+}
+
+function sortPeriods(periods: PeriodData[]): PeriodData[] {
+  return [...periods].sort((a, b) =>
+    (a.periodEnd || a.period).localeCompare(b.periodEnd || b.period)
+  );
+}
+
+function collect(values: Record<string, number | undefined>): Record<string, number> {
+  const inputs: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) inputs[key] = value;
+  }
+  return inputs;
+}
+
+function toPercent(fraction: number): number {
+  return round(fraction * 100);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,309 @@
+/**
+ * XBRL company facts parsing
+ *
+ * Turns the SEC "companyfacts" document (every XBRL fact a registrant has
+ * filed, grouped by taxonomy and concept) into typed income statement,
+ * balance sheet and cash flow series.
+ */
+
+/**
+ * Raw shape of https://data.sec.gov/api/xbrl/companyfacts/CIK##########.json
+ */
+export interface CompanyFacts {
+  cik: number;
+  entityName: string;
+  facts: Record<string, Record<string, {
+    label?: string;
+    description?: string;
+    units: Record<string, Array<{
+      start?: string;
+      end: string;
+      val: number;
+      accn: string;
+      fy: number;
+      fp: string;
+      form: string;
+      filed: string;
+      frame?: string;
+    }>>;
+  }>>;
+}
+
+export type IncomeStatementLine =
+  | 'revenue'
+  | 'costOfRevenue'
+  | 'grossProfit'
+  | 'researchAndDevelopment'
+  | 'sellingGeneralAdministrative'
+  | 'operatingExpenses'
+  | 'operatingIncome'
+  | 'interestExpense'
+  | 'incomeTaxExpense'
+  | 'netIncome'
+  | 'epsBasic'
+  | 'epsDiluted';
+
+export type BalanceSheetLine =
+  | 'cashAndEquivalents'
+  | 'accountsReceivable'
+  | 'inventory'
+  | 'currentAssets'
+  | 'totalAssets'
+  | 'currentLiabilities'
+  | 'shortTermDebt'
+  | 'longTermDebt'
+  | 'totalLiabilities'
+  | 'stockholdersEquity';
+
+export type CashFlowLine =
+  | 'operatingCashFlow'
+  | 'investingCashFlow'
+  | 'financingCashFlow'
+  | 'capitalExpenditures'
+  | 'depreciationAndAmortization'
+  | 'shareBasedCompensation'
+  | 'dividendsPaid';
+
+export type PeriodType = 'annual' | 'quarterly';
+
+/**
+ * One reporting period of a statement. Values are in the reporting currency
+ * except EPS, which is per share.
+ */
+export interface StatementPeriod<L extends string> {
+  periodType: PeriodType;
+  /** Start of the reporting period (duration statements only) */
+  periodStart?: string;
+  periodEnd: string;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  /** Form, filing date and accession of the filing the values were taken from */
+  form: string;
+  filed: string;
+  accessionNumber: string;
+  values: Partial<Record<L, number>>;
+}
+
+export interface FinancialStatements {
+  cik: string;
+  entityName: string;
+  currency: string;
+  incomeStatements: StatementPeriod<IncomeStatementLine>[];
+  balanceSheets: StatementPeriod<BalanceSheetLine>[];
+  cashFlows: StatementPeriod<CashFlowLine>[];
+}
+
+// US-GAAP concepts for each line item, in order of preference
+const INCOME_STATEMENT_CONCEPTS: Record<IncomeStatementLine, string[]> = {
+  revenue: [
+    'Revenues',
+    'RevenueFromContractWithCustomerExcludingAssessedTax',
+    'RevenueFromContractWithCustomerIncludingAssessedTax',
+    'SalesRevenueNet',
+    'SalesRevenueGoodsNet',
+    'SalesRevenueServicesNet',
+  ],
+  costOfRevenue: ['CostOfRevenue', 'CostOfGoodsAndServicesSold', 'CostOfGoodsSold', 'CostOfServices'],
+  grossProfit: ['GrossProfit'],
+  researchAndDevelopment: ['ResearchAndDevelopmentExpense'],
+  sellingGeneralAdministrative: ['SellingGeneralAndAdministrativeExpense'],
+  operatingExpenses: ['OperatingExpenses', 'CostsAndExpenses'],
+  operatingIncome: ['OperatingIncomeLoss'],
+  interestExpense: ['InterestExpense', 'InterestExpenseDebt'],
+  incomeTaxExpense: ['IncomeTaxExpenseBenefit'],
+  netIncome: ['NetIncomeLoss', 'ProfitLoss', 'NetIncomeLossAvailableToCommonStockholdersBasic'],
+  epsBasic: ['EarningsPerShareBasic'],
+  epsDiluted: ['EarningsPerShareDiluted'],
+};
+
+const BALANCE_SHEET_CONCEPTS: Record<BalanceSheetLine, string[]> = {
+  cashAndEquivalents: [
+    'CashAndCashEquivalentsAtCarryingValue',
+    'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents',
+    'Cash',
+  ],
+  accountsReceivable: ['AccountsReceivableNetCurrent'],
+  inventory: ['InventoryNet'],
+  currentAssets: ['AssetsCurrent'],
+  totalAssets: ['Assets'],
+  currentLiabilities: ['LiabilitiesCurrent'],
+  shortTermDebt: ['LongTermDebtCurrent', 'DebtCurrent', 'ShortTermBorrowings'],
+  longTermDebt: ['LongTermDebtNoncurrent', 'LongTermDebt'],
+  totalLiabilities: ['Liabilities'],
+  stockholdersEquity: [
+    'StockholdersEquity',
+    'StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest',
+  ],
+};
+
+const CASH_FLOW_CONCEPTS: Record<CashFlowLine, string[]> = {
+  operatingCashFlow: [
+    'NetCashProvidedByUsedInOperatingActivities',
+    'NetCashProvidedByUsedInOperatingActivitiesContinuingOperations',
+  ],
+  investingCashFlow: [
+    'NetCashProvidedByUsedInInvestingActivities',
+    'NetCashProvidedByUsedInInvestingActivitiesContinuingOperations',
+  ],
+  financingCashFlow: [
+    'NetCashProvidedByUsedInFinancingActivities',
+    'NetCashProvidedByUsedInFinancingActivitiesContinuingOperations',
+  ],
+  capitalExpenditures: ['PaymentsToAcquirePropertyPlantAndEquipment', 'PaymentsToAcquireProductiveAssets'],
+  depreciationAndAmortization: ['DepreciationDepletionAndAmortization', 'DepreciationAndAmortization', 'Depreciation'],
+  shareBasedCompensation: ['ShareBasedCompensation', 'AllocatedShareBasedCompensationExpense'],
+  dividendsPaid: ['PaymentsOfDividends', 'PaymentsOfDividendsCommonStock'],
+};
+
+type RawFact = CompanyFacts['facts'][string][string]['units'][string][number];
+
+interface PeriodFact {
+  fact: RawFact;
+  /** Earliest filing that reported this period, where fy/fp describe the period itself */
+  original: RawFact;
+}
+
+/**
+ * Parse a companyfacts document into typed statement series, newest first
+ */
+export function parseCompanyFacts(companyFacts: CompanyFacts): FinancialStatements {
+  const gaap = companyFacts.facts['us-gaap'] || {};
+  const currency = detectCurrency(gaap);
+
+  return {
+    cik: String(companyFacts.cik).padStart(10, '0'),
+    entityName: companyFacts.entityName,
+    currency,
+    incomeStatements: [
+      ...buildStatements(gaap, INCOME_STATEMENT_CONCEPTS, currency, 'annual', 'duration'),
+      ...buildStatements(gaap, INCOME_STATEMENT_CONCEPTS, currency, 'quarterly', 'duration'),
+    ],
+    balanceSheets: [
+      ...buildStatements(gaap, BALANCE_SHEET_CONCEPTS, currency, 'annual', 'instant'),
+      ...buildStatements(gaap, BALANCE_SHEET_CONCEPTS, currency, 'quarterly', 'instant'),
+    ],
+    cashFlows: buildStatements(gaap, CASH_FLOW_CONCEPTS, currency, 'annual', 'duration'),
+  };
+}
+
+/**
+ * Select the most recent periods of a given type from parsed statements
+ */
+export function latestPeriods<L extends string>(
+  periods: StatementPeriod<L>[],
+  periodType: PeriodType,
+  count: number
+): StatementPeriod<L>[] {
+  return periods.filter(p => p.periodType === periodType).slice(0, count);
+}
+
+function buildStatements<L extends string>(
+  gaap: CompanyFacts['facts'][string],
+  concepts: Record<L, string[]>,
+  currency: string,
+  periodType: PeriodType,
+  kind: 'duration' | 'instant'
+): StatementPeriod<L>[] {
+  const periods = new Map<string, StatementPeriod<L>>();
+
+  for (const [line, candidates] of Object.entries(concepts) as Array<[L, string[]]>) {
+    // Track which concept supplied each period so a preferred concept is never overwritten
+    const filled = new Set<string>();
+
+    for (const concept of candidates) {
+      const units = gaap[concept]?.units;
+      if (!units) continue;
+
+      const facts = units[currency] || units[`${currency}/shares`] || [];
+      for (const { fact, original } of selectPeriodFacts(facts, periodType, kind)) {
+        const key = `${fact.start || ''}:${fact.end}`;
+        if (filled.has(key)) continue;
+        filled.add(key);
+
+        let period = periods.get(key);
+        if (!period) {
+          period = {
+            periodType,
+            periodStart: fact.start,
+            periodEnd: fact.end,
+            fiscalYear: original.fy,
+            fiscalPeriod: original.fp,
+            form: fact.form,
+            filed: fact.filed,
+            accessionNumber: fact.accn,
+            values: {},
+          };
+          periods.set(key, period);
+        }
+        period.values[line] = fact.val;
+      }
+    }
+  }
+
+  return Array.from(periods.values()).sort((a, b) => b.periodEnd.localeCompare(a.periodEnd));
+}
+
+/**
+ * Pick one fact per reporting period. Later filings may restate a period,
+ * so the latest value wins, while fiscal year/period labels come from the
+ * filing that first reported it.
+ */
+function selectPeriodFacts(facts: RawFact[], periodType: PeriodType, kind: 'duration' | 'instant'): PeriodFact[] {
+  const byPeriod = new Map<string, PeriodFact>();
+
+  for (const fact of facts) {
+    if (!isPeriodMatch(fact, periodType, kind)) continue;
+
+    const key = `${fact.start || ''}:${fact.end}`;
+    const current = byPeriod.get(key);
+    if (!current) {
+      byPeriod.set(key, { fact, original: fact });
+      continue;
+    }
+    if (fact.filed > current.fact.filed) current.fact = fact;
+    if (fact.filed < current.original.filed) current.original = fact;
+  }
+
+  return Array.from(byPeriod.values());
+}
+
+function isPeriodMatch(fact: RawFact, periodType: PeriodType, kind: 'duration' | 'instant'): boolean {
+  const annualForm = /^(10-K|20-F|40-F)/.test(fact.form);
+  const quarterlyForm = /^10-Q/.test(fact.form);
+
+  if (kind === 'instant') {
+    if (fact.start) return false;
+    return periodType === 'annual' ? annualForm && fact.fp === 'FY' : quarterlyForm;
+  }
+
+  if (!fact.start) return false;
+  const days = (Date.parse(fact.end) - Date.parse(fact.start)) / 86_400_000;
+
+  return periodType === 'annual'
+    ? (annualForm || quarterlyForm) && days >= 350 && days <= 380
+    : (annualForm || quarterlyForm) && days >= 80 && days <= 100;
+}
+
+/**
+ * The reporting currency is the unit used by the most monetary facts
+ */
+function detectCurrency(gaap: CompanyFacts['facts'][string]): string {
+  const counts = new Map<string, number>();
+  for (const concept of Object.values(gaap)) {
+    for (const [unit, facts] of Object.entries(concept.units)) {
+      if (/^[A-Z]{3}$/.test(unit)) {
+        counts.set(unit, (counts.get(unit) || 0) + facts.length);
+      }
+    }
+  }
+
+  let best = 'USD';
+  let bestCount = 0;
+  for (const [unit, count] of counts) {
+    if (count > bestCount) {
+      best = unit;
+      bestCount = count;
+    }
+  }
+  return best;
+}
@@ -4,3 +4,9 @@ export * from './types/index.js';
 export * from './memory/index.js';
 export * from './agents/index.js';
 export * from './workflow/index.js';
+export * from './search/index.js';
+export * from './fetcher/index.js';
+export * from './financial/index.js';
+export * from './usage/index.js';
+export * from './llm/index.js';
+export * from './report/index.js';
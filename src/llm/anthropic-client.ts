@@ -0,0 +1,55 @@
+import Anthropic from '@anthropic-ai/sdk';
+import AnthropicVertex from '@anthropic-ai/vertex-sdk';
+import type { GCPCredentials } from '../agents/base-agent.js';
+import type { LLMCallOptions, LLMClient } from './llm-client.js';
+
+/**
+ * Live client for the Anthropic API, or Claude on Vertex AI when GCP
+ * credentials are provided. SDK retries are disabled; BaseAgent retries.
+ */
+export class AnthropicLLMClient implements LLMClient {
+  private client: Anthropic | AnthropicVertex;
+  private gcpCredentials?: GCPCredentials;
+
+  constructor(config: { gcpCredentials?: GCPCredentials; apiKey?: string } = {}) {
+    this.gcpCredentials = config.gcpCredentials ? { ...config.gcpCredentials } : undefined;
+
+    if (this.gcpCredentials) {
+      this.client = this.createVertexClient(this.gcpCredentials);
+    } else {
+      // Fallback for local development without GCP
+      this.client = new Anthropic({
+        apiKey: config.apiKey,
+        maxRetries: 0,
+      });
+    }
+  }
+
+  get name(): string {
+    return this.gcpCredentials ? 'vertex' : 'anthropic';
+  }
+
+  async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: LLMCallOptions = {}
+  ): Promise<Anthropic.Message> {
+    return await this.client.messages.create(params, { timeout: options.timeoutMs, signal: options.signal }) as Anthropic.Message;
+  }
+
+  updateCredentials(accessToken: string): void {
+    if (this.gcpCredentials) {
+      this.gcpCredentials.accessToken = accessToken;
+      // Recreate Vertex AI client with new token
+      this.client = this.createVertexClient(this.gcpCredentials);
+    }
+  }
+
+  private createVertexClient(credentials: GCPCredentials): AnthropicVertex {
+    return new AnthropicVertex({
+      projectId: credentials.projectId,
+      region: credentials.region,
+      accessToken: credentials.accessToken,
+      maxRetries: 0,
+    });
+  }
+}
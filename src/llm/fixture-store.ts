@@ -0,0 +1,31 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * A recorded model exchange. Responses are kept in call order so a request
+ * made more than once in a run replays each answer in turn.
+ */
+export interface LLMFixture {
+  hash: string;
+  model: string;
+  recordedAt: string;
+  /** Normalized request, for inspection */
+  request: unknown;
+  responses: Anthropic.Message[];
+}
+
+export function fixturePath(fixturesDir: string, hash: string): string {
+  return join(fixturesDir, `${hash}.json`);
+}
+
+export function readFixture(fixturesDir: string, hash: string): LLMFixture | null {
+  const path = fixturePath(fixturesDir, hash);
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf-8')) as LLMFixture;
+}
+
+export function writeFixture(fixturesDir: string, fixture: LLMFixture): void {
+  mkdirSync(fixturesDir, { recursive: true });
+  writeFileSync(fixturePath(fixturesDir, fixture.hash), JSON.stringify(fixture, null, 2));
+}
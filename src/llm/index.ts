@@ -0,0 +1,25 @@
+export {
+  withRetry,
+  classifyError,
+  backoffDelay,
+  retryConfigFromEnv,
+  LLMCallError,
+  DEFAULT_RETRY_OPTIONS,
+  type ErrorClassification,
+  type LLMErrorType,
+  type RetryAttempt,
+  type RetryOptions,
+} from './retry.js';
+export {
+  createLLMClient,
+  llmConfigFromEnv,
+  type LLMCallOptions,
+  type LLMClient,
+  type LLMClientConfig,
+  type LLMMode,
+} from './llm-client.js';
+export { AnthropicLLMClient } from './anthropic-client.js';
+export { RecordingLLMClient } from './recording-client.js';
+export { ReplayLLMClient, FixtureNotFoundError } from './replay-client.js';
+export { normalizeRequest, applyPlaceholders, restorePlaceholders, type NormalizedRequest } from './request-hash.js';
+export { readFixture, writeFixture, fixturePath, type LLMFixture } from './fixture-store.js';
@@ -0,0 +1,66 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { GCPCredentials } from '../agents/base-agent.js';
+import { AnthropicLLMClient } from './anthropic-client.js';
+import { RecordingLLMClient } from './recording-client.js';
+import { ReplayLLMClient } from './replay-client.js';
+
+export interface LLMCallOptions {
+  timeoutMs?: number;
+  /** Aborts the call, e.g. when the project is paused or cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Model client used by agents. Implementations wrap the Anthropic and
+ * Vertex AI SDKs, or record and replay their traffic.
+ */
+export interface LLMClient {
+  readonly name: string;
+  createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options?: LLMCallOptions
+  ): Promise<Anthropic.Message>;
+  /** Refresh credentials (e.g. a renewed GCP access token), where supported */
+  updateCredentials?(accessToken: string): void;
+}
+
+/**
+ * - live: call the API
+ * - record: call the API and save each request/response pair as a fixture
+ * - replay: answer from fixtures only, with no network access
+ */
+export type LLMMode = 'live' | 'record' | 'replay';
+
+export interface LLMClientConfig {
+  mode: LLMMode;
+  /** Fixture directory for record and replay modes */
+  fixturesDir: string;
+  /** Use Vertex AI with these credentials; otherwise the direct API */
+  gcpCredentials?: GCPCredentials;
+  apiKey?: string;
+}
+
+export function createLLMClient(config: LLMClientConfig): LLMClient {
+  switch (config.mode) {
+    case 'replay':
+      return new ReplayLLMClient(config.fixturesDir);
+    case 'record':
+      return new RecordingLLMClient(
+        new AnthropicLLMClient({ gcpCredentials: config.gcpCredentials, apiKey: config.apiKey }),
+        config.fixturesDir
+      );
+    case 'live':
+      return new AnthropicLLMClient({ gcpCredentials: config.gcpCredentials, apiKey: config.apiKey });
+    default:
+      throw new Error(`Unknown LLM mode: ${config.mode as string}`);
+  }
+}
+
+export function llmConfigFromEnv(gcpCredentials?: GCPCredentials): LLMClientConfig {
+  return {
+    mode: (process.env.LLM_MODE || 'live') as LLMMode,
+    fixturesDir: process.env.LLM_FIXTURES_DIR || './data/llm-fixtures',
+    gcpCredentials,
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  };
+}
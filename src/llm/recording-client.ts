@@ -0,0 +1,42 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { LLMCallOptions, LLMClient } from './llm-client.js';
+import { applyPlaceholders, normalizeRequest } from './request-hash.js';
+import { readFixture, writeFixture } from './fixture-store.js';
+
+/**
+ * Passes requests to a live client and saves each request/response pair
+ * as a fixture for ReplayLLMClient
+ */
+export class RecordingLLMClient implements LLMClient {
+  readonly name = 'record';
+  private calls = new Map<string, number>();
+
+  constructor(private inner: LLMClient, private fixturesDir: string) {}
+
+  async createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options?: LLMCallOptions
+  ): Promise<Anthropic.Message> {
+    const response = await this.inner.createMessage(params, options);
+    const { hash, request, placeholders } = normalizeRequest(params);
+
+    // The first call in a run replaces any earlier recording
+    const call = this.calls.get(hash) || 0;
+    this.calls.set(hash, call + 1);
+    const responses = call === 0 ? [] : readFixture(this.fixturesDir, hash)?.responses || [];
+
+    writeFixture(this.fixturesDir, {
+      hash,
+      model: params.model,
+      recordedAt: new Date().toISOString(),
+      request,
+      responses: [...responses, applyPlaceholders(response, placeholders)],
+    });
+
+    return response;
+  }
+
+  updateCredentials(accessToken: string): void {
+    this.inner.updateCredentials?.(accessToken);
+  }
+}
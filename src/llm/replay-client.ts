@@ -0,0 +1,40 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { LLMCallOptions, LLMClient } from './llm-client.js';
+import { normalizeRequest, restorePlaceholders } from './request-hash.js';
+import { fixturePath, readFixture } from './fixture-store.js';
+
+/**
+ * Raised in replay mode when no fixture matches a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly hash: string, public readonly path: string) {
+    super(`No recorded LLM response for request ${hash} (expected ${path}). Re-record with LLM_MODE=record.`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Answers requests from recorded fixtures without network access
+ */
+export class ReplayLLMClient implements LLMClient {
+  readonly name = 'replay';
+  private calls = new Map<string, number>();
+
+  constructor(private fixturesDir: string) {}
+
+  async createMessage(params: Anthropic.MessageCreateParamsNonStreaming, options: LLMCallOptions = {}): Promise<Anthropic.Message> {
+    options.signal?.throwIfAborted();
+    const { hash, placeholders } = normalizeRequest(params);
+    const fixture = readFixture(this.fixturesDir, hash);
+    if (!fixture || fixture.responses.length === 0) {
+      throw new FixtureNotFoundError(hash, fixturePath(this.fixturesDir, hash));
+    }
+
+    // Replay responses in recorded order, repeating the last once exhausted
+    const call = this.calls.get(hash) || 0;
+    this.calls.set(hash, call + 1);
+    const response = fixture.responses[Math.min(call, fixture.responses.length - 1)];
+
+    return restorePlaceholders(response, placeholders);
+  }
+}
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import type Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * A request with run-specific values (UUIDs, timestamps) replaced by
+ * positional placeholders, so the same logical request hashes identically
+ * across runs
+ */
+export interface NormalizedRequest {
+  hash: string;
+  request: unknown;
+  /** Placeholder -> value in this run */
+  placeholders: Record<string, string>;
+}
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g;
+const PLACEHOLDER_PATTERN = /<<(uuid|ts):\d+>>/g;
+
+// Fields that identify the request; transport options are excluded
+const HASHED_FIELDS = ['model', 'system', 'messages', 'tools', 'tool_choice', 'max_tokens', 'temperature'] as const;
+
+export function normalizeRequest(params: Anthropic.MessageCreateParamsNonStreaming): NormalizedRequest {
+  const placeholders: Record<string, string> = {};
+  const byValue = new Map<string, string>();
+  const counters = { uuid: 0, ts: 0 };
+
+  const placeholderFor = (kind: 'uuid' | 'ts', value: string): string => {
+    const key = kind === 'uuid' ? value.toLowerCase() : value;
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      placeholder = `<<${kind}:${++counters[kind]}>>`;
+      byValue.set(key, placeholder);
+      placeholders[placeholder] = value;
+    }
+    return placeholder;
+  };
+
+  const picked: Record<string, unknown> = {};
+  for (const field of HASHED_FIELDS) {
+    if (params[field] !== undefined) picked[field] = params[field];
+  }
+
+  const request = mapStrings(picked, value =>
+    value
+      .replace(UUID_PATTERN, match => placeholderFor('uuid', match))
+      .replace(TIMESTAMP_PATTERN, match => placeholderFor('ts', match))
+  );
+
+  const hash = createHash('sha256').update(stableStringify(request)).digest('hex').slice(0, 32);
+  return { hash, request, placeholders };
+}
+
+/**
+ * Replace this run's values in a response with the request's placeholders
+ */
+export function applyPlaceholders<T>(value: T, placeholders: Record<string, string>): T {
+  const entries = Object.entries(placeholders).sort((a, b) => b[1].length - a[1].length);
+  if (entries.length === 0) return value;
+
+  return mapStrings(value, text => {
+    let result = text;
+    for (const [placeholder, original] of entries) {
+      result = result.split(original).join(placeholder);
+    }
+    return result;
+  });
+}
+
+/**
+ * Replace placeholders in a recorded response with this run's values
+ */
+export function restorePlaceholders<T>(value: T, placeholders: Record<string, string>): T {
+  return mapStrings(value, text =>
+    text.replace(PLACEHOLDER_PATTERN, match => placeholders[match] ?? match)
+  );
+}
+
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn)) as T;
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = mapStrings(item, fn);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => (value as Record<string, unknown>)[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,205 @@
+import type { ResearchError } from '../types/index.js';
+
+export type LLMErrorType = Extract<ResearchError['type'], 'rate_limit' | 'timeout' | 'api_error' | 'validation' | 'internal'>;
+
+export interface ErrorClassification {
+  type: LLMErrorType;
+  /** The call may succeed if retried */
+  retryable: boolean;
+  /** The task can be retried later (e.g. on resume) without changes */
+  recoverable: boolean;
+  status?: number;
+  /** Server-requested wait before retrying */
+  retryAfterMs?: number;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+}
+
+export interface RetryAttempt {
+  /** Attempt that failed, starting at 1 */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  errorType: LLMErrorType;
+  status?: number;
+  message: string;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 120000,
+};
+
+// Upper bound on honoring a server retry-after header
+const MAX_RETRY_AFTER_MS = 120000;
+
+/**
+ * Error raised when a model call fails after all retries
+ */
+export class LLMCallError extends Error {
+  constructor(
+    message: string,
+    public readonly type: LLMErrorType,
+    public readonly recoverable: boolean,
+    public readonly attempts: number,
+    public readonly status?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'LLMCallError';
+  }
+}
+
+export function retryConfigFromEnv(): RetryOptions {
+  return {
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || String(DEFAULT_RETRY_OPTIONS.maxRetries), 10),
+    baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || String(DEFAULT_RETRY_OPTIONS.baseDelayMs), 10),
+    maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || String(DEFAULT_RETRY_OPTIONS.maxDelayMs), 10),
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || String(DEFAULT_RETRY_OPTIONS.timeoutMs), 10),
+  };
+}
+
+/**
+ * Classify a model API error. Works on SDK errors by shape (status,
+ * headers, name) so any client that mirrors them is handled the same way.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof LLMCallError) {
+    return { type: error.type, retryable: false, recoverable: error.recoverable, status: error.status };
+  }
+
+  const err = error as { status?: unknown; name?: string; message?: string; headers?: unknown; code?: string };
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+  const name = err?.name || '';
+
+  if (name === 'APIConnectionTimeoutError' || name === 'TimeoutError' || err?.code === 'ETIMEDOUT' || /timed? ?out/i.test(err?.message || '')) {
+    return { type: 'timeout', retryable: true, recoverable: true };
+  }
+
+  if (status === undefined) {
+    if (name === 'APIUserAbortError' || name === 'AbortError') {
+      return { type: 'internal', retryable: false, recoverable: true };
+    }
+    if (name === 'APIConnectionError' || ['ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'ENOTFOUND'].includes(err?.code || '')) {
+      return { type: 'api_error', retryable: true, recoverable: true };
+    }
+    return { type: 'internal', retryable: false, recoverable: false };
+  }
+
+  const retryAfterMs = parseRetryAfter(err.headers);
+
+  if (status === 429) {
+    return { type: 'rate_limit', retryable: true, recoverable: true, status, retryAfterMs };
+  }
+  // 529 is Anthropic's "overloaded"; 408/409 are transient as well
+  if (status === 529 || status >= 500 || status === 408 || status === 409) {
+    return { type: 'api_error', retryable: true, recoverable: true, status, retryAfterMs };
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return { type: 'validation', retryable: false, recoverable: false, status };
+  }
+
+  // Authentication, permission and not-found errors need a configuration change
+  return { type: 'api_error', retryable: false, recoverable: false, status };
+}
+
+/**
+ * Run a model call, retrying transient failures with jittered exponential
+ * backoff. Each attempt receives the per-attempt timeout to apply. Once the
+ * signal is aborted no further attempts are made.
+ */
+export async function withRetry<T>(
+  call: (timeoutMs: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (attempt: RetryAttempt) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await call(options.timeoutMs);
+    } catch (error) {
+      const classification = classifyError(error);
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (!classification.retryable || attempt > options.maxRetries || signal?.aborted) {
+        throw new LLMCallError(
+          attempt > 1 ? `${message} (after ${attempt} attempts)` : message,
+          classification.type,
+          classification.recoverable,
+          attempt,
+          classification.status,
+          error
+        );
+      }
+
+      const delayMs = backoffDelay(attempt, options, classification.retryAfterMs);
+      onRetry?.({
+        attempt,
+        maxRetries: options.maxRetries,
+        delayMs,
+        errorType: classification.type,
+        status: classification.status,
+        message,
+      });
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Wait for a delay, ending early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Delay before the next attempt: the server's retry-after when given,
+ * otherwise exponential backoff with jitter between 50% and 100%
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  }
+
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+function parseRetryAfter(headers: unknown): number | undefined {
+  const get = (name: string): string | null | undefined => {
+    if (!headers) return undefined;
+    if (typeof (headers as Headers).get === 'function') return (headers as Headers).get(name);
+    return (headers as Record<string, string | undefined>)[name];
+  };
+
+  const ms = get('retry-after-ms');
+  if (ms && !isNaN(Number(ms))) return Number(ms);
+
+  const value = get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
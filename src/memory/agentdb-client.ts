@@ -1,6 +1,56 @@
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import type { MemoryEntry, ResearchFinding, Source, SharedContext, KeyQuestion } from '../types/index.js';
+import type {
+  MemoryEntry,
+  PlanTask,
+  QuestionAnswer,
+  ResearchProject,
+  ResearchFinding,
+  Source,
+  SharedContext,
+  KeyQuestion,
+  TokenUsage,
+  WorkflowPhase,
+} from '../types/index.js';
+import {
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  rankBySimilarity,
+  type EmbeddingProvider,
+} from './embedding-provider.js';
+
+type MemoryRow = {
+  id: string;
+  project_id: string;
+  agent_id: string;
+  type: string;
+  content: string;
+  metadata: string;
+  embedding: Buffer | null;
+  embedding_model: string | null;
+  created_at: string;
+  expires_at: string | null;
+};
+
+type FindingRow = {
+  id: string;
+  project_id: string;
+  question_id: string;
+  agent_id: string;
+  agent_type: string;
+  category: string;
+  title: string;
+  content: string;
+  summary: string;
+  confidence: string;
+  sources: string;
+  related_findings: string;
+  metadata: string;
+  embedding: Buffer | null;
+  embedding_model: string | null;
+  created_at: string;
+  updated_at: string;
+};
 
 /**
  * AgentDB Client - Provides shared memory across agents using SQLite with vector search
@@ -14,11 +64,14 @@ import type { MemoryEntry, ResearchFinding, Source, SharedContext, KeyQuestion }
 export class AgentDBClient {
   private db: Database.Database;
   private dimension: number;
+  private embeddings: EmbeddingProvider;
 
-  constructor(dbPath: string, dimension: number = 1536) {
+  constructor(dbPath: string, dimension: number = 1536, embeddings?: EmbeddingProvider) {
     this.dimension = dimension;
+    this.embeddings = embeddings || createEmbeddingProvider(embeddingConfigFromEnv(dimension));
     this.db = new Database(dbPath);
     this.initializeSchema();
+    this.migrateSchema();
   }
 
   private initializeSchema(): void {
@@ -31,6 +84,9 @@ export class AgentDBClient {
         target_company TEXT NOT NULL,
         status TEXT NOT NULL DEFAULT 'pending',
         scoping_document TEXT NOT NULL,
+        checkpoint TEXT,
+        owner TEXT,
+        state TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
       );
@@ -44,6 +100,7 @@ export class AgentDBClient {
         content TEXT NOT NULL,
         metadata TEXT,
         embedding BLOB,
+        embedding_model TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         expires_at TEXT,
         FOREIGN KEY (project_id) REFERENCES projects(id)
@@ -65,6 +122,7 @@ export class AgentDBClient {
         related_findings TEXT,
         metadata TEXT,
         embedding BLOB,
+        embedding_model TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         updated_at TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (project_id) REFERENCES projects(id)
@@ -98,6 +156,12 @@ export class AgentDBClient {
         error TEXT,
         started_at TEXT,
         completed_at TEXT,
+        model TEXT,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
         FOREIGN KEY (project_id) REFERENCES projects(id)
       );
 
@@ -113,6 +177,44 @@ export class AgentDBClient {
         FOREIGN KEY (project_id) REFERENCES projects(id)
       );
 
+      -- Research plan tasks, checkpointed so a paused project resumes unfinished work
+      CREATE TABLE IF NOT EXISTS project_tasks (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        agent_type TEXT NOT NULL,
+        question_id TEXT,
+        question TEXT,
+        additional_context TEXT,
+        priority INTEGER NOT NULL,
+        dependencies TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'pending',
+        reason TEXT,
+        started_at TEXT,
+        completed_at TEXT,
+        round INTEGER NOT NULL DEFAULT 1,
+        gaps TEXT,
+        agent_id TEXT,
+        position INTEGER NOT NULL,
+        FOREIGN KEY (project_id) REFERENCES projects(id)
+      );
+
+      -- Synthesized answers to key questions, one per question
+      CREATE TABLE IF NOT EXISTS question_answers (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL,
+        question_id TEXT NOT NULL,
+        question TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        status TEXT NOT NULL,
+        confidence TEXT NOT NULL,
+        supporting_findings TEXT NOT NULL DEFAULT '[]',
+        contradicting_findings TEXT NOT NULL DEFAULT '[]',
+        gaps TEXT NOT NULL DEFAULT '[]',
+        synthesized_at TEXT NOT NULL,
+        UNIQUE (project_id, question_id),
+        FOREIGN KEY (project_id) REFERENCES projects(id)
+      );
+
       -- Create indexes for faster queries
       CREATE INDEX IF NOT EXISTS idx_memory_project ON memory_entries(project_id);
       CREATE INDEX IF NOT EXISTS idx_memory_agent ON memory_entries(agent_id);
@@ -122,19 +224,50 @@ export class AgentDBClient {
       CREATE INDEX IF NOT EXISTS idx_sources_project ON sources(project_id);
       CREATE INDEX IF NOT EXISTS idx_tasks_project ON agent_tasks(project_id);
       CREATE INDEX IF NOT EXISTS idx_tasks_agent ON agent_tasks(agent_id);
+      CREATE INDEX IF NOT EXISTS idx_project_tasks_project ON project_tasks(project_id);
     `);
   }
 
+  /**
+   * Bring databases created by earlier versions up to the current schema
+   */
+  private migrateSchema(): void {
+    this.addMissingColumns('agent_tasks', {
+      model: 'TEXT',
+      input_tokens: 'INTEGER NOT NULL DEFAULT 0',
+      output_tokens: 'INTEGER NOT NULL DEFAULT 0',
+      cache_creation_tokens: 'INTEGER NOT NULL DEFAULT 0',
+      cache_read_tokens: 'INTEGER NOT NULL DEFAULT 0',
+      cost_usd: 'REAL NOT NULL DEFAULT 0',
+    });
+    this.addMissingColumns('memory_entries', { embedding_model: 'TEXT' });
+    this.addMissingColumns('findings', { embedding_model: 'TEXT' });
+    this.addMissingColumns('projects', { checkpoint: 'TEXT', owner: 'TEXT', state: 'TEXT' });
+    this.addMissingColumns('project_tasks', { round: 'INTEGER NOT NULL DEFAULT 1', gaps: 'TEXT', agent_id: 'TEXT' });
+  }
+
+  private addMissingColumns(table: string, columns: Record<string, string>): void {
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name)
+    );
+
+    for (const [name, definition] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+      }
+    }
+  }
+
   // ============================================================================
   // Project Operations
   // ============================================================================
 
-  createProject(id: string, name: string, targetCompany: string, scopingDocument: object): void {
+  createProject(id: string, name: string, targetCompany: string, scopingDocument: object, owner?: string): void {
     const stmt = this.db.prepare(`
-      INSERT INTO projects (id, name, target_company, scoping_document, created_at, updated_at)
-      VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      INSERT INTO projects (id, name, target_company, scoping_document, owner, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
     `);
-    stmt.run(id, name, targetCompany, JSON.stringify(scopingDocument));
+    stmt.run(id, name, targetCompany, JSON.stringify(scopingDocument), owner ?? null);
 
     // Initialize shared context
     const contextStmt = this.db.prepare(`
@@ -157,6 +290,188 @@ export class AgentDBClient {
     return stmt.get(projectId) as { id: string; name: string; target_company: string; status: string; scoping_document: string } | null;
   }
 
+  /**
+   * Store a project's full in-memory state. Findings are not included, as
+   * they are stored on their own.
+   */
+  saveProjectState(project: ResearchProject): void {
+    const { findings, ...state } = project;
+    const stmt = this.db.prepare(`
+      UPDATE projects SET status = ?, state = ?, updated_at = datetime('now') WHERE id = ?
+    `);
+    stmt.run(project.status, JSON.stringify(state), project.id);
+  }
+
+  /**
+   * Projects with stored state belonging to an owner (the GCP project that
+   * created them), oldest first, with their current findings
+   */
+  getProjectStates(owner?: string): ResearchProject[] {
+    const stmt = this.db.prepare(`
+      SELECT id, state FROM projects WHERE state IS NOT NULL AND owner IS ? ORDER BY created_at
+    `);
+    const rows = stmt.all(owner ?? null) as Array<{ id: string; state: string }>;
+
+    return rows.map(row => ({
+      ...(JSON.parse(row.state) as Omit<ResearchProject, 'findings'>),
+      findings: this.getFindings(row.id),
+    }));
+  }
+
+  /**
+   * A project's stored state, whichever owner it belongs to
+   */
+  getProjectState(projectId: string): ResearchProject | null {
+    const stmt = this.db.prepare('SELECT state FROM projects WHERE id = ? AND state IS NOT NULL');
+    const row = stmt.get(projectId) as { state: string } | undefined;
+    if (!row) return null;
+
+    return {
+      ...(JSON.parse(row.state) as Omit<ResearchProject, 'findings'>),
+      findings: this.getFindings(projectId),
+    };
+  }
+
+  /**
+   * Record the last workflow phase a project completed
+   */
+  setProjectCheckpoint(projectId: string, phase: WorkflowPhase): void {
+    const stmt = this.db.prepare(`
+      UPDATE projects SET checkpoint = ?, updated_at = datetime('now') WHERE id = ?
+    `);
+    stmt.run(phase, projectId);
+  }
+
+  getProjectCheckpoint(projectId: string): WorkflowPhase | null {
+    const stmt = this.db.prepare('SELECT checkpoint FROM projects WHERE id = ?');
+    const row = stmt.get(projectId) as { checkpoint: string | null } | undefined;
+    return (row?.checkpoint as WorkflowPhase | null) ?? null;
+  }
+
+  // ============================================================================
+  // Research Plan Operations
+  // ============================================================================
+
+  /**
+   * Store a project's research plan, replacing any earlier plan
+   */
+  savePlan(projectId: string, tasks: PlanTask[]): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM project_tasks WHERE project_id = ?').run(projectId);
+      this.addPlanTasks(projectId, tasks);
+    })();
+  }
+
+  /**
+   * Append tasks, such as a new research round, to a project's plan
+   */
+  addPlanTasks(projectId: string, tasks: PlanTask[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO project_tasks (
+        id, project_id, agent_type, question_id, question, additional_context,
+        priority, dependencies, status, reason, started_at, completed_at, round, gaps, agent_id, position
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const { next } = this.db.prepare(
+      'SELECT COALESCE(MAX(position) + 1, 0) AS next FROM project_tasks WHERE project_id = ?'
+    ).get(projectId) as { next: number };
+
+    this.db.transaction(() => {
+      tasks.forEach((task, index) => {
+        insert.run(
+          task.id,
+          projectId,
+          task.agentType,
+          task.questionId || null,
+          task.question || null,
+          task.additionalContext || null,
+          task.priority,
+          JSON.stringify(task.dependencies),
+          task.status,
+          task.reason || null,
+          task.startedAt || null,
+          task.completedAt || null,
+          task.round,
+          task.gaps ? JSON.stringify(task.gaps) : null,
+          task.agentId || null,
+          next + index
+        );
+      });
+    })();
+  }
+
+  /**
+   * Remove tasks from a project's plan
+   */
+  removePlanTasks(projectId: string, taskIds: string[]): void {
+    const stmt = this.db.prepare('DELETE FROM project_tasks WHERE project_id = ? AND id = ?');
+    this.db.transaction(() => {
+      for (const taskId of taskIds) {
+        stmt.run(projectId, taskId);
+      }
+    })();
+  }
+
+  updatePlanTask(taskId: string, updates: Pick<PlanTask, 'status' | 'reason' | 'startedAt' | 'completedAt'>): void {
+    const stmt = this.db.prepare(`
+      UPDATE project_tasks SET status = ?, reason = ?, started_at = ?, completed_at = ? WHERE id = ?
+    `);
+    stmt.run(updates.status, updates.reason || null, updates.startedAt || null, updates.completedAt || null, taskId);
+  }
+
+  /**
+   * Record the gaps a plan task reported
+   */
+  setPlanTaskGaps(taskId: string, gaps: string[]): void {
+    const stmt = this.db.prepare('UPDATE project_tasks SET gaps = ? WHERE id = ?');
+    stmt.run(JSON.stringify(gaps), taskId);
+  }
+
+  /**
+   * Record the agent running a plan task, whose findings carry its ID
+   */
+  setPlanTaskAgent(taskId: string, agentId: string): void {
+    const stmt = this.db.prepare('UPDATE project_tasks SET agent_id = ? WHERE id = ?');
+    stmt.run(agentId, taskId);
+  }
+
+  getPlan(projectId: string): PlanTask[] {
+    const stmt = this.db.prepare('SELECT * FROM project_tasks WHERE project_id = ? ORDER BY position');
+    const rows = stmt.all(projectId) as Array<{
+      id: string;
+      agent_type: string;
+      question_id: string | null;
+      question: string | null;
+      additional_context: string | null;
+      priority: number;
+      dependencies: string;
+      status: string;
+      reason: string | null;
+      started_at: string | null;
+      completed_at: string | null;
+      round: number;
+      gaps: string | null;
+      agent_id: string | null;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      agentType: row.agent_type,
+      questionId: row.question_id || undefined,
+      question: row.question || undefined,
+      additionalContext: row.additional_context || undefined,
+      priority: row.priority,
+      dependencies: JSON.parse(row.dependencies),
+      status: row.status as PlanTask['status'],
+      reason: row.reason || undefined,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+      round: row.round,
+      gaps: row.gaps ? JSON.parse(row.gaps) : undefined,
+      agentId: row.agent_id || undefined,
+    }));
+  }
+
   // ============================================================================
   // Memory Operations
   // ============================================================================
@@ -164,8 +479,8 @@ export class AgentDBClient {
   storeMemory(entry: Omit<MemoryEntry, 'createdAt'>): string {
     const id = entry.id || uuidv4();
     const stmt = this.db.prepare(`
-      INSERT INTO memory_entries (id, project_id, agent_id, type, content, metadata, embedding, expires_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO memory_entries (id, project_id, agent_id, type, content, metadata, embedding, embedding_model, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       id,
@@ -174,7 +489,8 @@ export class AgentDBClient {
       entry.type,
       entry.content,
       JSON.stringify(entry.metadata),
-      entry.embedding ? Buffer.from(new Float32Array(entry.embedding).buffer) : null,
+      encodeEmbedding(entry.embedding || this.embeddings.embed(entry.content)),
+      entry.embedding ? null : this.embeddings.name,
       entry.expiresAt || null
     );
     return id;
@@ -193,31 +509,57 @@ export class AgentDBClient {
       params.push(type);
     }
 
-    query += ' ORDER BY created_at DESC';
+    query += ' ORDER BY created_at DESC, rowid DESC';
     const stmt = this.db.prepare(query);
-    const rows = stmt.all(...params) as Array<{
-      id: string;
-      project_id: string;
-      agent_id: string;
-      type: string;
-      content: string;
-      metadata: string;
-      embedding: Buffer | null;
-      created_at: string;
-      expires_at: string | null;
-    }>;
+    const rows = stmt.all(...params) as MemoryRow[];
 
-    return rows.map(row => ({
+    return rows.map(row => this.toMemoryEntry(row));
+  }
+
+  /**
+   * Memories most similar to a query, highest cosine similarity first
+   */
+  searchMemories(projectId: string, query: string, k: number = 10, type?: string): Array<{ memory: MemoryEntry; score: number }> {
+    let sql = 'SELECT * FROM memory_entries WHERE project_id = ?';
+    const params: string[] = [projectId];
+    if (type) {
+      sql += ' AND type = ?';
+      params.push(type);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as MemoryRow[];
+    const candidates = rows.map(row => ({
+      item: row,
+      vector: this.ensureEmbedding('memory_entries', row, row.content),
+    }));
+
+    return rankBySimilarity(this.embeddings.embed(query), candidates, k, this.embeddings.idfWeighted)
+      .map(({ item, score }) => ({ memory: this.toMemoryEntry(item), score }));
+  }
+
+  private toMemoryEntry(row: MemoryRow): MemoryEntry {
+    return {
       id: row.id,
       projectId: row.project_id,
       agentId: row.agent_id,
       type: row.type as MemoryEntry['type'],
       content: row.content,
       metadata: JSON.parse(row.metadata || '{}'),
-      embedding: row.embedding ? Array.from(new Float32Array(row.embedding.buffer)) : undefined,
+      embedding: decodeEmbedding(row.embedding),
       createdAt: row.created_at,
       expiresAt: row.expires_at || undefined,
-    }));
+    };
+  }
+
+  /**
+   * Merge fields into a memory entry's metadata
+   */
+  updateMemoryMetadata(memoryId: string, metadata: Record<string, unknown>): void {
+    const row = this.db.prepare('SELECT metadata FROM memory_entries WHERE id = ?').get(memoryId) as { metadata: string } | undefined;
+    if (!row) return;
+
+    this.db.prepare('UPDATE memory_entries SET metadata = ? WHERE id = ?')
+      .run(JSON.stringify({ ...JSON.parse(row.metadata || '{}'), ...metadata }), memoryId);
   }
 
   // ============================================================================
@@ -229,8 +571,8 @@ export class AgentDBClient {
     const stmt = this.db.prepare(`
       INSERT INTO findings (
         id, project_id, question_id, agent_id, agent_type, category,
-        title, content, summary, confidence, sources, related_findings, metadata, embedding
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        title, content, summary, confidence, sources, related_findings, metadata, embedding, embedding_model
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       id,
@@ -246,12 +588,17 @@ export class AgentDBClient {
       JSON.stringify(finding.sources),
       JSON.stringify(finding.relatedFindings),
       JSON.stringify(finding.metadata || {}),
-      finding.embedding ? Buffer.from(new Float32Array(finding.embedding).buffer) : null
+      encodeEmbedding(finding.embedding || this.embeddings.embed(findingText(finding))),
+      finding.embedding ? null : this.embeddings.name
     );
     return id;
   }
 
-  getFindings(projectId: string, questionId?: string): ResearchFinding[] {
+  /**
+   * Get a project's findings, newest first. Findings merged into a canonical
+   * finding are left out unless includeSuperseded is set.
+   */
+  getFindings(projectId: string, questionId?: string, options: { includeSuperseded?: boolean } = {}): ResearchFinding[] {
     let query = 'SELECT * FROM findings WHERE project_id = ?';
     const params: string[] = [projectId];
 
@@ -259,29 +606,67 @@ export class AgentDBClient {
       query += ' AND question_id = ?';
       params.push(questionId);
     }
+    if (!options.includeSuperseded) {
+      query += ` AND json_extract(metadata, '$.supersededBy') IS NULL`;
+    }
 
-    query += ' ORDER BY created_at DESC';
+    // created_at has one-second resolution; rowid orders rows written in the same second
+    query += ' ORDER BY created_at DESC, rowid DESC';
     const stmt = this.db.prepare(query);
-    const rows = stmt.all(...params) as Array<{
-      id: string;
-      project_id: string;
-      question_id: string;
-      agent_id: string;
-      agent_type: string;
-      category: string;
-      title: string;
-      content: string;
-      summary: string;
-      confidence: string;
-      sources: string;
-      related_findings: string;
-      metadata: string;
-      embedding: Buffer | null;
-      created_at: string;
-      updated_at: string;
-    }>;
+    const rows = stmt.all(...params) as FindingRow[];
 
-    return rows.map(row => ({
+    return rows.map(row => this.toFinding(row));
+  }
+
+  /**
+   * Findings most similar to a query, highest cosine similarity first.
+   * Findings stored without an embedding, or embedded by a different
+   * provider, are embedded on first search.
+   */
+  searchFindings(
+    projectId: string,
+    query: string,
+    k: number = 10,
+    filter: { questionId?: string; agentTypes?: string[] } = {}
+  ): Array<{ finding: ResearchFinding; score: number }> {
+    let sql = `SELECT * FROM findings WHERE project_id = ? AND json_extract(metadata, '$.supersededBy') IS NULL`;
+    const params: string[] = [projectId];
+    if (filter.questionId) {
+      sql += ' AND question_id = ?';
+      params.push(filter.questionId);
+    }
+    if (filter.agentTypes && filter.agentTypes.length > 0) {
+      sql += ` AND agent_type IN (${filter.agentTypes.map(() => '?').join(', ')})`;
+      params.push(...filter.agentTypes);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as FindingRow[];
+    const candidates = rows.map(row => ({
+      item: row,
+      vector: this.ensureEmbedding('findings', row, findingText(row)),
+    }));
+
+    return rankBySimilarity(this.embeddings.embed(query), candidates, k, this.embeddings.idfWeighted)
+      .map(({ item, score }) => ({ finding: this.toFinding(item), score }));
+  }
+
+  /**
+   * Merge fields into a finding's metadata
+   */
+  updateFindingMetadata(findingId: string, metadata: Partial<ResearchFinding['metadata']>): void {
+    const row = this.db.prepare('SELECT metadata FROM findings WHERE id = ?').get(findingId) as { metadata: string } | undefined;
+    if (!row) return;
+
+    this.db.prepare(`UPDATE findings SET metadata = ?, updated_at = datetime('now') WHERE id = ?`)
+      .run(JSON.stringify({ ...JSON.parse(row.metadata || '{}'), ...metadata }), findingId);
+  }
+
+  get embeddingProvider(): EmbeddingProvider {
+    return this.embeddings;
+  }
+
+  private toFinding(row: FindingRow): ResearchFinding {
+    return {
       id: row.id,
       projectId: row.project_id,
       questionId: row.question_id,
@@ -299,8 +684,30 @@ export class AgentDBClient {
         discoveredAt: row.created_at,
         lastUpdated: row.updated_at,
       },
-      embedding: row.embedding ? Array.from(new Float32Array(row.embedding.buffer)) : undefined,
-    }));
+      embedding: decodeEmbedding(row.embedding),
+    };
+  }
+
+  /**
+   * A row's embedding in the current provider's space, recomputing and
+   * saving it when missing or produced by another provider
+   */
+  private ensureEmbedding(
+    table: 'findings' | 'memory_entries',
+    row: { id: string; embedding: Buffer | null; embedding_model: string | null },
+    text: string
+  ): number[] {
+    const stored = decodeEmbedding(row.embedding);
+    if (stored && row.embedding_model === this.embeddings.name) {
+      return stored;
+    }
+
+    const embedding = this.embeddings.embed(text);
+    row.embedding = encodeEmbedding(embedding);
+    row.embedding_model = this.embeddings.name;
+    this.db.prepare(`UPDATE ${table} SET embedding = ?, embedding_model = ? WHERE id = ?`)
+      .run(row.embedding, row.embedding_model, row.id);
+    return embedding;
   }
 
   // ============================================================================
@@ -332,7 +739,7 @@ export class AgentDBClient {
   }
 
   getSources(projectId: string): Source[] {
-    const stmt = this.db.prepare('SELECT * FROM sources WHERE project_id = ? ORDER BY relevance_score DESC');
+    const stmt = this.db.prepare('SELECT * FROM sources WHERE project_id = ? ORDER BY relevance_score DESC, rowid');
     const rows = stmt.all(projectId) as Array<{
       id: string;
       type: string;
@@ -360,6 +767,80 @@ export class AgentDBClient {
     }));
   }
 
+  /**
+   * Get the extracted text stored for a source when its page was fetched
+   */
+  getSourceContent(projectId: string, sourceId: string): string | null {
+    const stmt = this.db.prepare(`
+      SELECT content FROM memory_entries
+      WHERE project_id = ? AND type = 'source' AND json_extract(metadata, '$.sourceId') = ?
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(projectId, sourceId) as { content: string } | undefined;
+    return row ? row.content : null;
+  }
+
+  // ============================================================================
+  // Question Answer Operations
+  // ============================================================================
+
+  /**
+   * Store the answer to a key question, replacing any earlier answer
+   */
+  storeQuestionAnswer(answer: QuestionAnswer): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO question_answers (
+        id, project_id, question_id, question, answer, status, confidence,
+        supporting_findings, contradicting_findings, gaps, synthesized_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      answer.id,
+      answer.projectId,
+      answer.questionId,
+      answer.question,
+      answer.answer,
+      answer.status,
+      answer.confidence,
+      JSON.stringify(answer.supportingFindingIds),
+      JSON.stringify(answer.contradictingFindingIds),
+      JSON.stringify(answer.gaps),
+      answer.synthesizedAt
+    );
+  }
+
+  getQuestionAnswers(projectId: string): QuestionAnswer[] {
+    const stmt = this.db.prepare('SELECT * FROM question_answers WHERE project_id = ? ORDER BY synthesized_at');
+    const rows = stmt.all(projectId) as Array<{
+      id: string;
+      project_id: string;
+      question_id: string;
+      question: string;
+      answer: string;
+      status: string;
+      confidence: string;
+      supporting_findings: string;
+      contradicting_findings: string;
+      gaps: string;
+      synthesized_at: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      projectId: row.project_id,
+      questionId: row.question_id,
+      question: row.question,
+      answer: row.answer,
+      status: row.status as QuestionAnswer['status'],
+      confidence: row.confidence as QuestionAnswer['confidence'],
+      supportingFindingIds: JSON.parse(row.supporting_findings),
+      contradictingFindingIds: JSON.parse(row.contradicting_findings),
+      gaps: JSON.parse(row.gaps),
+      synthesizedAt: row.synthesized_at,
+    }));
+  }
+
   // ============================================================================
   // Shared Context Operations
   // ============================================================================
@@ -451,7 +932,7 @@ export class AgentDBClient {
 
   updateTaskStatus(
     taskId: string,
-    status: 'pending' | 'in_progress' | 'completed' | 'failed',
+    status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'interrupted',
     result?: string,
     error?: string
   ): void {
@@ -461,7 +942,7 @@ export class AgentDBClient {
     if (status === 'in_progress') {
       updates.push("started_at = datetime('now')");
     }
-    if (status === 'completed' || status === 'failed') {
+    if (status === 'completed' || status === 'failed' || status === 'interrupted') {
       updates.push("completed_at = datetime('now')");
     }
     if (result !== undefined) {
@@ -478,6 +959,95 @@ export class AgentDBClient {
     stmt.run(...params);
   }
 
+  /**
+   * Mark a project's in-progress tasks interrupted, for tasks whose process
+   * stopped before they could report back
+   */
+  interruptRunningTasks(projectId: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE agent_tasks SET status = 'interrupted', completed_at = datetime('now')
+      WHERE project_id = ? AND status = 'in_progress'
+    `);
+    stmt.run(projectId);
+  }
+
+  /**
+   * Record the model and token usage of a task
+   */
+  recordTaskUsage(taskId: string, model: string, usage: TokenUsage): void {
+    const stmt = this.db.prepare(`
+      UPDATE agent_tasks SET
+        model = ?,
+        input_tokens = ?,
+        output_tokens = ?,
+        cache_creation_tokens = ?,
+        cache_read_tokens = ?,
+        cost_usd = ?
+      WHERE id = ?
+    `);
+    stmt.run(
+      model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cacheCreationInputTokens,
+      usage.cacheReadInputTokens,
+      usage.costUsd,
+      taskId
+    );
+  }
+
+  /**
+   * Total token usage and cost of a project, overall and per agent type
+   */
+  getProjectUsage(projectId: string): { total: TokenUsage; byAgentType: Record<string, TokenUsage> } {
+    const stmt = this.db.prepare(`
+      SELECT
+        agent_type,
+        COUNT(*) AS tasks,
+        SUM(input_tokens) AS input_tokens,
+        SUM(output_tokens) AS output_tokens,
+        SUM(cache_creation_tokens) AS cache_creation_tokens,
+        SUM(cache_read_tokens) AS cache_read_tokens,
+        SUM(cost_usd) AS cost_usd
+      FROM agent_tasks
+      WHERE project_id = ?
+      GROUP BY agent_type
+    `);
+    const rows = stmt.all(projectId) as Array<{
+      agent_type: string;
+      tasks: number;
+      input_tokens: number;
+      output_tokens: number;
+      cache_creation_tokens: number;
+      cache_read_tokens: number;
+      cost_usd: number;
+    }>;
+
+    const toUsage = (row: Omit<typeof rows[number], 'agent_type' | 'tasks'>): TokenUsage => ({
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheCreationInputTokens: row.cache_creation_tokens,
+      cacheReadInputTokens: row.cache_read_tokens,
+      totalTokens: row.input_tokens + row.output_tokens + row.cache_creation_tokens + row.cache_read_tokens,
+      costUsd: row.cost_usd,
+      // Request counts are not persisted per task
+      requests: 0,
+    });
+
+    const byAgentType: Record<string, TokenUsage> = {};
+    const total = { input_tokens: 0, output_tokens: 0, cache_creation_tokens: 0, cache_read_tokens: 0, cost_usd: 0 };
+    for (const row of rows) {
+      byAgentType[row.agent_type] = toUsage(row);
+      total.input_tokens += row.input_tokens;
+      total.output_tokens += row.output_tokens;
+      total.cache_creation_tokens += row.cache_creation_tokens;
+      total.cache_read_tokens += row.cache_read_tokens;
+      total.cost_usd += row.cost_usd;
+    }
+
+    return { total: toUsage(total), byAgentType };
+  }
+
   getAgentTasks(projectId: string, agentId?: string): Array<{
     id: string;
     projectId: string;
@@ -489,6 +1059,12 @@ export class AgentDBClient {
     error: string | null;
     startedAt: string | null;
     completedAt: string | null;
+    model: string | null;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    costUsd: number;
   }> {
     let query = 'SELECT * FROM agent_tasks WHERE project_id = ?';
     const params: string[] = [projectId];
@@ -510,6 +1086,12 @@ export class AgentDBClient {
       error: string | null;
       started_at: string | null;
       completed_at: string | null;
+      model: string | null;
+      input_tokens: number;
+      output_tokens: number;
+      cache_creation_tokens: number;
+      cache_read_tokens: number;
+      cost_usd: number;
     }>;
 
     return rows.map(row => ({
@@ -523,6 +1105,12 @@ export class AgentDBClient {
       error: row.error,
       startedAt: row.started_at,
       completedAt: row.completed_at,
+      model: row.model,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheCreationTokens: row.cache_creation_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      costUsd: row.cost_usd,
     }));
   }
 
@@ -543,6 +1131,20 @@ export class AgentDBClient {
   }
 }
 
+function findingText(finding: { title: string; summary: string; content: string }): string {
+  return `${finding.title}\n${finding.summary}\n${finding.content}`;
+}
+
+function encodeEmbedding(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function decodeEmbedding(blob: Buffer | null): number[] | undefined {
+  if (!blob) return undefined;
+  // Copy so the view is aligned regardless of the blob's offset in its buffer
+  return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+}
+
 // Singleton instance for shared access
 let instance: AgentDBClient | null = null;
 
@@ -0,0 +1,151 @@
+/**
+ * Turns text into fixed-length vectors for similarity search. Providers are
+ * synchronous, matching the synchronous AgentDB API that stores the vectors.
+ */
+export interface EmbeddingProvider {
+  /** Identifies the vector space; stored vectors from another provider are recomputed */
+  readonly name: string;
+  readonly dimension: number;
+  embed(text: string): number[];
+  /**
+   * Vectors hold raw term weights, so search should apply inverse document
+   * frequency across the searched set
+   */
+  readonly idfWeighted?: boolean;
+}
+
+export type EmbeddingProviderType = 'local';
+
+export interface EmbeddingProviderConfig {
+  provider?: EmbeddingProviderType;
+  dimension: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'which', 'with',
+]);
+
+/**
+ * Dependency-free embeddings: hashed term-frequency vectors (the hashing
+ * trick), with IDF applied at search time. Matches on shared vocabulary
+ * rather than meaning, but needs no model or network access.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly idfWeighted = true;
+
+  constructor(readonly dimension: number = 1536) {}
+
+  get name(): string {
+    return `local-hashed-tf-${this.dimension}`;
+  }
+
+  embed(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [term, count] of counts) {
+      const hash = fnv1a(term);
+      // The top hash bit picks the sign so collisions tend to cancel out
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimension] += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  const provider = config.provider || 'local';
+
+  switch (provider) {
+    case 'local':
+      return new LocalEmbeddingProvider(config.dimension);
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
+
+export function embeddingConfigFromEnv(dimension: number): EmbeddingProviderConfig {
+  return {
+    provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderType | undefined,
+    dimension,
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Rank items by cosine similarity to a query vector, highest first
+ */
+export function rankBySimilarity<T>(
+  query: number[],
+  candidates: Array<{ item: T; vector: number[] }>,
+  k: number,
+  idfWeighted = false
+): Array<{ item: T; score: number }> {
+  const weights = idfWeighted ? idfWeights(candidates.map(c => c.vector), query.length) : null;
+  const weigh = (vector: number[]) => (weights ? vector.map((value, i) => value * weights[i]) : vector);
+  const weightedQuery = weigh(query);
+
+  return candidates
+    .map(candidate => ({ item: candidate.item, score: cosineSimilarity(weightedQuery, weigh(candidate.vector)) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+/**
+ * Cosine similarity between every pair of vectors
+ */
+export function similarityMatrix(vectors: number[][], idfWeighted = false): number[][] {
+  const dimension = vectors[0]?.length || 0;
+  const weights = idfWeighted ? idfWeights(vectors, dimension) : null;
+  const weighted = weights ? vectors.map(vector => vector.map((value, i) => value * weights[i])) : vectors;
+
+  return weighted.map((a, i) => weighted.map((b, j) => (i === j ? 1 : cosineSimilarity(a, b))));
+}
+
+function idfWeights(vectors: number[][], dimension: number): number[] {
+  const documentFrequency = new Array<number>(dimension).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < dimension; i++) {
+      if (vector[i] !== 0) documentFrequency[i]++;
+    }
+  }
+  return documentFrequency.map(df => Math.log((1 + vectors.length) / (1 + df)) + 1);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
@@ -1 +1,12 @@
 export { AgentDBClient, getAgentDB, closeAgentDB } from './agentdb-client.js';
+export {
+  LocalEmbeddingProvider,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  rankBySimilarity,
+  similarityMatrix,
+  type EmbeddingProvider,
+  type EmbeddingProviderConfig,
+  type EmbeddingProviderType,
+} from './embedding-provider.js';
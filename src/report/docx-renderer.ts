@@ -0,0 +1,239 @@
+import type { ResearchReport } from '../types/index.js';
+import { buildReportDocument, type ReportRenderOptions } from './report-document.js';
+import { parseInline, type InlineRun, type ReportBlock } from './markdown.js';
+import {
+  XML_DECLARATION,
+  REL_TYPES,
+  PROPERTIES_CONTENT_TYPES,
+  contentTypesXml,
+  escapeXml,
+  packageParts,
+  relationshipsXml,
+  type Relationship,
+} from './ooxml.js';
+import { buildZip } from './zip-writer.js';
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// A4 with 2 cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const MARGIN = 1134;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Title for level 1, then Heading1-3
+const HEADING_STYLES = ['Title', 'Heading1', 'Heading2', 'Heading3'];
+
+const BULLET_NUM_ID = 1;
+
+const LINK_PATTERN = /^(https?:|mailto:)/i;
+
+/**
+ * Word document state while writing the body: hyperlink relationships and
+ * a numbering instance per ordered list, so each restarts at 1
+ */
+class DocxBody {
+  private parts: string[] = [];
+  readonly links: Relationship[] = [];
+  orderedLists = 0;
+
+  add(xml: string): void {
+    this.parts.push(xml);
+  }
+
+  toXml(): string {
+    return this.parts.join('');
+  }
+
+  runs(text: string, base: { bold?: boolean } = {}): string {
+    return parseInline(text)
+      .map(run => {
+        const xml = runXml(run, base);
+        if (!run.href || !LINK_PATTERN.test(run.href)) return xml;
+        const id = `rIdLink${this.links.length + 1}`;
+        this.links.push({ id, type: REL_TYPES.hyperlink, target: run.href, external: true });
+        return `<w:hyperlink r:id="${id}">${xml}</w:hyperlink>`;
+      })
+      .join('');
+  }
+}
+
+/**
+ * Render a report as a Word document with styled headings, tables and
+ * numbered lists, so the sources read as a numbered bibliography
+ */
+export function renderDocx(report: ResearchReport, options: ReportRenderOptions = {}): Buffer {
+  const body = new DocxBody();
+
+  for (const block of buildReportDocument(report, options)) {
+    writeBlock(body, block);
+  }
+
+  const document = `${XML_DECLARATION}<w:document ${WORD_NAMESPACES}><w:body>${body.toXml()}` +
+    '<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/>' +
+    `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+    `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="567" w:footer="567" w:gutter="0"/>` +
+    '</w:sectPr></w:body></w:document>';
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      data: contentTypesXml({
+        '/word/document.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+        '/word/styles.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml',
+        '/word/numbering.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml',
+        '/word/footer1.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+        ...PROPERTIES_CONTENT_TYPES,
+      }),
+    },
+    ...packageParts('word/document.xml', report.title),
+    { name: 'word/document.xml', data: document },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: relationshipsXml([
+        { id: 'rIdStyles', type: REL_TYPES.styles, target: 'styles.xml' },
+        { id: 'rIdNumbering', type: REL_TYPES.numbering, target: 'numbering.xml' },
+        { id: 'rIdFooter', type: REL_TYPES.footer, target: 'footer1.xml' },
+        ...body.links,
+      ]),
+    },
+    { name: 'word/styles.xml', data: STYLES },
+    { name: 'word/numbering.xml', data: numberingXml(body.orderedLists) },
+    { name: 'word/footer1.xml', data: footerXml(report.title) },
+  ]);
+}
+
+function writeBlock(body: DocxBody, block: ReportBlock): void {
+  switch (block.type) {
+    case 'heading': {
+      const style = HEADING_STYLES[Math.min(block.level, HEADING_STYLES.length) - 1];
+      body.add(paragraphXml(style, body.runs(block.text)));
+      break;
+    }
+    case 'paragraph':
+      body.add(paragraphXml('Normal', body.runs(block.text)));
+      break;
+    case 'note':
+      body.add(paragraphXml('Note', body.runs(block.text)));
+      break;
+    case 'list': {
+      const numId = block.ordered ? BULLET_NUM_ID + ++body.orderedLists : BULLET_NUM_ID;
+      for (const item of block.items) {
+        body.add(paragraphXml('ListParagraph', body.runs(item), numId));
+      }
+      break;
+    }
+    case 'table':
+      body.add(tableXml(body, block.headers, block.rows));
+      // Keeps the next table or the section end from joining this one
+      body.add('<w:p/>');
+      break;
+  }
+}
+
+function paragraphXml(style: string, runs: string, numId?: number): string {
+  const numbering = numId ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>` : '';
+  return `<w:p><w:pPr><w:pStyle w:val="${style}"/>${numbering}</w:pPr>${runs}</w:p>`;
+}
+
+function runXml(run: InlineRun, base: { bold?: boolean }): string {
+  const properties = [
+    run.href ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    run.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+    run.bold || base.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+}
+
+/**
+ * A full-width table whose header row repeats on each page. Columns are
+ * sized by the length of their text.
+ */
+function tableXml(body: DocxBody, headers: string[], rows: string[][]): string {
+  const weights = headers.map((header, column) =>
+    Math.min(Math.max(header.length, ...rows.map(row => (row[column] || '').length)), 60) + 6
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => Math.floor((weight / totalWeight) * TEXT_WIDTH));
+
+  const cell = (text: string, column: number, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${widths[column]}" w:type="dxa"/>` +
+    (header ? '<w:shd w:val="clear" w:color="auto" w:fill="E7ECF3"/>' : '') +
+    `</w:tcPr><w:p><w:pPr><w:pStyle w:val="TableText"/></w:pPr>${body.runs(text, { bold: header })}</w:p></w:tc>`;
+
+  return '<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/>' +
+    '<w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr>' +
+    `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${headers.map((header, column) => cell(header, column, true)).join('')}</w:tr>` +
+    rows.map(row => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${headers.map((_, column) => cell(row[column] || '', column, false)).join('')}</w:tr>`).join('') +
+    '</w:tbl>';
+}
+
+/**
+ * One bullet list definition and one numbered list instance per ordered
+ * list in the document
+ */
+function numberingXml(orderedLists: number): string {
+  const level = (format: string, text: string) =>
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+    '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>';
+
+  const instances = Array.from({ length: orderedLists }, (_, index) =>
+    `<w:num w:numId="${BULLET_NUM_ID + index + 1}"><w:abstractNumId w:val="1"/>` +
+    '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>'
+  ).join('');
+
+  return `${XML_DECLARATION}<w:numbering ${WORD_NAMESPACES}>` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>${level('bullet', '•')}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/>${level('decimal', '%1.')}</w:abstractNum>` +
+    `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${instances}` +
+    '</w:numbering>';
+}
+
+function footerXml(title: string): string {
+  return `${XML_DECLARATION}<w:ftr ${WORD_NAMESPACES}><w:p><w:pPr><w:pStyle w:val="Footer"/>` +
+    `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs></w:pPr>` +
+    `<w:r><w:t xml:space="preserve">${escapeXml(title)}</w:t></w:r><w:r><w:tab/><w:t xml:space="preserve">Page </w:t></w:r>` +
+    '<w:fldSimple w:instr=" PAGE "><w:r><w:t>1</w:t></w:r></w:fldSimple>' +
+    '<w:r><w:t xml:space="preserve"> of </w:t></w:r>' +
+    '<w:fldSimple w:instr=" NUMPAGES "><w:r><w:t>1</w:t></w:r></w:fldSimple></w:p></w:ftr>';
+}
+
+const heading = (id: string, name: string, size: number, outline: number, spacingBefore: number) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="${spacingBefore}" w:after="120"/><w:outlineLvl w:val="${outline}"/></w:pPr>` +
+  `<w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `${XML_DECLARATION}<w:styles ${WORD_NAMESPACES}>` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+  '<w:color w:val="1F2937"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="1F3864"/></w:pBdr><w:spacing w:after="160"/></w:pPr>' +
+  '<w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="44"/><w:szCs w:val="44"/></w:rPr></w:style>' +
+  heading('Heading1', 'heading 1', 32, 0, 360) +
+  heading('Heading2', 'heading 2', 26, 1, 240) +
+  heading('Heading3', 'heading 3', 23, 2, 200) +
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Note"><w:name w:val="Note"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="F59E0B"/></w:pBdr>' +
+  '<w:shd w:val="clear" w:color="auto" w:fill="FFF8E1"/><w:ind w:left="170"/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:color w:val="6B7280"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr></w:style>' +
+  '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>' +
+  '<w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/>' +
+  '<w:tblPr><w:tblBorders>' +
+  ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="C9CED6"/>`)
+    .join('') +
+  '</w:tblBorders><w:tblCellMar><w:top w:w="40" w:type="dxa"/><w:left w:w="90" w:type="dxa"/>' +
+  '<w:bottom w:w="40" w:type="dxa"/><w:right w:w="90" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '</w:styles>';
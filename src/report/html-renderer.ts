@@ -0,0 +1,93 @@
+import type { ResearchReport } from '../types/index.js';
+import { parseInline, type ReportBlock } from './markdown.js';
+import { buildReportDocument, type ReportRenderOptions } from './report-document.js';
+
+const STYLES = `
+  body { margin: 0; background: #f9fafb; color: #1f2937; font: 16px/1.6 -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; }
+  main { max-width: 820px; margin: 0 auto; padding: 48px 40px; background: #fff; }
+  h1 { font-size: 2em; line-height: 1.25; margin: 0 0 8px; }
+  h2 { font-size: 1.4em; margin: 40px 0 12px; padding-bottom: 6px; border-bottom: 1px solid #e5e7eb; }
+  h3 { font-size: 1.15em; margin: 28px 0 8px; }
+  h4 { font-size: 1em; margin: 20px 0 6px; }
+  p, ul, ol { margin: 0 0 14px; }
+  li { margin-bottom: 6px; }
+  table { width: 100%; border-collapse: collapse; margin: 0 0 18px; font-size: 0.9em; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  blockquote { margin: 0 0 18px; padding: 10px 16px; border-left: 4px solid #f59e0b; background: #fffbeb; }
+  code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; background: #f3f4f6; padding: 1px 4px; border-radius: 3px; }
+  a { color: #2563eb; }
+  @media print { body { background: #fff; } main { padding: 0; } }
+`;
+
+/**
+ * Render a report as a standalone HTML page with its styles inlined
+ */
+export function renderHtml(report: ResearchReport, options: ReportRenderOptions = {}): string {
+  const body = buildReportDocument(report, options).map(blockToHtml).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Commercial Research Workflow">
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+function blockToHtml(block: ReportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${inlineToHtml(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${inlineToHtml(block.text)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>\n${block.items.map(item => `  <li>${inlineToHtml(item)}</li>`).join('\n')}\n</${tag}>`;
+    }
+    case 'table':
+      return [
+        '<table>',
+        `  <thead><tr>${block.headers.map(cell => `<th>${inlineToHtml(cell)}</th>`).join('')}</tr></thead>`,
+        '  <tbody>',
+        ...block.rows.map(row => `    <tr>${row.map(cell => `<td>${inlineToHtml(cell)}</td>`).join('')}</tr>`),
+        '  </tbody>',
+        '</table>',
+      ].join('\n');
+    case 'note':
+      return `<blockquote>${inlineToHtml(block.text)}</blockquote>`;
+  }
+}
+
+function inlineToHtml(text: string): string {
+  return parseInline(text)
+    .map(run => {
+      const html = escapeHtml(run.text);
+      if (run.href && /^(https?:|mailto:)/i.test(run.href)) {
+        return `<a href="${escapeHtml(run.href)}">${html}</a>`;
+      }
+      if (run.bold) return `<strong>${html}</strong>`;
+      if (run.italic) return `<em>${html}</em>`;
+      if (run.code) return `<code>${html}</code>`;
+      return html;
+    })
+    .join('');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,16 @@
+export {
+  renderReport,
+  isReportFormat,
+  REPORT_FORMATS,
+  type ReportFormat,
+  type RenderedReport,
+} from './report-renderer.js';
+export { buildReportDocument, type ReportRenderOptions } from './report-document.js';
+export { parseMarkdownBlocks, parseInline, plainText, type ReportBlock, type InlineRun } from './markdown.js';
+export { renderMarkdown } from './markdown-renderer.js';
+export { renderHtml } from './html-renderer.js';
+export { renderPdf } from './pdf-renderer.js';
+export { renderDocx } from './docx-renderer.js';
+export { renderPptx } from './pptx-renderer.js';
+export { buildZip, type ZipEntry } from './zip-writer.js';
+export { buildPdf, textWidth, type PdfFont, type PdfInfo } from './pdf-writer.js';
@@ -0,0 +1,39 @@
+import type { ResearchReport } from '../types/index.js';
+import type { ReportBlock } from './markdown.js';
+import { buildReportDocument, type ReportRenderOptions } from './report-document.js';
+
+/**
+ * Render a report as a Markdown document
+ */
+export function renderMarkdown(report: ResearchReport, options: ReportRenderOptions = {}): string {
+  return `${buildReportDocument(report, options).map(blockToMarkdown).join('\n\n')}\n`;
+}
+
+function blockToMarkdown(block: ReportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${block.text}`;
+    case 'paragraph':
+      return block.text;
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${singleLine(item)}`)
+        .join('\n');
+    case 'table':
+      return [
+        tableRow(block.headers),
+        tableRow(block.headers.map(() => '---')),
+        ...block.rows.map(tableRow),
+      ].join('\n');
+    case 'note':
+      return block.text.split('\n').map(line => `> ${line}`).join('\n');
+  }
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.map(cell => singleLine(cell).replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
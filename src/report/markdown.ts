@@ -0,0 +1,149 @@
+/**
+ * A block of a rendered report. Text keeps its inline Markdown (bold,
+ * italics, links, code), which each renderer turns into its own markup.
+ */
+export type ReportBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; headers: string[]; rows: string[][] }
+  | { type: 'note'; text: string };
+
+/**
+ * A run of text with the same inline formatting
+ */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+// Deepest heading level renderers support
+const MAX_HEADING_LEVEL = 4;
+
+const INLINE_PATTERN = /\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Split Markdown written by an agent into report blocks. Headings in the
+ * text start at baseLevel, so they nest under the section that holds them.
+ */
+export function parseMarkdownBlocks(markdown: string, baseLevel = 3): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let table: string[][] | null = null;
+  let note: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ...list });
+      list = null;
+    }
+    if (table) {
+      const [headers, ...rows] = table;
+      blocks.push({ type: 'table', headers, rows });
+      table = null;
+    }
+    if (note.length > 0) {
+      blocks.push({ type: 'note', text: note.join(' ') });
+      note = [];
+    }
+  };
+
+  for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: Math.min(MAX_HEADING_LEVEL, baseLevel + heading[1].length - 1),
+        text: heading[2].replace(/#+$/, '').trim(),
+      });
+    } else if (bullet || numbered) {
+      const ordered = Boolean(numbered);
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push((bullet || numbered)![1]);
+    } else if (line.startsWith('|')) {
+      if (!table) {
+        flush();
+        table = [];
+      }
+      // The row under the header only sets column alignment
+      if (!/^\|?[\s:|-]+\|?$/.test(line)) {
+        table.push(splitTableRow(line));
+      }
+    } else if (line.startsWith('>')) {
+      if (note.length === 0) flush();
+      note.push(line.replace(/^>\s?/, ''));
+    } else if (list && /^\s{2,}/.test(rawLine)) {
+      // Indented continuation of a list item
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      if (list || table || note.length > 0) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split text into runs of bold, italic, code and linked text
+ */
+export function parseInline(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index! > last) {
+      runs.push({ text: text.slice(last, match.index) });
+    }
+    const [, strong, strongAlt, emphasis, code, linkText, href] = match;
+    if (strong || strongAlt) {
+      runs.push({ text: strong || strongAlt, bold: true });
+    } else if (emphasis) {
+      runs.push({ text: emphasis, italic: true });
+    } else if (code) {
+      runs.push({ text: code, code: true });
+    } else {
+      runs.push({ text: linkText, href });
+    }
+    last = match.index! + match[0].length;
+  }
+
+  if (last < text.length) {
+    runs.push({ text: text.slice(last) });
+  }
+  return runs;
+}
+
+/**
+ * Text without its inline Markdown, keeping link text
+ */
+export function plainText(text: string): string {
+  return parseInline(text).map(run => run.text).join('');
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
@@ -0,0 +1,104 @@
+/**
+ * Parts shared by the Office Open XML packages (DOCX and PPTX): content
+ * types, relationships and document properties
+ */
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const RELATIONSHIP_BASE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const REL_TYPES = {
+  officeDocument: `${RELATIONSHIP_BASE}/officeDocument`,
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: `${RELATIONSHIP_BASE}/extended-properties`,
+  styles: `${RELATIONSHIP_BASE}/styles`,
+  numbering: `${RELATIONSHIP_BASE}/numbering`,
+  footer: `${RELATIONSHIP_BASE}/footer`,
+  hyperlink: `${RELATIONSHIP_BASE}/hyperlink`,
+  slideMaster: `${RELATIONSHIP_BASE}/slideMaster`,
+  slideLayout: `${RELATIONSHIP_BASE}/slideLayout`,
+  slide: `${RELATIONSHIP_BASE}/slide`,
+  theme: `${RELATIONSHIP_BASE}/theme`,
+  presProps: `${RELATIONSHIP_BASE}/presProps`,
+  tableStyles: `${RELATIONSHIP_BASE}/tableStyles`,
+};
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external?: boolean;
+}
+
+/**
+ * Escape text for XML content or attributes, dropping control characters
+ * that XML 1.0 does not allow
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * [Content_Types].xml, declaring the type of each part by its path
+ */
+export function contentTypesXml(overrides: Record<string, string>): string {
+  return `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    Object.entries(overrides)
+      .map(([part, contentType]) => `<Override PartName="${part}" ContentType="${contentType}"/>`)
+      .join('') +
+    '</Types>';
+}
+
+export function relationshipsXml(relationships: Relationship[]): string {
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    relationships
+      .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"${rel.external ? ' TargetMode="External"' : ''}/>`)
+      .join('') +
+    '</Relationships>';
+}
+
+/**
+ * Package relationships and properties parts common to both formats
+ */
+export function packageParts(mainPart: string, title: string): Array<{ name: string; data: string }> {
+  const created = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  return [
+    {
+      name: '_rels/.rels',
+      data: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.officeDocument, target: mainPart },
+        { id: 'rId2', type: REL_TYPES.coreProperties, target: 'docProps/core.xml' },
+        { id: 'rId3', type: REL_TYPES.extendedProperties, target: 'docProps/app.xml' },
+      ]),
+    },
+    {
+      name: 'docProps/core.xml',
+      data: `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${escapeXml(title)}</dc:title>` +
+        '<dc:creator>Commercial Research Workflow</dc:creator>' +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+        `<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>` +
+        '</cp:coreProperties>',
+    },
+    {
+      name: 'docProps/app.xml',
+      data: `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+        '<Application>Commercial Research Workflow</Application></Properties>',
+    },
+  ];
+}
+
+export const PROPERTIES_CONTENT_TYPES = {
+  '/docProps/core.xml': 'application/vnd.openxmlformats-package.core-properties+xml',
+  '/docProps/app.xml': 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+};
@@ -0,0 +1,310 @@
+import type { ResearchReport } from '../types/index.js';
+import { parseInline, plainText, type InlineRun, type ReportBlock } from './markdown.js';
+import { buildReportDocument, type ReportRenderOptions } from './report-document.js';
+import { buildPdf, showText, textWidth, PAGE_HEIGHT, PAGE_WIDTH, type PdfFont } from './pdf-writer.js';
+
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Lowest baseline for body text; the page footer sits below it
+const BOTTOM = MARGIN + 14;
+
+const BODY_SIZE = 10.5;
+const BODY_LEADING = 15;
+const TABLE_SIZE = 8.5;
+const TABLE_LEADING = 11;
+const CELL_PADDING = 4;
+const LIST_INDENT = 16;
+
+const HEADINGS: Record<number, { size: number; spaceBefore: number }> = {
+  1: { size: 20, spaceBefore: 0 },
+  2: { size: 15, spaceBefore: 20 },
+  3: { size: 12.5, spaceBefore: 14 },
+  4: { size: 11, spaceBefore: 10 },
+};
+
+const TEXT_COLOR = '0.12 0.16 0.22 rg';
+const HEADING_COLOR = '0.07 0.2 0.42 rg';
+const MUTED_COLOR = '0.42 0.45 0.5 rg';
+
+interface Segment {
+  text: string;
+  font: PdfFont;
+}
+
+type Line = Segment[];
+
+/**
+ * Render a report as a PDF, laid out locally with the standard PDF fonts
+ */
+export function renderPdf(report: ResearchReport, options: ReportRenderOptions = {}): Buffer {
+  const layout = new PdfLayout();
+  for (const block of buildReportDocument(report, options)) {
+    layout.addBlock(block);
+  }
+  return layout.finish(report.title);
+}
+
+/**
+ * Flows blocks down the page, starting a new page when one fills up
+ */
+class PdfLayout {
+  private pages: string[][] = [];
+  private ops: string[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  addBlock(block: ReportBlock): void {
+    switch (block.type) {
+      case 'heading': {
+        const { size, spaceBefore } = HEADINGS[block.level] || HEADINGS[4];
+        const leading = size * 1.3;
+        const lines = wrapRuns(withFont(parseInline(block.text), 'bold'), CONTENT_WIDTH, size);
+        // Keep a heading on the same page as the start of what follows it
+        this.y -= spaceBefore;
+        this.ensureSpace(lines.length * leading + BODY_LEADING * 2);
+        this.writeLines(lines, MARGIN, size, leading, HEADING_COLOR);
+        if (block.level <= 2) {
+          const ruleY = num(this.y + leading - size - 4);
+          this.ops.push(`0.82 0.84 0.87 RG 0.75 w ${MARGIN} ${ruleY} m ${num(MARGIN + CONTENT_WIDTH)} ${ruleY} l S`);
+          this.y -= 6;
+        }
+        this.y -= 4;
+        break;
+      }
+      case 'paragraph':
+        this.writeLines(wrapRuns(withFont(parseInline(block.text)), CONTENT_WIDTH, BODY_SIZE), MARGIN, BODY_SIZE, BODY_LEADING);
+        this.y -= 6;
+        break;
+      case 'list':
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${index + 1}.` : '•';
+          const lines = wrapRuns(withFont(parseInline(item)), CONTENT_WIDTH - LIST_INDENT, BODY_SIZE);
+          this.ensureSpace(BODY_LEADING);
+          this.ops.push(TEXT_COLOR, showText(marker, 'regular', BODY_SIZE, MARGIN + 2, this.y - BODY_SIZE));
+          this.writeLines(lines, MARGIN + LIST_INDENT, BODY_SIZE, BODY_LEADING);
+          this.y -= 3;
+        });
+        this.y -= 4;
+        break;
+      case 'table':
+        this.writeTable(block.headers, block.rows);
+        this.y -= 10;
+        break;
+      case 'note': {
+        const lines = wrapRuns(withFont(parseInline(block.text), 'italic'), CONTENT_WIDTH - 14, BODY_SIZE);
+        this.ensureSpace(Math.min(lines.length, 3) * BODY_LEADING);
+        const page = this.ops;
+        const top = this.y;
+        this.writeLines(lines, MARGIN + 12, BODY_SIZE, BODY_LEADING);
+        // Bar beside the note, from its top or from the top of the page it continues onto
+        const barTop = this.ops === page ? top - 2 : PAGE_HEIGHT - MARGIN - 2;
+        this.ops.push(`0.96 0.62 0.04 RG 2.5 w ${MARGIN + 2} ${num(barTop)} m ${MARGIN + 2} ${num(this.y + 2)} l S`);
+        this.y -= 10;
+        break;
+      }
+    }
+  }
+
+  finish(title: string): Buffer {
+    const footerTitle = truncate(title, CONTENT_WIDTH - 80, 8);
+    const pages = this.pages.map((ops, index) => {
+      const pageLabel = `Page ${index + 1} of ${this.pages.length}`;
+      return [
+        ...ops,
+        MUTED_COLOR,
+        showText(footerTitle, 'regular', 8, MARGIN, MARGIN - 16),
+        showText(pageLabel, 'regular', 8, MARGIN + CONTENT_WIDTH - textWidth(pageLabel, 'regular', 8), MARGIN - 16),
+      ].join('\n');
+    });
+    return buildPdf(pages, { title });
+  }
+
+  private newPage(): void {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < BOTTOM && this.y < PAGE_HEIGHT - MARGIN) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Write wrapped lines from the current position, breaking pages between lines
+   */
+  private writeLines(lines: Line[], x: number, size: number, leading: number, color = TEXT_COLOR): void {
+    for (const line of lines) {
+      this.ensureSpace(leading);
+      this.ops.push(color, ...drawLine(line, x, this.y - size, size));
+      this.y -= leading;
+    }
+  }
+
+  private writeTable(headers: string[], rows: string[][]): void {
+    const columns = Math.max(headers.length, ...rows.map(row => row.length));
+    const widths = columnWidths([headers, ...rows], columns);
+
+    const layoutRow = (cells: string[], font: PdfFont) => {
+      const wrapped = Array.from({ length: columns }, (_, column) =>
+        wrapRuns(withFont(parseInline(cells[column] || ''), font), widths[column] - CELL_PADDING * 2, TABLE_SIZE)
+      );
+      const height = Math.max(1, ...wrapped.map(lines => lines.length)) * TABLE_LEADING + CELL_PADDING * 2;
+      return { wrapped, height };
+    };
+
+    const header = layoutRow(headers, 'bold');
+    const drawRow = ({ wrapped, height }: { wrapped: Line[][]; height: number }, shaded: boolean) => {
+      let x = MARGIN;
+      const bottom = this.y - height;
+      if (shaded) {
+        this.ops.push(`0.95 0.96 0.97 rg ${MARGIN} ${num(bottom)} ${num(CONTENT_WIDTH)} ${num(height)} re f`);
+      }
+      wrapped.forEach((lines, column) => {
+        this.ops.push(`0.8 0.82 0.85 RG 0.5 w ${num(x)} ${num(bottom)} ${num(widths[column])} ${num(height)} re S`);
+        lines.forEach((line, index) => {
+          const baseline = this.y - CELL_PADDING - TABLE_SIZE - index * TABLE_LEADING + 1.5;
+          this.ops.push(TEXT_COLOR, ...drawLine(line, x + CELL_PADDING, baseline, TABLE_SIZE));
+        });
+        x += widths[column];
+      });
+      this.y = bottom;
+    };
+
+    this.ensureSpace(header.height + TABLE_LEADING * 2);
+    drawRow(header, true);
+
+    for (const row of rows) {
+      const laidOut = layoutRow(row, 'regular');
+      if (this.y - laidOut.height < BOTTOM) {
+        // Repeat the header on each page the table continues onto
+        this.newPage();
+        drawRow(header, true);
+      }
+      drawRow(laidOut, false);
+    }
+  }
+}
+
+function withFont(runs: InlineRun[], base: PdfFont = 'regular'): Array<{ text: string; font: PdfFont }> {
+  return runs.flatMap(run => {
+    const bold = run.bold || base === 'bold' || base === 'boldItalic';
+    const italic = run.italic || base === 'italic' || base === 'boldItalic';
+    const font: PdfFont = bold && italic ? 'boldItalic' : bold ? 'bold' : italic ? 'italic' : 'regular';
+    // Links keep their address, as the text cannot be clicked through
+    return run.href && run.href !== run.text
+      ? [{ text: run.text, font }, { text: ` (${run.href})`, font }]
+      : [{ text: run.text, font }];
+  });
+}
+
+/**
+ * Break runs of text into lines no wider than maxWidth. Words longer than
+ * a line, such as URLs, are split across lines.
+ */
+function wrapRuns(runs: Array<{ text: string; font: PdfFont }>, maxWidth: number, size: number): Line[] {
+  const lines: Line[] = [];
+  let line: Line = [];
+  let width = 0;
+  let pendingSpace: PdfFont | null = null;
+
+  const append = (text: string, font: PdfFont) => {
+    const last = line[line.length - 1];
+    if (last && last.font === font) {
+      last.text += text;
+    } else {
+      line.push({ text, font });
+    }
+  };
+  const breakLine = () => {
+    lines.push(line);
+    line = [];
+    width = 0;
+    pendingSpace = null;
+  };
+
+  for (const run of runs) {
+    for (const token of run.text.split(/(\s+)/)) {
+      if (!token) continue;
+      if (/^\s+$/.test(token)) {
+        if (line.length > 0) pendingSpace = run.font;
+        continue;
+      }
+
+      let word = token;
+      const spaceWidth = pendingSpace ? textWidth(' ', pendingSpace, size) : 0;
+      if (line.length > 0 && width + spaceWidth + textWidth(word, run.font, size) > maxWidth) {
+        breakLine();
+      }
+      if (pendingSpace) {
+        append(' ', pendingSpace);
+        width += spaceWidth;
+        pendingSpace = null;
+      }
+
+      while (textWidth(word, run.font, size) > maxWidth - width) {
+        const fit = fittingLength(word, run.font, size, maxWidth - width);
+        if (fit === 0 && line.length > 0) {
+          breakLine();
+          continue;
+        }
+        append(word.slice(0, Math.max(fit, 1)), run.font);
+        word = word.slice(Math.max(fit, 1));
+        breakLine();
+      }
+      if (word) {
+        append(word, run.font);
+        width += textWidth(word, run.font, size);
+      }
+    }
+  }
+
+  if (line.length > 0 || lines.length === 0) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+function fittingLength(word: string, font: PdfFont, size: number, available: number): number {
+  let length = 0;
+  while (length < word.length && textWidth(word.slice(0, length + 1), font, size) <= available) {
+    length++;
+  }
+  return length;
+}
+
+function drawLine(line: Line, x: number, baseline: number, size: number): string[] {
+  const ops: string[] = [];
+  let position = x;
+  for (const segment of line) {
+    ops.push(showText(segment.text, segment.font, size, position, baseline));
+    position += textWidth(segment.text, segment.font, size);
+  }
+  return ops;
+}
+
+/**
+ * Share the content width between columns by how much text each holds,
+ * so a long description column is not squeezed by short ones
+ */
+function columnWidths(rows: string[][], columns: number): number[] {
+  const natural = Array.from({ length: columns }, (_, column) => {
+    const longest = Math.max(0, ...rows.map(row => textWidth(plainText(row[column] || ''), 'regular', TABLE_SIZE)));
+    return Math.min(Math.max(longest + CELL_PADDING * 2, 40), CONTENT_WIDTH * 0.6);
+  });
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  return natural.map(width => (width / total) * CONTENT_WIDTH);
+}
+
+function truncate(text: string, maxWidth: number, size: number): string {
+  if (textWidth(text, 'regular', size) <= maxWidth) return text;
+  return `${text.slice(0, fittingLength(text, 'regular', size, maxWidth - textWidth('…', 'regular', size)))}…`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
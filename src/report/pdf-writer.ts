@@ -0,0 +1,211 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * Dependency-free PDF output
+ *
+ * Writes pages of content-stream operators into a PDF 1.4 file using the
+ * standard Helvetica fonts, which every PDF viewer provides, so no fonts
+ * are embedded. Text is encoded as WinAnsi; characters outside it are
+ * approximated or replaced with '?'.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' },
+  boldItalic: { resource: 'F4', baseFont: 'Helvetica-BoldOblique' },
+};
+
+// Glyph widths (1/1000 em) for characters 32-126, from the Helvetica and
+// Helvetica-Bold font metrics. The oblique faces share these widths.
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Widths of WinAnsi characters outside 32-126 that reports commonly use
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x80: 556, 0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333,
+  0x95: 350, 0x96: 556, 0x97: 1000, 0x99: 1000, 0xa0: 278,
+};
+
+// WinAnsi codes for the characters it places in 0x80-0x9F
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Characters WinAnsi lacks, mapped to the closest it has
+const SUBSTITUTES: Record<string, string> = {
+  '−': '-', '‐': '-', '‑': '-', '′': "'", '″': '"', '→': '->', '←': '<-', '≤': '<=', '≥': '>=',
+  '≈': '~', '✓': 'v', '✔': 'v', '✗': 'x', '\t': ' ',
+};
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+}
+
+/**
+ * Width of text in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  const widths = font === 'bold' || font === 'boldItalic' ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  let total = 0;
+  for (const code of encodeWinAnsi(text)) {
+    total += code >= 32 && code <= 126 ? widths[code - 32] : EXTRA_WIDTHS[code] ?? 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Operator showing text at a position in a font
+ */
+export function showText(text: string, font: PdfFont, size: number, x: number, y: number): string {
+  return `BT /${FONTS[font].resource} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(text)} Tj ET`;
+}
+
+/**
+ * Assemble pages of content-stream operators into a PDF file
+ */
+export function buildPdf(pages: string[], info: PdfInfo = {}): Buffer {
+  const fontIds = Object.keys(FONTS).map((_, index) => 3 + index);
+  const infoId = 3 + fontIds.length;
+  const pageIds = pages.map((_, index) => infoId + 1 + index * 2);
+
+  const fontResources = Object.values(FONTS)
+    .map(({ resource }, index) => `/${resource} ${fontIds[index]} 0 R`)
+    .join(' ');
+
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'),
+    Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`, 'latin1'),
+    ...Object.values(FONTS).map(({ baseFont }) =>
+      Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`, 'latin1')
+    ),
+    Buffer.from(`<< ${[
+      info.title ? `/Title ${pdfTextString(info.title)}` : '',
+      info.author ? `/Author ${pdfTextString(info.author)}` : '',
+      '/Producer (Commercial Research Workflow)',
+      `/CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z)`,
+    ].filter(Boolean).join(' ')} >>`, 'latin1'),
+  ];
+
+  pages.forEach((content, index) => {
+    const stream = deflateSync(Buffer.from(content, 'latin1'));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        'latin1'
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * A PDF string literal for text, encoded as WinAnsi
+ */
+function pdfString(text: string): string {
+  let literal = '';
+  for (const code of encodeWinAnsi(text)) {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      literal += `\\${String.fromCharCode(code)}`;
+    } else if (code < 32 || code > 126) {
+      literal += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      literal += String.fromCharCode(code);
+    }
+  }
+  return `(${literal})`;
+}
+
+/**
+ * A string for document metadata, which viewers read as UTF-16 rather
+ * than in a font's encoding
+ */
+function pdfTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[()\\]/g, char => `\\${char}`)})`;
+  }
+  return `<FEFF${Buffer.from(text, 'utf16le').swap16().toString('hex').toUpperCase()}>`;
+}
+
+function encodeWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      codes.push(code);
+    } else if (WIN_ANSI[char] !== undefined) {
+      codes.push(WIN_ANSI[char]);
+    } else if (SUBSTITUTES[char] !== undefined) {
+      codes.push(...[...SUBSTITUTES[char]].map(c => c.charCodeAt(0)));
+    } else if (code >= 32) {
+      // Accented letters outside Latin-1 lose their accent
+      const base = char.normalize('NFKD').charCodeAt(0);
+      codes.push(base >= 32 && base <= 126 ? base : 0x3f);
+    }
+  }
+  return codes;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
@@ -0,0 +1,448 @@
+import type { ResearchReport, RiskFactor } from '../types/index.js';
+import type { ReportRenderOptions } from './report-document.js';
+import { parseInline, parseMarkdownBlocks, plainText } from './markdown.js';
+import {
+  XML_DECLARATION,
+  REL_TYPES,
+  PROPERTIES_CONTENT_TYPES,
+  contentTypesXml,
+  escapeXml,
+  packageParts,
+  relationshipsXml,
+} from './ooxml.js';
+import { buildZip } from './zip-writer.js';
+import { stripCitations } from '../workflow/citations.js';
+
+const PRESENTATION_NAMESPACES =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+
+const PRESENTATION_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml';
+
+// 16:9 slide in EMU (914400 per inch)
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const MARGIN = 457200;
+const CONTENT_TOP = 1400000;
+const CONTENT_WIDTH = SLIDE_WIDTH - 2 * MARGIN;
+const CONTENT_HEIGHT = SLIDE_HEIGHT - CONTENT_TOP - MARGIN;
+
+const NAVY = '1F3864';
+const TEXT = '1F2937';
+const MUTED = '6B7280';
+const ACCENT = '2563EB';
+
+const ITEMS_PER_SLIDE = 6;
+const SUMMARY_LIMIT = 1100;
+
+// Matrix rows from most to least severe, columns from least to most likely
+const SEVERITIES: RiskFactor['severity'][] = ['critical', 'high', 'medium', 'low'];
+const LIKELIHOODS: RiskFactor['likelihood'][] = ['unlikely', 'possible', 'likely', 'certain'];
+// Cell colours by combined severity and likelihood, from lowest to highest
+const HEAT_COLOURS = ['DCFCE7', 'DCFCE7', 'FEF9C3', 'FEF9C3', 'FED7AA', 'FECACA', 'FCA5A5'];
+
+interface TextParagraph {
+  text: string;
+  size: number;
+  bold?: boolean;
+  color?: string;
+  bullet?: 'bullet' | 'number';
+  /** First number of a numbered list continued from an earlier slide */
+  startAt?: number;
+}
+
+interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  paragraphs: TextParagraph[];
+  fill?: string;
+  anchor?: 't' | 'ctr' | 'b';
+}
+
+/**
+ * Slide contents. Shapes are positioned absolutely on a blank layout.
+ */
+class Slide {
+  private shapes: string[] = [];
+  private nextId = 2;
+
+  constructor(readonly background?: string) {}
+
+  textBox(box: TextBox): this {
+    const id = this.nextId++;
+    this.shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+      `<p:spPr>${transform(box.x, box.y, box.width, box.height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+      `${box.fill ? solidFill(box.fill) : '<a:noFill/>'}</p:spPr>` +
+      `<p:txBody><a:bodyPr wrap="square" lIns="91440" tIns="45720" rIns="91440" bIns="45720" anchor="${box.anchor || 't'}"><a:normAutofit/></a:bodyPr>` +
+      `<a:lstStyle/>${box.paragraphs.map(paragraphXml).join('')}</p:txBody></p:sp>`
+    );
+    return this;
+  }
+
+  rectangle(x: number, y: number, width: number, height: number, fill: string): this {
+    const id = this.nextId++;
+    this.shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+      `<p:spPr>${transform(x, y, width, height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${solidFill(fill)}<a:ln><a:noFill/></a:ln></p:spPr></p:sp>`
+    );
+    return this;
+  }
+
+  /**
+   * A table of plain cells, each with its own fill
+   */
+  table(x: number, y: number, columnWidths: number[], rowHeight: number, rows: Array<Array<{ text: string; fill: string; bold?: boolean; color?: string }>>): this {
+    const id = this.nextId++;
+    const width = columnWidths.reduce((sum, column) => sum + column, 0);
+    const border = (side: string) => `<a:${side} w="12700">${solidFill('FFFFFF')}</a:${side}>`;
+
+    const rowXml = rows.map(cells =>
+      `<a:tr h="${rowHeight}">` +
+      cells.map(cell =>
+        '<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>' +
+        paragraphXml({ text: cell.text, size: 1200, bold: cell.bold, color: cell.color }) +
+        `</a:txBody><a:tcPr anchor="ctr">${['lnL', 'lnR', 'lnT', 'lnB'].map(border).join('')}${solidFill(cell.fill)}</a:tcPr></a:tc>`
+      ).join('') +
+      '</a:tr>'
+    ).join('');
+
+    this.shapes.push(
+      `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/>` +
+      '<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>' +
+      `<p:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${width}" cy="${rowHeight * rows.length}"/></p:xfrm>` +
+      '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr/>' +
+      `<a:tblGrid>${columnWidths.map(column => `<a:gridCol w="${column}"/>`).join('')}</a:tblGrid>${rowXml}</a:tbl>` +
+      '</a:graphicData></a:graphic></p:graphicFrame>'
+    );
+    return this;
+  }
+
+  toXml(): string {
+    const background = this.background
+      ? `<p:bg><p:bgPr>${solidFill(this.background)}<a:effectLst/></p:bgPr></p:bg>`
+      : '';
+    return `${XML_DECLARATION}<p:sld ${PRESENTATION_NAMESPACES}><p:cSld>${background}<p:spTree>${GROUP_HEADER}${this.shapes.join('')}</p:spTree></p:cSld>` +
+      '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+  }
+}
+
+/**
+ * Render a summary deck of a report: title, executive summary, key
+ * insights, risk matrix and recommendations. Long lists continue onto
+ * further slides. The deck has no bibliography, so citation markers are
+ * left out.
+ */
+export function renderPptx(report: ResearchReport, _options: ReportRenderOptions = {}): Buffer {
+  const slides: Slide[] = [
+    titleSlide(report),
+    contentSlide('Executive Summary').textBox({
+      x: MARGIN,
+      y: CONTENT_TOP,
+      width: CONTENT_WIDTH,
+      height: CONTENT_HEIGHT,
+      paragraphs: summaryParagraphs(report.executiveSummary),
+    }),
+    ...listSlides('Key Insights', report.keyInsights, 'bullet'),
+    riskMatrixSlide(report.riskFactors),
+    ...listSlides('Recommendations', report.recommendations, 'number'),
+  ];
+
+  const slideParts = slides.flatMap((slide, index) => [
+    { name: `ppt/slides/slide${index + 1}.xml`, data: slide.toXml() },
+    {
+      name: `ppt/slides/_rels/slide${index + 1}.xml.rels`,
+      data: relationshipsXml([{ id: 'rId1', type: REL_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' }]),
+    },
+  ]);
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      data: contentTypesXml({
+        '/ppt/presentation.xml': `${PRESENTATION_TYPE}.presentation.main+xml`,
+        '/ppt/slideMasters/slideMaster1.xml': `${PRESENTATION_TYPE}.slideMaster+xml`,
+        '/ppt/slideLayouts/slideLayout1.xml': `${PRESENTATION_TYPE}.slideLayout+xml`,
+        ...Object.fromEntries(slides.map((_, index) => [`/ppt/slides/slide${index + 1}.xml`, `${PRESENTATION_TYPE}.slide+xml`])),
+        '/ppt/theme/theme1.xml': 'application/vnd.openxmlformats-officedocument.theme+xml',
+        '/ppt/presProps.xml': `${PRESENTATION_TYPE}.presProps+xml`,
+        '/ppt/tableStyles.xml': `${PRESENTATION_TYPE}.tableStyles+xml`,
+        ...PROPERTIES_CONTENT_TYPES,
+      }),
+    },
+    ...packageParts('ppt/presentation.xml', report.title),
+    { name: 'ppt/presentation.xml', data: presentationXml(slides.length) },
+    {
+      name: 'ppt/_rels/presentation.xml.rels',
+      data: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+        { id: 'rId2', type: REL_TYPES.theme, target: 'theme/theme1.xml' },
+        { id: 'rId3', type: REL_TYPES.presProps, target: 'presProps.xml' },
+        { id: 'rId4', type: REL_TYPES.tableStyles, target: 'tableStyles.xml' },
+        ...slides.map((_, index) => ({ id: `rId${index + 5}`, type: REL_TYPES.slide, target: `slides/slide${index + 1}.xml` })),
+      ]),
+    },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: SLIDE_MASTER },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: REL_TYPES.theme, target: '../theme/theme1.xml' },
+      ]),
+    },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: SLIDE_LAYOUT },
+    {
+      name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationshipsXml([{ id: 'rId1', type: REL_TYPES.slideMaster, target: '../slideMasters/slideMaster1.xml' }]),
+    },
+    { name: 'ppt/theme/theme1.xml', data: THEME },
+    { name: 'ppt/presProps.xml', data: `${XML_DECLARATION}<p:presentationPr ${PRESENTATION_NAMESPACES}/>` },
+    {
+      name: 'ppt/tableStyles.xml',
+      data: `${XML_DECLARATION}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`,
+    },
+    ...slideParts,
+  ]);
+}
+
+function titleSlide(report: ResearchReport): Slide {
+  const { generatedAt, sourcesCount, confidenceScore, partial } = report.metadata;
+  const details = [
+    `Generated ${generatedAt.slice(0, 10)}`,
+    `${sourcesCount} sources`,
+    `confidence ${Math.round(confidenceScore * 100)}%`,
+  ].join('  ·  ');
+
+  const slide = new Slide(NAVY)
+    .textBox({
+      x: MARGIN * 2,
+      y: 2000000,
+      width: SLIDE_WIDTH - MARGIN * 4,
+      height: 1700000,
+      anchor: 'b',
+      paragraphs: [{ text: report.title, size: 4000, bold: true, color: 'FFFFFF' }],
+    })
+    .rectangle(MARGIN * 2, 3850000, 1800000, 50800, '60A5FA')
+    .textBox({
+      x: MARGIN * 2,
+      y: 4000000,
+      width: SLIDE_WIDTH - MARGIN * 4,
+      height: 500000,
+      paragraphs: [{ text: details, size: 1600, color: 'DBEAFE' }],
+    });
+
+  if (partial) {
+    slide.textBox({
+      x: MARGIN * 2,
+      y: 4550000,
+      width: SLIDE_WIDTH - MARGIN * 4,
+      height: 450000,
+      paragraphs: [{ text: 'Partial report: covers completed research only', size: 1400, color: 'FCD34D' }],
+    });
+  }
+
+  return slide;
+}
+
+function contentSlide(title: string): Slide {
+  return new Slide()
+    .textBox({
+      x: MARGIN,
+      y: 380000,
+      width: CONTENT_WIDTH,
+      height: 750000,
+      anchor: 'b',
+      paragraphs: [{ text: title, size: 2800, bold: true, color: NAVY }],
+    })
+    .rectangle(MARGIN + 91440, 1180000, 1200000, 38100, ACCENT);
+}
+
+/**
+ * A list over as many slides as it needs; numbered lists carry their
+ * numbering onto continuation slides
+ */
+function listSlides(title: string, items: string[], bullet: 'bullet' | 'number'): Slide[] {
+  if (items.length === 0) return [];
+
+  const slides: Slide[] = [];
+  for (let start = 0; start < items.length; start += ITEMS_PER_SLIDE) {
+    slides.push(
+      contentSlide(start === 0 ? title : `${title} (continued)`).textBox({
+        x: MARGIN,
+        y: CONTENT_TOP,
+        width: CONTENT_WIDTH,
+        height: CONTENT_HEIGHT,
+        paragraphs: items.slice(start, start + ITEMS_PER_SLIDE).map((item, index) => ({
+          text: item,
+          size: 1800,
+          bullet,
+          startAt: bullet === 'number' && index === 0 ? start + 1 : undefined,
+        })),
+      })
+    );
+  }
+  return slides;
+}
+
+/**
+ * Risks placed on a severity by likelihood grid as R1, R2..., with a key
+ * beside it
+ */
+function riskMatrixSlide(risks: RiskFactor[]): Slide {
+  const slide = contentSlide('Risk Matrix');
+
+  if (risks.length === 0) {
+    return slide.textBox({
+      x: MARGIN,
+      y: CONTENT_TOP,
+      width: CONTENT_WIDTH,
+      height: 600000,
+      paragraphs: [{ text: 'No risk factors were identified.', size: 1800, color: MUTED }],
+    });
+  }
+
+  const labels = new Map(risks.map((risk, index) => [risk, `R${index + 1}`]));
+  const header = (text: string) => ({ text, fill: 'F3F4F6', bold: true, color: TEXT });
+  const rows = [
+    [header('Severity / Likelihood'), ...LIKELIHOODS.map(likelihood => header(capitalize(likelihood)))],
+    ...SEVERITIES.map((severity, severityIndex) => [
+      header(capitalize(severity)),
+      ...LIKELIHOODS.map((likelihood, likelihoodIndex) => ({
+        text: risks.filter(risk => risk.severity === severity && risk.likelihood === likelihood)
+          .map(risk => labels.get(risk)).join(', '),
+        fill: HEAT_COLOURS[(SEVERITIES.length - 1 - severityIndex) + likelihoodIndex],
+        bold: true,
+        color: TEXT,
+      })),
+    ]),
+  ];
+
+  const firstColumn = 1500000;
+  const column = 1050000;
+  slide.table(MARGIN, CONTENT_TOP, [firstColumn, ...LIKELIHOODS.map(() => column)], 820000, rows);
+
+  const keyX = MARGIN + firstColumn + column * LIKELIHOODS.length + 300000;
+  return slide.textBox({
+    x: keyX,
+    y: CONTENT_TOP,
+    width: SLIDE_WIDTH - MARGIN - keyX,
+    height: CONTENT_HEIGHT,
+    paragraphs: risks.map(risk => ({
+      text: `**${labels.get(risk)}** ${truncate(plainText(risk.description), 140)} *(${risk.category})*`,
+      size: 1200,
+    })),
+  });
+}
+
+/**
+ * Executive summary paragraphs, cut at a sentence to fit one slide
+ */
+function summaryParagraphs(summary: string): TextParagraph[] {
+  const paragraphs: TextParagraph[] = [];
+  let remaining = SUMMARY_LIMIT;
+
+  for (const block of parseMarkdownBlocks(summary)) {
+    if (remaining <= 0) break;
+    const texts = block.type === 'list' ? block.items : block.type === 'table' ? [] : [block.text];
+    for (const text of texts) {
+      if (remaining <= 0) break;
+      const fitted = truncate(text, remaining);
+      remaining -= fitted.length;
+      paragraphs.push({ text: fitted, size: 1800, bullet: block.type === 'list' ? 'bullet' : undefined });
+    }
+  }
+
+  return paragraphs;
+}
+
+function paragraphXml(paragraph: TextParagraph): string {
+  const bullet = paragraph.bullet === 'number'
+    ? `<a:buFont typeface="+mj-lt"/><a:buAutoNum type="arabicPeriod"${paragraph.startAt ? ` startAt="${paragraph.startAt}"` : ''}/>`
+    : paragraph.bullet === 'bullet'
+      ? '<a:buFont typeface="Arial"/><a:buChar char="•"/>'
+      : '<a:buNone/>';
+  const indent = paragraph.bullet ? ' marL="342900" indent="-342900"' : '';
+
+  const runs = parseInline(stripCitations(paragraph.text)).map(run => {
+    const attributes = [
+      'lang="en-US"',
+      `sz="${paragraph.size}"`,
+      run.bold || paragraph.bold ? 'b="1"' : '',
+      run.italic ? 'i="1"' : '',
+      'dirty="0"',
+    ].filter(Boolean).join(' ');
+    const font = run.code ? '<a:latin typeface="Consolas"/>' : '';
+    return `<a:r><a:rPr ${attributes}>${solidFill(paragraph.color || TEXT)}${font}</a:rPr><a:t>${escapeXml(run.text)}</a:t></a:r>`;
+  }).join('');
+
+  return `<a:p><a:pPr${indent}><a:spcBef><a:spcPts val="600"/></a:spcBef>${bullet}</a:pPr>${runs}` +
+    `<a:endParaRPr lang="en-US" sz="${paragraph.size}" dirty="0"/></a:p>`;
+}
+
+function presentationXml(slideCount: number): string {
+  return `${XML_DECLARATION}<p:presentation ${PRESENTATION_NAMESPACES} saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    `<p:sldIdLst>${Array.from({ length: slideCount }, (_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 5}"/>`).join('')}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+    '</p:presentation>';
+}
+
+function transform(x: number, y: number, width: number, height: number): string {
+  return `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${width}" cy="${height}"/></a:xfrm>`;
+}
+
+function solidFill(colour: string): string {
+  return `<a:solidFill><a:srgbClr val="${colour}"/></a:solidFill>`;
+}
+
+function truncate(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit);
+  const sentenceEnd = cut.search(/[.!?]\s[^.!?]*$/);
+  return sentenceEnd > limit / 2 ? cut.slice(0, sentenceEnd + 1) : `${cut.replace(/\s+\S*$/, '')}…`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const GROUP_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const SLIDE_MASTER = `${XML_DECLARATION}<p:sldMaster ${PRESENTATION_NAMESPACES}>` +
+  `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${GROUP_HEADER}</p:spTree></p:cSld>` +
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+  '<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="3200"/></a:lvl1pPr></p:titleStyle>' +
+  '<p:bodyStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:bodyStyle>' +
+  '<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles>' +
+  '</p:sldMaster>';
+
+const SLIDE_LAYOUT = `${XML_DECLARATION}<p:sldLayout ${PRESENTATION_NAMESPACES} type="blank" preserve="1">` +
+  `<p:cSld name="Blank"><p:spTree>${GROUP_HEADER}</p:spTree></p:cSld>` +
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+const THEME_COLOURS: Array<[string, string]> = [
+  ['dk1', '000000'], ['lt1', 'FFFFFF'], ['dk2', NAVY], ['lt2', 'E7E6E6'],
+  ['accent1', ACCENT], ['accent2', 'F59E0B'], ['accent3', '10B981'], ['accent4', 'EF4444'],
+  ['accent5', '8B5CF6'], ['accent6', '0EA5E9'], ['hlink', ACCENT], ['folHlink', '7C3AED'],
+];
+
+const THEME_FONT = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>';
+const PLACEHOLDER_FILL = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+
+const THEME = `${XML_DECLARATION}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Report">` +
+  '<a:themeElements>' +
+  `<a:clrScheme name="Report">${THEME_COLOURS.map(([name, value]) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`).join('')}</a:clrScheme>` +
+  `<a:fontScheme name="Report"><a:majorFont>${THEME_FONT}</a:majorFont><a:minorFont>${THEME_FONT}</a:minorFont></a:fontScheme>` +
+  '<a:fmtScheme name="Report">' +
+  `<a:fillStyleLst>${PLACEHOLDER_FILL.repeat(3)}</a:fillStyleLst>` +
+  `<a:lnStyleLst>${`<a:ln w="6350">${PLACEHOLDER_FILL}</a:ln>`.repeat(3)}</a:lnStyleLst>` +
+  `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>` +
+  `<a:bgFillStyleLst>${PLACEHOLDER_FILL.repeat(3)}</a:bgFillStyleLst>` +
+  '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
@@ -0,0 +1,177 @@
+import type { Appendix, ReportCitations, ReportSection, ResearchReport, Source } from '../types/index.js';
+import { parseMarkdownBlocks, type ReportBlock } from './markdown.js';
+
+export interface ReportRenderOptions {
+  /** Sources listed at the end of a report without resolved citations */
+  sources?: Source[];
+}
+
+/**
+ * Lay out a report as a sequence of blocks shared by every output format:
+ * title, executive summary, key insights, sections, risk factors,
+ * recommendations, appendices and sources. A report with resolved citations
+ * lists the findings it cites and a bibliography numbered to match its [S#]
+ * markers.
+ */
+export function buildReportDocument(report: ResearchReport, options: ReportRenderOptions = {}): ReportBlock[] {
+  const blocks: ReportBlock[] = [
+    { type: 'heading', level: 1, text: report.title },
+    { type: 'paragraph', text: `*${describeReport(report)}*` },
+  ];
+
+  if (report.metadata.partial) {
+    blocks.push({
+      type: 'note',
+      text: `**Partial report.** ${report.metadata.partialReason || 'Research stopped before all planned work was done.'}`,
+    });
+  }
+
+  blocks.push(
+    { type: 'heading', level: 2, text: 'Executive Summary' },
+    ...parseMarkdownBlocks(report.executiveSummary)
+  );
+
+  if (report.keyInsights.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Key Insights' },
+      { type: 'list', ordered: false, items: report.keyInsights }
+    );
+  }
+
+  for (const section of report.sections) {
+    blocks.push(...sectionBlocks(section, 2));
+  }
+
+  if (report.riskFactors.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Risk Factors' },
+      {
+        type: 'table',
+        headers: ['Risk', 'Category', 'Severity', 'Likelihood', 'Mitigation'],
+        rows: report.riskFactors.map(risk => [
+          risk.description,
+          risk.category,
+          risk.severity,
+          risk.likelihood,
+          risk.mitigation || '',
+        ]),
+      }
+    );
+  }
+
+  if (report.recommendations.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Recommendations' },
+      { type: 'list', ordered: true, items: report.recommendations }
+    );
+  }
+
+  for (const appendix of report.appendices) {
+    blocks.push(
+      { type: 'heading', level: 2, text: `Appendix: ${appendix.title}` },
+      ...appendixBlocks(appendix)
+    );
+  }
+
+  if (report.citations) {
+    blocks.push(...citationBlocks(report.citations));
+  } else if (options.sources && options.sources.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Sources' },
+      { type: 'list', ordered: true, items: options.sources.map(describeSource) }
+    );
+  }
+
+  return blocks;
+}
+
+function describeReport(report: ResearchReport): string {
+  const { generatedAt, sourcesCount, confidenceScore, review } = report.metadata;
+  return [
+    `Generated ${generatedAt.slice(0, 10)}`,
+    `${sourcesCount} sources`,
+    `confidence ${Math.round(confidenceScore * 100)}%`,
+    review ? `quality review ${review.score}/100` : '',
+  ].filter(Boolean).join(' · ');
+}
+
+function sectionBlocks(section: ReportSection, level: number): ReportBlock[] {
+  return [
+    { type: 'heading', level, text: section.title },
+    ...parseMarkdownBlocks(section.content, level + 1),
+    ...(section.subsections || []).flatMap(subsection => sectionBlocks(subsection, Math.min(level + 1, 4))),
+  ];
+}
+
+/**
+ * Appendix content is free-form: Markdown text, a list of records shown as
+ * a table, a list of values, or a single record shown as fields
+ */
+function appendixBlocks(appendix: Appendix): ReportBlock[] {
+  const { content } = appendix;
+
+  if (typeof content === 'string') {
+    return parseMarkdownBlocks(content);
+  }
+
+  if (Array.isArray(content)) {
+    if (content.length > 0 && content.every(isRecord)) {
+      const headers = [...new Set(content.flatMap(row => Object.keys(row)))];
+      return [{
+        type: 'table',
+        headers,
+        rows: content.map(row => headers.map(header => formatValue(row[header]))),
+      }];
+    }
+    return [{ type: 'list', ordered: false, items: content.map(formatValue) }];
+  }
+
+  if (isRecord(content)) {
+    return [{
+      type: 'table',
+      headers: ['Field', 'Value'],
+      rows: Object.entries(content).map(([key, value]) => [key, formatValue(value)]),
+    }];
+  }
+
+  return content === undefined || content === null ? [] : [{ type: 'paragraph', text: String(content) }];
+}
+
+function citationBlocks(citations: ReportCitations): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+
+  if (citations.findings.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Cited Findings' },
+      {
+        type: 'table',
+        headers: ['Citation', 'Finding', 'Sources'],
+        rows: citations.findings.map(finding => [finding.key, finding.title, finding.sourceKeys.join(', ')]),
+      }
+    );
+  }
+
+  if (citations.bibliography.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Bibliography' },
+      { type: 'list', ordered: true, items: citations.bibliography.map(describeSource) }
+    );
+  }
+
+  return blocks;
+}
+
+function describeSource(source: Pick<Source, 'title' | 'url' | 'author' | 'publishedDate'>): string {
+  const title = source.url ? `[${source.title}](${source.url})` : source.title;
+  const details = [source.author, source.publishedDate?.slice(0, 10)].filter(Boolean).join(', ');
+  return details ? `${title} — ${details}` : title;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,71 @@
+import type { ResearchReport } from '../types/index.js';
+import type { ReportRenderOptions } from './report-document.js';
+import { renderMarkdown } from './markdown-renderer.js';
+import { renderHtml } from './html-renderer.js';
+import { renderPdf } from './pdf-renderer.js';
+import { renderDocx } from './docx-renderer.js';
+import { renderPptx } from './pptx-renderer.js';
+
+export type ReportFormat = 'md' | 'html' | 'pdf' | 'docx' | 'pptx';
+
+interface FormatRenderer {
+  contentType: string;
+  render(report: ResearchReport, options: ReportRenderOptions): string | Buffer;
+}
+
+const RENDERERS: Record<ReportFormat, FormatRenderer> = {
+  md: { contentType: 'text/markdown; charset=utf-8', render: renderMarkdown },
+  html: { contentType: 'text/html; charset=utf-8', render: renderHtml },
+  pdf: { contentType: 'application/pdf', render: renderPdf },
+  docx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    render: renderDocx,
+  },
+  pptx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    render: renderPptx,
+  },
+};
+
+export const REPORT_FORMATS = Object.keys(RENDERERS) as ReportFormat[];
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return REPORT_FORMATS.includes(format as ReportFormat);
+}
+
+/**
+ * A report rendered as a document, ready to send or save
+ */
+export interface RenderedReport {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * Render a report in one of the export formats
+ */
+export function renderReport(
+  report: ResearchReport,
+  format: ReportFormat,
+  options: ReportRenderOptions = {}
+): RenderedReport {
+  const { contentType, render } = RENDERERS[format];
+  const content = render(report, options);
+
+  return {
+    content: typeof content === 'string' ? Buffer.from(content, 'utf-8') : content,
+    contentType,
+    fileName: `${slugify(report.title) || 'research-report'}.${format}`,
+  };
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
@@ -0,0 +1,146 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import Database from 'better-sqlite3';
+import type { SearchProvider, SearchQuery, SearchResult } from './search-provider.js';
+import { applyQueryFilters, hostnameOf, normalizeDate } from './site-filter.js';
+
+/**
+ * A document in an offline search corpus
+ */
+export interface CorpusDocument {
+  title: string;
+  url: string;
+  snippet?: string;
+  content?: string;
+  publishedDate?: string;
+  source?: string;
+}
+
+const SNIPPET_LENGTH = 240;
+
+/**
+ * Offline search provider backed by a local corpus
+ *
+ * Serves results from either:
+ * - a JSON file containing an array of documents (or `{ "documents": [...] }`)
+ * - a SQLite database with a `search_documents` table
+ *   (title, url, snippet, content, published_date, source)
+ *
+ * Used for tests, demos and end-to-end runs without network access.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixture';
+  private documents: CorpusDocument[] | null = null;
+
+  constructor(
+    private corpusPath: string,
+    private defaultNumResults: number = 10
+  ) {}
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const numResults = query.numResults || this.defaultNumResults;
+    const terms = this.tokenize(query.query);
+    if (terms.length === 0) return [];
+
+    const scored = this.loadCorpus()
+      .map(doc => ({ doc, score: this.score(doc, terms) }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) =>
+        b.score - a.score ||
+        (b.doc.publishedDate || '').localeCompare(a.doc.publishedDate || '')
+      );
+
+    const results: SearchResult[] = scored.map(({ doc }, index) => ({
+      title: doc.title,
+      url: doc.url,
+      snippet: doc.snippet || this.buildSnippet(doc.content || '', terms),
+      publishedDate: normalizeDate(doc.publishedDate),
+      source: doc.source || hostnameOf(doc.url),
+      rank: index + 1,
+    }));
+
+    return applyQueryFilters(results, query)
+      .slice(0, numResults)
+      .map((result, index) => ({ ...result, rank: index + 1 }));
+  }
+
+  private loadCorpus(): CorpusDocument[] {
+    if (this.documents) return this.documents;
+
+    if (!existsSync(this.corpusPath)) {
+      this.documents = [];
+      return this.documents;
+    }
+
+    const extension = extname(this.corpusPath).toLowerCase();
+    if (extension === '.db' || extension === '.sqlite' || extension === '.sqlite3') {
+      this.documents = this.loadSQLiteCorpus();
+    } else {
+      const data = JSON.parse(readFileSync(this.corpusPath, 'utf-8')) as
+        CorpusDocument[] | { documents: CorpusDocument[] };
+      this.documents = Array.isArray(data) ? data : data.documents || [];
+    }
+
+    return this.documents;
+  }
+
+  private loadSQLiteCorpus(): CorpusDocument[] {
+    const db = new Database(this.corpusPath, { readonly: true });
+    try {
+      const rows = db.prepare('SELECT * FROM search_documents').all() as Array<{
+        title: string;
+        url: string;
+        snippet: string | null;
+        content: string | null;
+        published_date: string | null;
+        source: string | null;
+      }>;
+
+      return rows.map(row => ({
+        title: row.title,
+        url: row.url,
+        snippet: row.snippet || undefined,
+        content: row.content || undefined,
+        publishedDate: row.published_date || undefined,
+        source: row.source || undefined,
+      }));
+    } finally {
+      db.close();
+    }
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(term => term.length > 1);
+  }
+
+  /**
+   * Weighted term frequency: title matches count most, then snippet, then body
+   */
+  private score(doc: CorpusDocument, terms: string[]): number {
+    const title = this.tokenize(doc.title);
+    const snippet = this.tokenize(doc.snippet || '');
+    const content = this.tokenize(doc.content || '');
+
+    let score = 0;
+    for (const term of terms) {
+      score += title.filter(t => t === term).length * 3;
+      score += snippet.filter(t => t === term).length * 2;
+      score += content.filter(t => t === term).length;
+    }
+    return score;
+  }
+
+  private buildSnippet(content: string, terms: string[]): string {
+    if (!content) return '';
+
+    const lower = content.toLowerCase();
+    const positions = terms.map(term => lower.indexOf(term)).filter(pos => pos >= 0);
+    const start = positions.length > 0 ? Math.max(0, Math.min(...positions) - 60) : 0;
+    const snippet = content.slice(start, start + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+
+    return `${start > 0 ? '...' : ''}${snippet}${start + SNIPPET_LENGTH < content.length ? '...' : ''}`;
+  }
+}
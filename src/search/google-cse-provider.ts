@@ -0,0 +1,86 @@
+import type { SearchProvider, SearchQuery, SearchResult } from './search-provider.js';
+import { applyQueryFilters, hostnameOf, normalizeDate } from './site-filter.js';
+
+interface CustomSearchResponse {
+  error?: { message?: string };
+  items?: Array<{
+    title?: string;
+    link?: string;
+    snippet?: string;
+    displayLink?: string;
+    pagemap?: {
+      metatags?: Array<Record<string, string>>;
+    };
+  }>;
+}
+
+// The Custom Search JSON API returns at most 10 results per request
+const MAX_RESULTS_PER_REQUEST = 10;
+
+/**
+ * Google Programmable Search Engine (Custom Search JSON API)
+ */
+export class GoogleCSESearchProvider implements SearchProvider {
+  readonly name = 'google_cse';
+
+  constructor(
+    private apiKey: string,
+    private searchEngineId: string,
+    private defaultNumResults: number = 10
+  ) {}
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const numResults = Math.min(query.numResults || this.defaultNumResults, MAX_RESULTS_PER_REQUEST);
+    const params = new URLSearchParams({
+      key: this.apiKey,
+      cx: this.searchEngineId,
+      q: this.buildQueryString(query),
+      num: String(numResults),
+    });
+
+    // The API only supports site restriction for a single domain
+    if (query.sites && query.sites.length === 1) {
+      params.set('siteSearch', query.sites[0]);
+      params.set('siteSearchFilter', 'i');
+    }
+
+    if (query.dateRange?.from || query.dateRange?.to) {
+      const from = (query.dateRange.from || '1970-01-01').replace(/-/g, '');
+      const to = (query.dateRange.to || new Date().toISOString().slice(0, 10)).replace(/-/g, '');
+      params.set('sort', `date:r:${from}:${to}`);
+    }
+
+    const response = await fetch(`https://www.googleapis.com/customsearch/v1?${params.toString()}`);
+    const data = await response.json() as CustomSearchResponse;
+    if (!response.ok || data.error) {
+      throw new Error(`Google Custom Search request failed: ${data.error?.message || response.statusText}`);
+    }
+
+    const results: SearchResult[] = (data.items || [])
+      .filter(item => item.link && item.title)
+      .map((item, index) => {
+        const metatags = item.pagemap?.metatags?.[0] || {};
+        return {
+          title: item.title!,
+          url: item.link!,
+          snippet: item.snippet || '',
+          publishedDate: normalizeDate(metatags['article:published_time'] || metatags['og:updated_time']),
+          source: item.displayLink || hostnameOf(item.link!),
+          rank: index + 1,
+        };
+      });
+
+    return applyQueryFilters(results, query).slice(0, numResults);
+  }
+
+  private buildQueryString(query: SearchQuery): string {
+    let q = query.query;
+    if (query.sites && query.sites.length > 1) {
+      q += ` (${query.sites.map(site => `site:${site}`).join(' OR ')})`;
+    }
+    for (const site of query.excludeSites || []) {
+      q += ` -site:${site}`;
+    }
+    return q;
+  }
+}
@@ -0,0 +1,13 @@
+export {
+  createSearchProvider,
+  getSearchProvider,
+  searchConfigFromEnv,
+  type SearchProvider,
+  type SearchProviderConfig,
+  type SearchProviderType,
+  type SearchQuery,
+  type SearchResult,
+} from './search-provider.js';
+export { SerpApiSearchProvider } from './serpapi-provider.js';
+export { GoogleCSESearchProvider } from './google-cse-provider.js';
+export { FixtureSearchProvider, type CorpusDocument } from './fixture-provider.js';
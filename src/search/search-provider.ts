@@ -0,0 +1,105 @@
+import { SerpApiSearchProvider } from './serpapi-provider.js';
+import { GoogleCSESearchProvider } from './google-cse-provider.js';
+import { FixtureSearchProvider } from './fixture-provider.js';
+
+/**
+ * A single search request issued by an agent
+ */
+export interface SearchQuery {
+  query: string;
+  numResults?: number;
+  dateRange?: {
+    /** ISO date (YYYY-MM-DD), inclusive */
+    from?: string;
+    /** ISO date (YYYY-MM-DD), inclusive */
+    to?: string;
+  };
+  /** Restrict results to these domains (e.g. "sec.gov") */
+  sites?: string[];
+  /** Drop results from these domains */
+  excludeSites?: string[];
+}
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  publishedDate?: string;
+  /** Publisher or display domain, when the provider reports one */
+  source?: string;
+  /** 1-based position in the provider's ranking */
+  rank: number;
+}
+
+/**
+ * Common interface for all search backends used by research agents
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: SearchQuery): Promise<SearchResult[]>;
+}
+
+export type SearchProviderType = 'serpapi' | 'google_cse' | 'fixture';
+
+export interface SearchProviderConfig {
+  provider?: SearchProviderType;
+  /** Default number of results when a query does not specify one */
+  defaultNumResults?: number;
+  serpApiKey?: string;
+  googleApiKey?: string;
+  googleSearchEngineId?: string;
+  /** Path to a JSON or SQLite corpus for the offline fixture provider */
+  corpusPath?: string;
+}
+
+/**
+ * Create a search provider from explicit configuration
+ */
+export function createSearchProvider(config: SearchProviderConfig = {}): SearchProvider {
+  const defaultNumResults = config.defaultNumResults || 10;
+  const provider = config.provider || (config.serpApiKey ? 'serpapi' : 'fixture');
+
+  switch (provider) {
+    case 'serpapi':
+      if (!config.serpApiKey) {
+        throw new Error('SerpAPI search provider requires SERPAPI_KEY');
+      }
+      return new SerpApiSearchProvider(config.serpApiKey, defaultNumResults);
+
+    case 'google_cse':
+      if (!config.googleApiKey || !config.googleSearchEngineId) {
+        throw new Error('Google Custom Search provider requires GOOGLE_CSE_API_KEY and GOOGLE_CSE_ID');
+      }
+      return new GoogleCSESearchProvider(config.googleApiKey, config.googleSearchEngineId, defaultNumResults);
+
+    case 'fixture':
+      return new FixtureSearchProvider(config.corpusPath || './data/search-corpus.json', defaultNumResults);
+
+    default:
+      throw new Error(`Unknown search provider: ${provider}`);
+  }
+}
+
+/**
+ * Build search provider configuration from environment variables
+ */
+export function searchConfigFromEnv(): SearchProviderConfig {
+  return {
+    provider: process.env.SEARCH_PROVIDER as SearchProviderType | undefined,
+    defaultNumResults: parseInt(process.env.SEARCH_RESULTS_PER_QUERY || '10', 10),
+    serpApiKey: process.env.SERPAPI_KEY || undefined,
+    googleApiKey: process.env.GOOGLE_CSE_API_KEY || undefined,
+    googleSearchEngineId: process.env.GOOGLE_CSE_ID || undefined,
+    corpusPath: process.env.SEARCH_CORPUS_PATH || undefined,
+  };
+}
+
+// Singleton instance for shared access
+let instance: SearchProvider | null = null;
+
+export function getSearchProvider(): SearchProvider {
+  if (!instance) {
+    instance = createSearchProvider(searchConfigFromEnv());
+  }
+  return instance;
+}
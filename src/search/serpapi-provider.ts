@@ -0,0 +1,90 @@
+import type { SearchProvider, SearchQuery, SearchResult } from './search-provider.js';
+import { applyQueryFilters, hostnameOf, normalizeDate } from './site-filter.js';
+
+interface SerpApiResponse {
+  error?: string;
+  organic_results?: Array<{
+    position?: number;
+    title?: string;
+    link?: string;
+    snippet?: string;
+    date?: string;
+    source?: string;
+  }>;
+}
+
+/**
+ * Google web search through SerpAPI (https://serpapi.com)
+ */
+export class SerpApiSearchProvider implements SearchProvider {
+  readonly name = 'serpapi';
+
+  constructor(
+    private apiKey: string,
+    private defaultNumResults: number = 10
+  ) {}
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const numResults = query.numResults || this.defaultNumResults;
+    const params = new URLSearchParams({
+      engine: 'google',
+      q: this.buildQueryString(query),
+      num: String(numResults),
+      api_key: this.apiKey,
+    });
+
+    const tbs = this.buildDateFilter(query);
+    if (tbs) {
+      params.set('tbs', tbs);
+    }
+
+    const response = await fetch(`https://serpapi.com/search.json?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`SerpAPI request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as SerpApiResponse;
+    if (data.error) {
+      throw new Error(`SerpAPI error: ${data.error}`);
+    }
+
+    const results: SearchResult[] = (data.organic_results || [])
+      .filter(r => r.link && r.title)
+      .map((r, index) => ({
+        title: r.title!,
+        url: r.link!,
+        snippet: r.snippet || '',
+        publishedDate: normalizeDate(r.date),
+        source: r.source || hostnameOf(r.link!),
+        rank: r.position || index + 1,
+      }));
+
+    return applyQueryFilters(results, query).slice(0, numResults);
+  }
+
+  private buildQueryString(query: SearchQuery): string {
+    let q = query.query;
+    if (query.sites && query.sites.length > 0) {
+      q += ` (${query.sites.map(site => `site:${site}`).join(' OR ')})`;
+    }
+    for (const site of query.excludeSites || []) {
+      q += ` -site:${site}`;
+    }
+    return q;
+  }
+
+  private buildDateFilter(query: SearchQuery): string | null {
+    if (!query.dateRange?.from && !query.dateRange?.to) return null;
+
+    // Google expects custom date ranges as M/D/YYYY
+    const toGoogleDate = (iso: string) => {
+      const [year, month, day] = iso.split('-');
+      return `${parseInt(month, 10)}/${parseInt(day, 10)}/${year}`;
+    };
+
+    const parts = ['cdr:1'];
+    if (query.dateRange.from) parts.push(`cd_min:${toGoogleDate(query.dateRange.from)}`);
+    if (query.dateRange.to) parts.push(`cd_max:${toGoogleDate(query.dateRange.to)}`);
+    return parts.join(',');
+  }
+}
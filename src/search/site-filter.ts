@@ -0,0 +1,52 @@
+import type { SearchQuery, SearchResult } from './search-provider.js';
+
+/**
+ * Extract the hostname of a URL, without a leading "www."
+ */
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Check whether a URL belongs to a domain or one of its subdomains
+ */
+export function matchesSite(url: string, site: string): boolean {
+  const host = hostnameOf(url);
+  const domain = site.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '').toLowerCase();
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Apply site and date filters locally. Remote providers only support some of
+ * these natively, so results are always re-checked before reaching an agent.
+ */
+export function applyQueryFilters(results: SearchResult[], query: SearchQuery): SearchResult[] {
+  return results.filter(result => {
+    if (query.sites && query.sites.length > 0 && !query.sites.some(site => matchesSite(result.url, site))) {
+      return false;
+    }
+    if (query.excludeSites && query.excludeSites.some(site => matchesSite(result.url, site))) {
+      return false;
+    }
+    if (query.dateRange && result.publishedDate) {
+      const published = result.publishedDate.slice(0, 10);
+      if (query.dateRange.from && published < query.dateRange.from) return false;
+      if (query.dateRange.to && published > query.dateRange.to) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Normalize a provider date string to ISO (YYYY-MM-DD) when it can be parsed
+ */
+export function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return undefined;
+  return parsed.toISOString().slice(0, 10);
+}
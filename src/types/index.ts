@@ -23,6 +23,31 @@ export const KeyQuestionSchema = z.object({
   dataSources: z.array(z.string()).optional(),
 });
 
+export const ResearchBudgetSchema = z.object({
+  /** Maximum tokens (input, output and cache) for the whole project */
+  maxTokens: z.number().int().positive().optional(),
+  /** Maximum model cost in USD for the whole project */
+  maxCostUsd: z.number().positive().optional(),
+  /** Maximum tool calls an agent may make within a single task */
+  maxToolCallsPerTask: z.number().int().positive().optional(),
+  /** Budget fractions at which budget:warning events are emitted */
+  warningThresholds: z.array(z.number().gt(0).lt(1)).default([0.5, 0.75, 0.9]),
+  /** Cheaper model used for new tasks once downgradeAt is reached */
+  downgradeModel: z.string().optional(),
+  downgradeAt: z.number().gt(0).lte(1).default(0.75),
+  /** Once skipAt is reached, tasks below this priority are skipped */
+  skipBelowPriority: z.enum(['critical', 'high', 'medium', 'low']).default('high'),
+  skipAt: z.number().gt(0).lte(1).default(0.9),
+  /** Share of the budget held back for writing the final report */
+  reportReserve: z.number().gte(0).lt(1).default(0.1),
+});
+
+/**
+ * Points in the workflow where a project can stop for an analyst to review
+ * its progress before continuing
+ */
+export const ApprovalGateSchema = z.enum(['after_planning', 'after_research', 'before_report']);
+
 export const ScopingDocumentSchema = z.object({
   id: z.string(),
   projectName: z.string(),
@@ -51,12 +76,17 @@ export const ScopingDocumentSchema = z.object({
   }),
   outputFormat: z.enum(['detailed_report', 'executive_summary', 'data_export', 'all']).default('detailed_report'),
   deadline: z.string().optional(),
+  budget: ResearchBudgetSchema.optional(),
+  /** Checkpoints that wait for analyst approval (default: the server's APPROVAL_GATES) */
+  approvalGates: z.array(ApprovalGateSchema).optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
 export type KeyQuestion = z.infer<typeof KeyQuestionSchema>;
 export type ScopingDocument = z.infer<typeof ScopingDocumentSchema>;
+export type ResearchBudget = z.infer<typeof ResearchBudgetSchema>;
+export type ApprovalGate = z.infer<typeof ApprovalGateSchema>;
 
 // ============================================================================
 // Research Project Types
@@ -71,7 +101,16 @@ export type ResearchStatus =
   | 'reviewing'
   | 'completed'
   | 'failed'
-  | 'paused';
+  | 'paused'
+  | 'cancelled'
+  | 'interrupted'
+  | 'awaiting_approval';
+
+/**
+ * Workflow phases in order. The last completed phase is checkpointed so a
+ * resumed project continues from the next one.
+ */
+export type WorkflowPhase = 'planning' | 'research' | 'synthesis' | 'report' | 'review' | 'finalize';
 
 export interface ResearchProject {
   id: string;
@@ -87,9 +126,127 @@ export interface ResearchProject {
     startedAt: string;
     completedAt?: string;
     totalTokensUsed: number;
+    /** Model cost in USD, from the configured price table */
+    totalCostUsd: number;
+    /** Models used without a configured price; their cost is not counted */
+    unpricedModels?: string[];
     totalSearches: number;
     totalSources: number;
+    /** Budget consumption, when the scoping document sets a budget */
+    budget?: BudgetStatus;
   };
+  /** The checkpoint the workflow is stopped at while awaiting approval */
+  approval?: ApprovalRequest;
+  /** Decisions taken at earlier checkpoints */
+  approvals?: ApprovalRecord[];
+  /** Analyst guidance, given to every agent that runs after it was added */
+  guidance?: string[];
+}
+
+export interface ApprovalRequest {
+  gate: ApprovalGate;
+  requestedAt: string;
+  findingsCount: number;
+  /** Plan tasks that have not run yet */
+  pendingTasks: number;
+}
+
+/**
+ * An analyst's decision at a checkpoint. Removed tasks must not have run;
+ * added tasks take the same fields as a submitted plan, with id, priority
+ * and dependencies optional.
+ */
+export interface ApprovalDecision {
+  guidance?: string;
+  addTasks?: Array<Partial<PlanTask> & Pick<PlanTask, 'agentType'>>;
+  removeTaskIds?: string[];
+}
+
+export interface ApprovalRecord {
+  gate: ApprovalGate;
+  requestedAt: string;
+  approvedAt: string;
+  guidance?: string;
+  addedTaskIds: string[];
+  removedTaskIds: string[];
+}
+
+export interface BudgetStatus {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  tokensUsed: number;
+  costUsd: number;
+  /** Highest of token and cost utilization, 0-1 */
+  utilization: number;
+  downgraded: boolean;
+  /** Research budget used up; only the report reserve remains */
+  researchExhausted: boolean;
+  /** Whole budget, including the report reserve, used up */
+  exhausted: boolean;
+  skippedTasks: string[];
+}
+
+export type PlanTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'blocked';
+
+/**
+ * One agent task in a project's research plan
+ */
+export interface PlanTask {
+  id: string;
+  agentType: string;
+  questionId?: string;
+  question?: string;
+  additionalContext?: string;
+  priority: number;
+  /** IDs of tasks that must complete before this one starts */
+  dependencies: string[];
+  status: PlanTaskStatus;
+  /** Why the task failed or was skipped or blocked */
+  reason?: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** Research round the task belongs to; round 1 is the initial plan */
+  round: number;
+  /** What the task looked for but could not find */
+  gaps?: string[];
+  /** Agent that ran the task; its findings carry the same ID */
+  agentId?: string;
+}
+
+export interface ResearchPlan {
+  projectId: string;
+  tasks: PlanTask[];
+}
+
+export interface EstimateRange {
+  low: number;
+  high: number;
+}
+
+/**
+ * Expected token use and cost of running a plan. The low end assumes no
+ * follow-up rounds or report revision; the high end assumes every round
+ * and revision runs.
+ */
+export interface CostEstimate {
+  tokens: EstimateRange;
+  costUsd: EstimateRange;
+  byAgentType: Record<string, { runs: EstimateRange; tokens: EstimateRange; costUsd: EstimateRange }>;
+}
+
+/**
+ * A research plan computed from a scoping document without running it
+ */
+export interface PlanPreview {
+  projectName: string;
+  targetCompany: string;
+  tasks: PlanTask[];
+  /** Agents assigned to each key question */
+  questions: Array<{ questionId: string; question: string; agentTypes: string[] }>;
+  phases: WorkflowPhase[];
+  estimate: CostEstimate;
+  /** For example, a high estimate above the scoping document's budget */
+  warnings: string[];
 }
 
 export interface AgentStatus {
@@ -98,12 +255,34 @@ export interface AgentStatus {
   name: string;
   status: 'idle' | 'active' | 'completed' | 'error';
   currentTask: string | null;
+  /** Tasks of this type running now; concurrent tasks share one status */
+  activeTasks: number;
   progress: number;
   tokensUsed: number;
+  costUsd: number;
   startedAt?: string;
   completedAt?: string;
 }
 
+/**
+ * Token consumption and cost for one or more model requests
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens written to the prompt cache */
+  cacheCreationInputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadInputTokens: number;
+  /** Sum of input, output and cache tokens */
+  totalTokens: number;
+  costUsd: number;
+  /** Number of model requests */
+  requests: number;
+  /** Models missing from the price table, whose cost is counted as $0 */
+  unpricedModels?: string[];
+}
+
 export type AgentType =
   | 'orchestrator'
   | 'web_researcher'
@@ -136,10 +315,76 @@ export interface ResearchFinding {
     lastUpdated: string;
     searchQuery?: string;
     rawData?: unknown;
+    /** Canonical finding this one was merged into; superseded findings are kept for audit */
+    supersededBy?: string;
+    /** Findings merged into this canonical finding */
+    mergedFrom?: string[];
+    /** Conflicts this finding is a party to */
+    conflicts?: string[];
   };
   embedding?: number[];
 }
 
+/**
+ * A dated development reported in the news, stored in a news_event
+ * finding's metadata.rawData
+ */
+export interface NewsEvent {
+  /** YYYY-MM-DD */
+  date: string;
+  type:
+    | 'product_launch'
+    | 'lawsuit'
+    | 'executive_change'
+    | 'funding'
+    | 'acquisition'
+    | 'partnership'
+    | 'earnings'
+    | 'regulatory'
+    | 'layoffs'
+    | 'other';
+  headline: string;
+  description: string;
+  /** -1 (negative) to 1 (positive) for the company */
+  sentiment: number;
+  sourceIds: string[];
+}
+
+/**
+ * One finding's side of a contradiction
+ */
+export interface ConflictClaim {
+  findingId: string;
+  agentType: AgentType;
+  value: number;
+  unit: 'usd' | 'percent' | 'count';
+  /** Sentence the value was read from */
+  text: string;
+  sources: Array<Pick<Source, 'id' | 'title' | 'url'>>;
+}
+
+/**
+ * Findings that report different values for the same metric of the same
+ * entity and period, within one key question
+ */
+export interface FindingConflict {
+  id: string;
+  projectId: string;
+  questionId: string;
+  entity: string;
+  metric: string;
+  period?: string;
+  claims: ConflictClaim[];
+  status: 'open' | 'resolved';
+  detectedAt: string;
+  resolution?: {
+    note: string;
+    /** Finding whose value was accepted, if any */
+    acceptedFindingId?: string;
+    resolvedAt: string;
+  };
+}
+
 export interface Source {
   id: string;
   type: 'web' | 'document' | 'api' | 'database' | 'news' | 'financial_report' | 'social_media';
@@ -167,14 +412,114 @@ export interface ResearchReport {
   riskFactors: RiskFactor[];
   recommendations: string[];
   appendices: Appendix[];
+  /** Inline citations in the report text, resolved against findings and sources */
+  citations?: ReportCitations;
   metadata: {
     generatedAt: string;
     wordCount: number;
     sourcesCount: number;
     confidenceScore: number;
+    /** Set when research stopped early and the report covers completed work only */
+    partial?: boolean;
+    partialReason?: string;
+    /** Number of revision passes after quality review */
+    revisions?: number;
+    review?: QualityReview;
   };
 }
 
+/**
+ * Citations in report text. Markers such as [F2] cite a finding and [S5] a
+ * source; source numbers match the bibliography.
+ */
+export interface ReportCitations {
+  /** Cited findings, numbered in order of first citation */
+  findings: CitedFinding[];
+  /** Sources cited directly or through a cited finding, in order of first citation */
+  bibliography: BibliographyEntry[];
+  /** Citations that matched no finding or source and were removed */
+  unverified: UnverifiedCitation[];
+}
+
+export interface CitedFinding {
+  key: string;
+  findingId: string;
+  title: string;
+  /** Bibliography keys of the finding's sources */
+  sourceKeys: string[];
+}
+
+export interface BibliographyEntry {
+  key: string;
+  sourceId: string;
+  title: string;
+  url?: string;
+  author?: string;
+  publishedDate?: string;
+}
+
+export interface UnverifiedCitation {
+  /** Where the citation appeared, e.g. "sections/financial" or "keyInsights/2" */
+  location: string;
+  /** The citation as written, e.g. "F41" */
+  citation: string;
+}
+
+/**
+ * A sentence of a report with the findings and sources it cites
+ */
+export interface CitationLineage {
+  location: string;
+  /** Sentence text with citation markers removed */
+  text: string;
+  findings: CitedFinding[];
+  sources: BibliographyEntry[];
+}
+
+export interface ReviewIssue {
+  id: string;
+  type: 'unsupported_claim' | 'missing_citation' | 'unanswered_question' | 'overstated_confidence';
+  severity: 'high' | 'medium' | 'low';
+  description: string;
+  sectionId?: string;
+  questionId?: string;
+  findingIds?: string[];
+  suggestion?: string;
+}
+
+/**
+ * Quality review of a report against the findings and sources behind it
+ */
+export interface QualityReview {
+  id: string;
+  /** ID of the report finding that was reviewed */
+  reportFindingId: string;
+  /** 0-100 */
+  score: number;
+  passed: boolean;
+  summary: string;
+  issues: ReviewIssue[];
+  reviewedAt: string;
+}
+
+/**
+ * Consolidated answer to one key question, synthesized from its findings
+ */
+export interface QuestionAnswer {
+  id: string;
+  projectId: string;
+  questionId: string;
+  question: string;
+  answer: string;
+  status: 'answered' | 'partially_answered' | 'unanswered';
+  confidence: 'high' | 'medium' | 'low';
+  supportingFindingIds: string[];
+  contradictingFindingIds: string[];
+  /** What the research could not establish */
+  gaps: string[];
+  synthesizedAt: string;
+}
+
 export interface ReportSection {
   id: string;
   title: string;
@@ -224,7 +569,7 @@ export interface MemoryEntry {
   id: string;
   projectId: string;
   agentId: string;
-  type: 'finding' | 'insight' | 'task' | 'context' | 'source' | 'error';
+  type: 'finding' | 'insight' | 'task' | 'context' | 'source' | 'error' | 'conflict';
   content: string;
   metadata: Record<string, unknown>;
   embedding?: number[];
@@ -248,6 +593,8 @@ export interface SharedContext {
 
 export interface CreateProjectRequest {
   scopingDocument: Omit<ScopingDocument, 'id' | 'createdAt' | 'updatedAt'>;
+  /** Plan from a preview, possibly edited, to run instead of planning from scratch */
+  plan?: PlanTask[];
 }
 
 export interface ProjectListResponse {
@@ -277,8 +624,15 @@ export type WebSocketEventType =
   | 'agent:error'
   | 'finding:discovered'
   | 'finding:updated'
+  | 'question:answered'
   | 'report:generating'
-  | 'report:completed';
+  | 'report:completed'
+  | 'report:reviewed'
+  | 'budget:warning'
+  | 'budget:exhausted'
+  | 'task:skipped'
+  | 'approval:requested'
+  | 'approval:granted';
 
 export interface WebSocketEvent {
   type: WebSocketEventType;
@@ -0,0 +1,70 @@
+import type { CostEstimate, EstimateRange } from '../types/index.js';
+import { findModelPricing, type PricingTable } from './pricing.js';
+
+/**
+ * A kind of task in a plan and how many times it may run
+ */
+export interface EstimatedTask {
+  agentType: string;
+  model: string;
+  runs: EstimateRange;
+}
+
+interface TaskTokens {
+  input: EstimateRange;
+  output: EstimateRange;
+}
+
+// Typical tokens for one task, by agent. Tool-using agents resend the
+// conversation on every tool round, so input dominates their usage.
+const TASK_TOKENS: Record<string, TaskTokens> = {
+  web_researcher: { input: { low: 20_000, high: 80_000 }, output: { low: 3_000, high: 8_000 } },
+  financial_analyst: { input: { low: 25_000, high: 90_000 }, output: { low: 3_000, high: 8_000 } },
+  competitive_intelligence: { input: { low: 15_000, high: 60_000 }, output: { low: 3_000, high: 6_000 } },
+  news_monitor: { input: { low: 8_000, high: 25_000 }, output: { low: 2_000, high: 5_000 } },
+  data_synthesizer: { input: { low: 4_000, high: 12_000 }, output: { low: 1_000, high: 2_000 } },
+  report_generator: { input: { low: 15_000, high: 40_000 }, output: { low: 6_000, high: 12_000 } },
+  quality_reviewer: { input: { low: 15_000, high: 40_000 }, output: { low: 1_500, high: 3_000 } },
+};
+
+/**
+ * Estimate the token use and cost of a set of tasks from typical per-task
+ * usage. Models missing from the price table count tokens but no cost.
+ */
+export function estimateCost(tasks: EstimatedTask[], pricing: PricingTable): CostEstimate {
+  const estimate: CostEstimate = {
+    tokens: { low: 0, high: 0 },
+    costUsd: { low: 0, high: 0 },
+    byAgentType: {},
+  };
+
+  for (const task of tasks) {
+    const tokens = TASK_TOKENS[task.agentType] || TASK_TOKENS.web_researcher;
+    const price = findModelPricing(task.model, pricing);
+    const cost = (input: number, output: number) =>
+      price ? (input * price.input + output * price.output) / 1_000_000 : 0;
+
+    const agent = estimate.byAgentType[task.agentType] ||= {
+      runs: { low: 0, high: 0 },
+      tokens: { low: 0, high: 0 },
+      costUsd: { low: 0, high: 0 },
+    };
+    const add = (range: EstimateRange, low: number, high: number) => {
+      range.low += low;
+      range.high += high;
+    };
+
+    const lowTokens = task.runs.low * (tokens.input.low + tokens.output.low);
+    const highTokens = task.runs.high * (tokens.input.high + tokens.output.high);
+    const lowCost = task.runs.low * cost(tokens.input.low, tokens.output.low);
+    const highCost = task.runs.high * cost(tokens.input.high, tokens.output.high);
+
+    add(agent.runs, task.runs.low, task.runs.high);
+    add(agent.tokens, lowTokens, highTokens);
+    add(agent.costUsd, lowCost, highCost);
+    add(estimate.tokens, lowTokens, highTokens);
+    add(estimate.costUsd, lowCost, highCost);
+  }
+
+  return estimate;
+}
@@ -0,0 +1,16 @@
+export {
+  DEFAULT_PRICING,
+  loadPricingTable,
+  findModelPricing,
+  getPricingTable,
+  type ModelPricing,
+  type PricingTable,
+} from './pricing.js';
+export {
+  emptyUsage,
+  recordResponseUsage,
+  addUsage,
+  formatCost,
+  type ResponseUsage,
+} from './token-usage.js';
+export { estimateCost, type EstimatedTask } from './cost-estimate.js';
@@ -0,0 +1,71 @@
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Prompt cache writes */
+  cacheWrite: number;
+  /** Prompt cache reads */
+  cacheRead: number;
+}
+
+/**
+ * Prices keyed by model ID prefix. The longest matching prefix wins, so
+ * dated model IDs (and Vertex AI "@date" IDs) resolve to their family.
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+export const DEFAULT_PRICING: PricingTable = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+/**
+ * Load the price table, applying overrides from a JSON file of the same
+ * shape (e.g. negotiated rates) on top of the defaults
+ */
+export function loadPricingTable(path?: string): PricingTable {
+  if (!path) return { ...DEFAULT_PRICING };
+
+  if (!existsSync(path)) {
+    throw new Error(`Model pricing file not found: ${path}`);
+  }
+
+  const overrides = JSON.parse(readFileSync(path, 'utf-8')) as PricingTable;
+  return { ...DEFAULT_PRICING, ...overrides };
+}
+
+/**
+ * Find the price entry for a model ID
+ */
+export function findModelPricing(model: string, table: PricingTable): ModelPricing | null {
+  const normalized = model.toLowerCase().replace('@', '-');
+  let best: string | null = null;
+
+  for (const prefix of Object.keys(table)) {
+    if (normalized.startsWith(prefix.toLowerCase()) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+
+  return best ? table[best] : null;
+}
+
+// Singleton instance for shared access
+let instance: PricingTable | null = null;
+
+export function getPricingTable(): PricingTable {
+  if (!instance) {
+    instance = loadPricingTable(process.env.MODEL_PRICING_PATH || undefined);
+  }
+  return instance;
+}
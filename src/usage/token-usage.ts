@@ -0,0 +1,89 @@
+import type { TokenUsage } from '../types/index.js';
+import { findModelPricing, type PricingTable } from './pricing.js';
+
+/**
+ * Usage block reported on a model response
+ */
+export interface ResponseUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    requests: 0,
+  };
+}
+
+/**
+ * Add one model response's usage and cost to a running total. A model
+ * missing from the price table adds no cost and is listed in
+ * `unpricedModels`.
+ */
+export function recordResponseUsage(
+  usage: TokenUsage,
+  model: string,
+  response: ResponseUsage,
+  pricing: PricingTable
+): TokenUsage {
+  const cacheCreation = response.cache_creation_input_tokens || 0;
+  const cacheRead = response.cache_read_input_tokens || 0;
+
+  usage.inputTokens += response.input_tokens;
+  usage.outputTokens += response.output_tokens;
+  usage.cacheCreationInputTokens += cacheCreation;
+  usage.cacheReadInputTokens += cacheRead;
+  usage.totalTokens += response.input_tokens + response.output_tokens + cacheCreation + cacheRead;
+  usage.requests += 1;
+
+  const price = findModelPricing(model, pricing);
+  if (price) {
+    usage.costUsd += (
+      response.input_tokens * price.input +
+      response.output_tokens * price.output +
+      cacheCreation * price.cacheWrite +
+      cacheRead * price.cacheRead
+    ) / 1_000_000;
+  } else {
+    addUnpricedModels(usage, [model]);
+  }
+
+  return usage;
+}
+
+/**
+ * Add one usage total into another
+ */
+export function addUsage(target: TokenUsage, source: TokenUsage): TokenUsage {
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheCreationInputTokens += source.cacheCreationInputTokens;
+  target.cacheReadInputTokens += source.cacheReadInputTokens;
+  target.totalTokens += source.totalTokens;
+  target.costUsd += source.costUsd;
+  target.requests += source.requests;
+  addUnpricedModels(target, source.unpricedModels || []);
+  return target;
+}
+
+function addUnpricedModels(usage: TokenUsage, models: string[]): void {
+  const added = models.filter(model => !usage.unpricedModels?.includes(model));
+  if (added.length > 0) {
+    usage.unpricedModels = [...(usage.unpricedModels || []), ...added];
+  }
+}
+
+/**
+ * Format a USD amount for display, keeping sub-cent precision for small runs
+ */
+export function formatCost(costUsd: number): string {
+  return costUsd < 1 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
@@ -0,0 +1,286 @@
+import type { MetricResult, MetricsAnalysis } from '../financial/metrics-engine.js';
+import { formatCost } from '../usage/index.js';
+import type { Appendix, NewsEvent, PlanTask, ReportCitations, ResearchFinding, Source } from '../types/index.js';
+
+/**
+ * Stored data report appendices are built from. Nothing here comes from
+ * the model, so appendices are the same however often the report is
+ * rewritten.
+ */
+export interface AppendixData {
+  plan: PlanTask[];
+  findings: ResearchFinding[];
+  sources: Source[];
+  /** Task records with the model each task used */
+  tasks: TaskUsageRecord[];
+  maxDepth: number;
+  citations?: ReportCitations;
+}
+
+export interface TaskUsageRecord {
+  agentType: string;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Financial analyst calculations as stored on its findings
+ */
+interface StoredCalculation extends MetricsAnalysis {
+  calculationId: string;
+  company?: string;
+}
+
+const APPENDIX_TYPES: Appendix['type'][] = ['source_list', 'timeline', 'data_table', 'methodology'];
+
+/**
+ * All generated appendices, in the order they appear in the report. Types
+ * with no data are left out.
+ */
+export function buildAppendices(data: AppendixData): Appendix[] {
+  return [
+    sourceListAppendix(data.sources, data.citations),
+    timelineAppendix(data.findings, data.sources),
+    financialMetricsAppendix(data.findings),
+    data.plan.length > 0 ? methodologyAppendix(data.plan, data.maxDepth, data.tasks) : null,
+  ].filter((appendix): appendix is Appendix => appendix !== null);
+}
+
+/**
+ * Replace a report's generated appendices, keeping any others
+ */
+export function mergeAppendices(existing: Appendix[], generated: Appendix[]): Appendix[] {
+  const replaced = new Set(generated.map(appendix => appendix.id));
+  return [
+    ...existing.filter(appendix => !replaced.has(appendix.id) && !APPENDIX_TYPES.includes(appendix.type)),
+    ...generated,
+  ];
+}
+
+/**
+ * Every source consulted, most relevant first, with when it was accessed
+ * and its bibliography key if the report cites it
+ */
+export function sourceListAppendix(sources: Source[], citations?: ReportCitations): Appendix | null {
+  if (sources.length === 0) return null;
+
+  const keys = new Map((citations?.bibliography || []).map(entry => [entry.sourceId, entry.key]));
+  const sorted = [...sources].sort((a, b) => b.relevanceScore - a.relevanceScore || a.title.localeCompare(b.title));
+
+  return {
+    id: 'sources',
+    title: 'Sources consulted',
+    type: 'source_list',
+    content: sorted.map(source => ({
+      Citation: keys.get(source.id) || '',
+      Source: source.url ? `[${source.title.replace(/[[\]]/g, '')}](${source.url})` : source.title,
+      Type: words(source.type),
+      Published: source.publishedDate?.slice(0, 10) || '',
+      Accessed: source.accessedAt.slice(0, 10),
+      Relevance: `${Math.round(source.relevanceScore * 100)}%`,
+    })),
+  };
+}
+
+/**
+ * Dated events in order: news events and SEC filings
+ */
+export function timelineAppendix(findings: ResearchFinding[], sources: Source[]): Appendix | null {
+  const titles = new Map(sources.map(source => [source.id, source.title]));
+
+  const events = findings
+    .filter(f => f.category === 'news_event' && f.metadata.rawData && !f.metadata.supersededBy)
+    .map(f => {
+      const event = f.metadata.rawData as NewsEvent;
+      const eventSources = event.sourceIds.map(id => titles.get(id)).filter(Boolean);
+      return {
+        Date: event.date,
+        Type: capitalize(words(event.type)),
+        Event: `${event.headline}. ${event.description}`,
+        Sources: (eventSources.length > 0 ? eventSources : f.sources.map(s => s.title)).join('; '),
+      };
+    });
+
+  const filings = sources
+    .filter(source => source.type === 'financial_report' && source.metadata?.form && source.publishedDate)
+    .map(source => ({
+      Date: source.publishedDate!.slice(0, 10),
+      Type: 'Filing',
+      Event: `${source.metadata!.form} filed${source.metadata!.reportDate ? ` for the period ended ${source.metadata!.reportDate}` : ''}`,
+      Sources: source.title,
+    }));
+
+  const rows = [...events, ...filings].sort((a, b) => a.Date.localeCompare(b.Date) || a.Event.localeCompare(b.Event));
+  if (rows.length === 0) return null;
+
+  return { id: 'timeline', title: 'Timeline of events', type: 'timeline', content: rows };
+}
+
+/**
+ * Metrics the financial analyst calculated, by company, metric and period.
+ * Each row keeps its formula so the figure can be checked.
+ */
+export function financialMetricsAppendix(findings: ResearchFinding[]): Appendix | null {
+  const rows = new Map<string, { company: string; metric: MetricResult }>();
+
+  for (const finding of findings) {
+    if (finding.metadata.supersededBy) continue;
+    const rawData = finding.metadata.rawData as { calculations?: StoredCalculation[] } | undefined;
+
+    for (const calculation of rawData?.calculations || []) {
+      for (const metric of calculation.metrics) {
+        if (metric.value === null) continue;
+        const company = metric.company || calculation.company || '';
+        rows.set(`${company}|${metric.name}|${metric.period || ''}`, { company, metric });
+      }
+    }
+  }
+
+  if (rows.size === 0) return null;
+
+  const sorted = [...rows.values()].sort((a, b) =>
+    a.company.localeCompare(b.company) ||
+    a.metric.name.localeCompare(b.metric.name) ||
+    (a.metric.period || '').localeCompare(b.metric.period || '')
+  );
+
+  return {
+    id: 'financial-metrics',
+    title: 'Financial metrics',
+    type: 'data_table',
+    content: sorted.map(({ company, metric }) => ({
+      Company: company,
+      Metric: metricLabel(metric.name),
+      Period: metric.period || '',
+      Value: formatMetric(metric),
+      Formula: metric.formula,
+    })),
+  };
+}
+
+/**
+ * How the research was done: the rounds and what each covered, every
+ * planned task, and the agents and models that did the work
+ */
+export function methodologyAppendix(plan: PlanTask[], maxDepth: number, tasks: TaskUsageRecord[] = []): Appendix {
+  const rounds = [...new Set(plan.map(task => task.round))].sort((a, b) => a - b);
+
+  const lines = rounds.map(round => {
+    const roundTasks = plan.filter(task => task.round === round);
+    const count = (status: PlanTask['status']) => roundTasks.filter(task => task.status === status).length;
+    const notRun = count('skipped') + count('blocked');
+    const gaps = roundTasks.reduce((total, task) => total + (task.gaps?.length || 0), 0);
+
+    const outcome = [
+      `${count('completed')} completed`,
+      count('failed') > 0 ? `${count('failed')} failed` : '',
+      notRun > 0 ? `${notRun} not run` : '',
+    ].filter(Boolean).join(', ');
+    const purpose = round === 1 ? 'initial research plan' : 'follow-up on gaps and low-confidence findings';
+
+    return `- **Round ${round}** (${purpose}): ${roundTasks.length} task(s), ${outcome}; ${gaps} gap(s) reported`;
+  });
+
+  const stopped = rounds.length >= maxDepth
+    ? `Research stopped at the configured limit of ${maxDepth} round(s).`
+    : 'Research stopped when no gaps or low-confidence findings remained to follow up, or the budget ran out.';
+
+  const taskRows = [...plan]
+    .sort((a, b) => a.round - b.round || b.priority - a.priority)
+    .map(task => `| ${task.round} | ${words(task.agentType)} | ${cell(task.question || 'General research')} | ${task.status}${task.reason ? `: ${cell(task.reason)}` : ''} |`);
+
+  const agentTypes = [...new Set(plan.map(task => task.agentType))].sort();
+  const agents = agentTypes.map(agentType => {
+    const agentTasks = plan.filter(task => task.agentType === agentType);
+    const completed = agentTasks.filter(task => task.status === 'completed').length;
+    return `- ${capitalize(words(agentType))}: ${agentTasks.length} task(s), ${completed} completed`;
+  });
+
+  const parts = [
+    `Research ran in ${rounds.length} round(s). After each round, the gaps agents reported and findings rated low confidence were turned into follow-up tasks for the next.`,
+    lines.join('\n'),
+    stopped,
+    '**Agents**',
+    agents.join('\n'),
+    '**Tasks**',
+    ['| Round | Agent | Question | Status |', '| --- | --- | --- | --- |', ...taskRows].join('\n'),
+  ];
+
+  const models = modelUsageRows(tasks);
+  if (models.length > 0) {
+    parts.push(
+      '**Models used**',
+      ['| Model | Agents | Tasks | Input tokens | Output tokens | Cost |', '| --- | --- | --- | --- | --- | --- |', ...models].join('\n')
+    );
+  }
+
+  return {
+    id: 'methodology',
+    title: 'Research methodology',
+    type: 'methodology',
+    content: parts.join('\n\n'),
+  };
+}
+
+function modelUsageRows(tasks: TaskUsageRecord[]): string[] {
+  const byModel = new Map<string, TaskUsageRecord[]>();
+  for (const task of tasks) {
+    if (!task.model) continue;
+    byModel.set(task.model, [...(byModel.get(task.model) || []), task]);
+  }
+
+  return [...byModel.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([model, modelTasks]) => {
+      const sum = (field: 'inputTokens' | 'outputTokens' | 'costUsd') =>
+        modelTasks.reduce((total, task) => total + task[field], 0);
+      const agentTypes = [...new Set(modelTasks.map(task => words(task.agentType)))].sort().join(', ');
+      return `| ${model} | ${agentTypes} | ${modelTasks.length} | ${sum('inputTokens').toLocaleString('en-US')} | ` +
+        `${sum('outputTokens').toLocaleString('en-US')} | ${formatCost(sum('costUsd'))} |`;
+    });
+}
+
+function formatMetric(metric: MetricResult): string {
+  const value = metric.value!;
+  switch (metric.unit) {
+    case 'percent':
+      return `${value}%`;
+    case 'multiple':
+      return `${value}x`;
+    case 'months':
+      return `${value} months`;
+    case 'ratio':
+      return String(value);
+    case 'currency': {
+      const abs = Math.abs(value);
+      const sign = value < 0 ? '-' : '';
+      if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2).replace(/\.?0+$/, '')}B`;
+      if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(2).replace(/\.?0+$/, '')}M`;
+      if (abs >= 1e3) return `${sign}$${(abs / 1e3).toFixed(2).replace(/\.?0+$/, '')}K`;
+      return `${sign}$${abs}`;
+    }
+  }
+}
+
+// "netIncome_growth" as "Net income growth", "revenue_cagr" as "Revenue CAGR"
+function metricLabel(name: string): string {
+  const label = words(name.replace(/([a-z])([A-Z])/g, '$1 $2'))
+    .toLowerCase()
+    .replace(/\b(cagr|ebitda|eps|ev)\b/g, acronym => acronym.toUpperCase());
+  return capitalize(label);
+}
+
+// Text safe inside a Markdown table cell
+function cell(text: string): string {
+  return text.replace(/\|/g, '/').replace(/\s+/g, ' ').trim();
+}
+
+function words(identifier: string): string {
+  return identifier.replace(/_/g, ' ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
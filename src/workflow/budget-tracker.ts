@@ -0,0 +1,130 @@
+import type { BudgetStatus, KeyQuestion, ResearchBudget, TokenUsage } from '../types/index.js';
+
+const PRIORITY_VALUES: Record<KeyQuestion['priority'], number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Budget Tracker
+ *
+ * Tracks a project's token and cost consumption against its scoping
+ * document budget and decides how the orchestrator should respond:
+ * warn at thresholds, downgrade the model, skip low-priority tasks, and
+ * stop research (keeping a reserve for the final report) when exhausted.
+ */
+export class BudgetTracker {
+  private tokensUsed = 0;
+  private costUsd = 0;
+  private warned = new Set<number>();
+  private skippedTasks: string[] = [];
+
+  constructor(private budget?: ResearchBudget) {}
+
+  /**
+   * Whether the project has a token or cost limit
+   */
+  get enabled(): boolean {
+    return Boolean(this.budget && (this.budget.maxTokens || this.budget.maxCostUsd));
+  }
+
+  /**
+   * Highest of token and cost utilization, 0-1 (may exceed 1 when overspent)
+   */
+  get utilization(): number {
+    if (!this.budget) return 0;
+
+    const tokenShare = this.budget.maxTokens ? this.tokensUsed / this.budget.maxTokens : 0;
+    const costShare = this.budget.maxCostUsd ? this.costUsd / this.budget.maxCostUsd : 0;
+    return Math.max(tokenShare, costShare);
+  }
+
+  /**
+   * Research budget is used up; only the report reserve remains
+   */
+  get researchExhausted(): boolean {
+    return this.enabled && this.utilization >= 1 - (this.budget?.reportReserve ?? 0);
+  }
+
+  /**
+   * Whole budget, including the report reserve, is used up
+   */
+  get exhausted(): boolean {
+    return this.enabled && this.utilization >= 1;
+  }
+
+  get maxToolCallsPerTask(): number | undefined {
+    return this.budget?.maxToolCallsPerTask;
+  }
+
+  /**
+   * Model to use for new tasks, when the budget calls for a cheaper one
+   */
+  get modelOverride(): string | undefined {
+    if (!this.enabled || !this.budget?.downgradeModel) return undefined;
+    return this.utilization >= this.budget.downgradeAt ? this.budget.downgradeModel : undefined;
+  }
+
+  /**
+   * Add a task's usage. Returns the warning thresholds crossed by this update.
+   */
+  record(usage: TokenUsage): number[] {
+    this.tokensUsed += usage.totalTokens;
+    this.costUsd += usage.costUsd;
+
+    if (!this.enabled || !this.budget) return [];
+
+    const crossed: number[] = [];
+    for (const threshold of this.budget.warningThresholds) {
+      if (this.utilization >= threshold && !this.warned.has(threshold)) {
+        this.warned.add(threshold);
+        crossed.push(threshold);
+      }
+    }
+    return crossed.sort((a, b) => a - b);
+  }
+
+  /**
+   * Whether a task of this priority should run given current consumption
+   */
+  shouldSkip(priority: number): boolean {
+    if (!this.enabled || !this.budget) return false;
+    if (this.researchExhausted) return true;
+
+    return this.utilization >= this.budget.skipAt && priority < PRIORITY_VALUES[this.budget.skipBelowPriority];
+  }
+
+  /**
+   * Continue from a stored status, so warnings already sent are not repeated
+   */
+  restore(status: BudgetStatus): void {
+    this.tokensUsed = status.tokensUsed;
+    this.costUsd = status.costUsd;
+    this.skippedTasks = [...status.skippedTasks];
+    for (const threshold of this.budget?.warningThresholds || []) {
+      if (this.utilization >= threshold) {
+        this.warned.add(threshold);
+      }
+    }
+  }
+
+  markSkipped(description: string): void {
+    this.skippedTasks.push(description);
+  }
+
+  getStatus(): BudgetStatus {
+    return {
+      maxTokens: this.budget?.maxTokens,
+      maxCostUsd: this.budget?.maxCostUsd,
+      tokensUsed: this.tokensUsed,
+      costUsd: this.costUsd,
+      utilization: this.utilization,
+      downgraded: this.modelOverride !== undefined,
+      researchExhausted: this.researchExhausted,
+      exhausted: this.exhausted,
+      skippedTasks: [...this.skippedTasks],
+    };
+  }
+}
@@ -0,0 +1,242 @@
+import type {
+  BibliographyEntry,
+  CitationLineage,
+  CitedFinding,
+  ReportCitations,
+  ReportSection,
+  ResearchFinding,
+  ResearchReport,
+  Source,
+  UnverifiedCitation,
+} from '../types/index.js';
+
+// [F3], [S12] or several in one marker: [F3, S12]. Not Markdown link text.
+const MARKER_PATTERN = /(\s*)\[([FS]\d+(?:\s*[,;]\s*[FS]\d+)*)\](?!\()/g;
+const KEY_SEPARATOR = /\s*[,;]\s*/;
+// Sentence ends, unless a citation follows the full stop
+const SENTENCE_BREAK = /(?<=[.!?])\s+(?!\[[FS]\d)/;
+
+interface CitedIds {
+  findings: Set<string>;
+  sources: Set<string>;
+}
+
+/**
+ * Short citation keys for the findings and sources given to the report
+ * generator (F1, F2... and S1, S2...), and resolution of the citations it
+ * writes back. A source is identified by its URL where it has one, so the
+ * copy of a page attached to a finding shares a key with the registered
+ * source row for the same page.
+ */
+export class CitationIndex {
+  private findings = new Map<string, ResearchFinding>();
+  private sources = new Map<string, Source>();
+  private findingKeys = new Map<string, string>();
+  private sourceKeys = new Map<string, string>();
+
+  constructor(findings: ResearchFinding[], sources: Source[] = []) {
+    // Registered sources first, so they are the ones findings resolve to
+    sources.forEach(source => this.addSource(source));
+    for (const finding of findings) {
+      const key = `F${this.findings.size + 1}`;
+      this.findings.set(key, finding);
+      this.findingKeys.set(finding.id, key);
+      finding.sources.forEach(source => this.addSource(source));
+    }
+  }
+
+  findingKey(finding: ResearchFinding): string | undefined {
+    return this.findingKeys.get(finding.id);
+  }
+
+  sourceKey(source: Source): string | undefined {
+    return this.sourceKeys.get(sourceIdentity(source));
+  }
+
+  /**
+   * Check every citation in a report against the index. Valid citations
+   * are renumbered in reading order, so source numbers match the
+   * bibliography; unknown ones are removed from the text and listed as
+   * unverified. Section findings and risk factor sources are rebuilt from
+   * what the text cites plus any IDs the model listed that do exist.
+   */
+  resolve(report: ResearchReport): ReportCitations {
+    const cited = new Map<string, CitedFinding>();
+    const bibliography = new Map<string, BibliographyEntry>();
+    const unverified: UnverifiedCitation[] = [];
+
+    const citeSource = (reference: Source): string => {
+      const source = this.canonicalSource(reference);
+      let entry = bibliography.get(sourceIdentity(source));
+      if (!entry) {
+        entry = {
+          key: `S${bibliography.size + 1}`,
+          sourceId: source.id,
+          title: source.title,
+          url: source.url,
+          author: source.author,
+          publishedDate: source.publishedDate,
+        };
+        bibliography.set(sourceIdentity(source), entry);
+      }
+      return entry.key;
+    };
+
+    const citeFinding = (finding: ResearchFinding): string => {
+      let entry = cited.get(finding.id);
+      if (!entry) {
+        entry = { key: `F${cited.size + 1}`, findingId: finding.id, title: finding.title, sourceKeys: [] };
+        cited.set(finding.id, entry);
+        entry.sourceKeys = [...new Set(finding.sources.map(citeSource))];
+      }
+      return entry.key;
+    };
+
+    // Cite a key or an ID, recording what it refers to; null if unknown
+    const cite = (citation: string, location: string, ids: CitedIds): string | null => {
+      const finding = this.findings.get(citation) ?? this.findings.get(this.findingKeys.get(citation) ?? '');
+      if (finding) {
+        ids.findings.add(finding.id);
+        finding.sources.forEach(source => ids.sources.add(this.canonicalSource(source).id));
+        return citeFinding(finding);
+      }
+      const source = this.sources.get(citation) ?? this.sources.get(this.sourceKeys.get(citation) ?? '');
+      if (source) {
+        ids.sources.add(source.id);
+        return citeSource(source);
+      }
+      unverified.push({ location, citation });
+      return null;
+    };
+
+    const rewrite = (text: string, location: string, ids: CitedIds): string =>
+      text.replace(MARKER_PATTERN, (_, space: string, list: string) => {
+        const keys = list.split(KEY_SEPARATOR)
+          .map(citation => cite(citation, location, ids))
+          .filter((key): key is string => key !== null);
+        return keys.length > 0 ? `${space}[${[...new Set(keys)].join(', ')}]` : '';
+      });
+
+    const newIds = (): CitedIds => ({ findings: new Set(), sources: new Set() });
+    const textOnly = newIds();
+
+    report.executiveSummary = rewrite(report.executiveSummary, 'executiveSummary', textOnly);
+    report.keyInsights = report.keyInsights.map((insight, index) => rewrite(insight, `keyInsights/${index}`, textOnly));
+
+    const resolveSection = (section: ReportSection): void => {
+      const location = `sections/${section.id}`;
+      const ids = newIds();
+      section.content = rewrite(section.content, location, ids);
+      (section.findings || []).forEach(citation => cite(citation, location, ids));
+      section.findings = [...ids.findings];
+      section.subsections?.forEach(resolveSection);
+    };
+    report.sections.forEach(resolveSection);
+
+    for (const risk of report.riskFactors) {
+      const location = `riskFactors/${risk.id}`;
+      const ids = newIds();
+      risk.description = rewrite(risk.description, location, ids);
+      if (risk.mitigation) {
+        risk.mitigation = rewrite(risk.mitigation, location, ids);
+      }
+      (risk.sources || []).forEach(citation => cite(citation, location, ids));
+      risk.sources = [...ids.sources];
+    }
+
+    report.recommendations = report.recommendations.map((recommendation, index) =>
+      rewrite(recommendation, `recommendations/${index}`, textOnly)
+    );
+
+    return {
+      findings: [...cited.values()],
+      bibliography: [...bibliography.values()],
+      unverified,
+    };
+  }
+
+  private addSource(source: Source): void {
+    let key = this.sourceKeys.get(sourceIdentity(source));
+    if (!key) {
+      key = `S${this.sources.size + 1}`;
+      this.sources.set(key, source);
+      this.sourceKeys.set(sourceIdentity(source), key);
+    }
+    // A finding's copy may carry its own ID; cited by ID, it resolves here too
+    if (source.id) {
+      this.sourceKeys.set(source.id, key);
+    }
+  }
+
+  /**
+   * The indexed source a finding's source refers to
+   */
+  private canonicalSource(source: Source): Source {
+    return this.sources.get(this.sourceKey(source) ?? '') ?? source;
+  }
+}
+
+function sourceIdentity(source: Source): string {
+  return source.url || source.id;
+}
+
+/**
+ * The findings and sources behind each sentence of a resolved report.
+ * With a query, only sentences containing it are returned.
+ */
+export function traceCitations(report: ResearchReport, query?: string): CitationLineage[] {
+  const findings = new Map((report.citations?.findings || []).map(finding => [finding.key, finding]));
+  const bibliography = report.citations?.bibliography || [];
+  const needle = query?.trim().toLowerCase();
+  const lineage: CitationLineage[] = [];
+
+  for (const { location, text } of reportTexts(report)) {
+    for (const sentence of text.split(SENTENCE_BREAK)) {
+      const plain = sentence.replace(MARKER_PATTERN, '').trim();
+      if (!plain || (needle && !plain.toLowerCase().includes(needle))) continue;
+
+      const keys = [...sentence.matchAll(MARKER_PATTERN)].flatMap(match => match[2].split(KEY_SEPARATOR));
+      const sentenceFindings = [...new Set(keys)]
+        .map(key => findings.get(key))
+        .filter((finding): finding is CitedFinding => finding !== undefined);
+      const sourceKeys = new Set([
+        ...keys.filter(key => key.startsWith('S')),
+        ...sentenceFindings.flatMap(finding => finding.sourceKeys),
+      ]);
+
+      lineage.push({
+        location,
+        text: plain,
+        findings: sentenceFindings,
+        sources: bibliography.filter(entry => sourceKeys.has(entry.key)),
+      });
+    }
+  }
+
+  return lineage;
+}
+
+/**
+ * Citation markers removed, for output that has no bibliography
+ */
+export function stripCitations(text: string): string {
+  return text.replace(MARKER_PATTERN, '');
+}
+
+function reportTexts(report: ResearchReport): Array<{ location: string; text: string }> {
+  const texts = [{ location: 'executiveSummary', text: report.executiveSummary }];
+  report.keyInsights.forEach((text, index) => texts.push({ location: `keyInsights/${index}`, text }));
+
+  const addSection = (section: ReportSection): void => {
+    texts.push({ location: `sections/${section.id}`, text: section.content });
+    section.subsections?.forEach(addSection);
+  };
+  report.sections.forEach(addSection);
+
+  for (const risk of report.riskFactors) {
+    texts.push({ location: `riskFactors/${risk.id}`, text: [risk.description, risk.mitigation].filter(Boolean).join(' ') });
+  }
+  report.recommendations.forEach((text, index) => texts.push({ location: `recommendations/${index}`, text }));
+
+  return texts;
+}
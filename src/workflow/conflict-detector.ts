@@ -0,0 +1,354 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AgentDBClient } from '../memory/agentdb-client.js';
+import type { ConflictClaim, FindingConflict, ReportSection, ResearchFinding } from '../types/index.js';
+
+export interface ConflictDetectorOptions {
+  /** Relative difference tolerated between amounts and counts (default 10%) */
+  tolerance?: number;
+  /** Difference in percentage points tolerated between percentages (default 2) */
+  percentPointTolerance?: number;
+}
+
+interface MetricDefinition {
+  metric: string;
+  unit: ConflictClaim['unit'];
+  keyword: RegExp;
+}
+
+interface ExtractedClaim extends ConflictClaim {
+  questionId: string;
+  metric: string;
+  period?: string;
+}
+
+// Memory entries written by the detector are attributed to this agent ID
+const DETECTOR_AGENT_ID = 'conflict-detector';
+
+const METRICS: MetricDefinition[] = [
+  { metric: 'annual recurring revenue', unit: 'usd', keyword: /\b(ARR|[Aa]nnual [Rr]ecurring [Rr]evenue)\b/ },
+  { metric: 'revenue', unit: 'usd', keyword: /(?<!recurring )\b(revenues?|sales|turnover)\b/i },
+  { metric: 'revenue growth', unit: 'percent', keyword: /\b(revenues?|sales) (growth|grew|increased|rose)\b/i },
+  { metric: 'net income', unit: 'usd', keyword: /\bnet (income|loss|profit)\b/i },
+  { metric: 'gross margin', unit: 'percent', keyword: /\bgross margins?\b/i },
+  { metric: 'operating margin', unit: 'percent', keyword: /\boperating margins?\b/i },
+  { metric: 'total funding', unit: 'usd', keyword: /\b(total funding|raised a total of|has raised)\b/i },
+  { metric: 'valuation', unit: 'usd', keyword: /\b(valuation|valued at)\b/i },
+  { metric: 'employees', unit: 'count', keyword: /\b(employees|staff|headcount|workforce)\b/i },
+  { metric: 'customers', unit: 'count', keyword: /\bcustomers\b/i },
+];
+
+const VALUE_PATTERNS: Record<ConflictClaim['unit'], RegExp> = {
+  usd: /\$\s?(\d[\d,]*(?:\.\d+)?)\s*(trillion|billion|million|thousand|tn|bn|mm|[bmk])?\b/gi,
+  percent: /(\d+(?:\.\d+)?)\s?(?:%|percent\b)/gi,
+  count: /\b(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(thousand|k)?\b/gi,
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  trillion: 1e12, tn: 1e12,
+  billion: 1e9, bn: 1e9, b: 1e9,
+  million: 1e6, mm: 1e6, m: 1e6,
+  thousand: 1e3, k: 1e3,
+};
+
+// Sentences about other companies are not claims about the target
+const COMPARISON_PATTERN = /\b(competitors?|rivals?|peers?|compared (to|with)|versus|vs\.?)\b/i;
+
+// How far from a metric keyword a value may appear
+const VALUE_WINDOW_AFTER = 80;
+const VALUE_WINDOW_BEFORE = 30;
+
+/**
+ * Conflict Detector
+ *
+ * Reads numeric claims (revenue, margins, headcount, funding, ...) from
+ * each finding and flags findings on the same key question that report
+ * different values for the same metric and period. Conflicts are stored as
+ * `conflict` memory entries, linked from the findings involved, and stay
+ * open until an analyst resolves them.
+ */
+export class ConflictDetector {
+  private tolerance: number;
+  private percentPointTolerance: number;
+
+  constructor(private memory: AgentDBClient, options: ConflictDetectorOptions = {}) {
+    this.tolerance = options.tolerance ?? 0.1;
+    this.percentPointTolerance = options.percentPointTolerance ?? 2;
+  }
+
+  /**
+   * Compare a project's findings and record contradictions. Returns the
+   * conflicts that are new or gained claims since the last run.
+   */
+  detect(projectId: string, entity: string): FindingConflict[] {
+    const findings = this.memory.getFindings(projectId).filter(f => f.category !== 'final_report');
+    const groups = new Map<string, ExtractedClaim[]>();
+
+    for (const finding of findings) {
+      for (const claim of extractClaims(finding)) {
+        const key = [claim.questionId, claim.metric, claim.period || ''].join('|');
+        const group = groups.get(key) || [];
+        group.push(claim);
+        groups.set(key, group);
+      }
+    }
+
+    const existing = this.list(projectId);
+    const findingsById = new Map(findings.map(f => [f.id, f]));
+    const changed: FindingConflict[] = [];
+
+    for (const claims of groups.values()) {
+      if (!this.contradicts(claims)) continue;
+
+      const [first] = claims;
+      const previous = existing.find(
+        c => c.questionId === first.questionId && c.metric === first.metric && (c.period || '') === (first.period || '')
+      );
+
+      if (previous) {
+        const known = new Set(previous.claims.map(c => `${c.findingId}|${c.value}`));
+        const added = claims.filter(c => !known.has(`${c.findingId}|${c.value}`));
+        if (added.length === 0) continue;
+
+        const updated: FindingConflict = {
+          ...previous,
+          claims: [...previous.claims, ...added.map(toConflictClaim)],
+          status: 'open',
+          resolution: undefined,
+        };
+        this.memory.updateMemoryMetadata(previous.id, { ...updated });
+        this.linkFindings(updated, findingsById);
+        changed.push(updated);
+        continue;
+      }
+
+      const conflict: FindingConflict = {
+        id: uuidv4(),
+        projectId,
+        questionId: first.questionId,
+        entity,
+        metric: first.metric,
+        period: first.period,
+        claims: claims.map(toConflictClaim),
+        status: 'open',
+        detectedAt: new Date().toISOString(),
+      };
+
+      this.memory.storeMemory({
+        id: conflict.id,
+        projectId,
+        agentId: DETECTOR_AGENT_ID,
+        type: 'conflict',
+        content: describeConflict(conflict),
+        metadata: { ...conflict },
+      });
+      this.linkFindings(conflict, findingsById);
+      changed.push(conflict);
+    }
+
+    return changed;
+  }
+
+  list(projectId: string, status?: FindingConflict['status']): FindingConflict[] {
+    return this.memory
+      .getMemories(projectId, undefined, 'conflict')
+      .map(entry => entry.metadata as unknown as FindingConflict)
+      .filter(conflict => !status || conflict.status === status);
+  }
+
+  /**
+   * Record an analyst's resolution of a conflict
+   */
+  resolve(
+    projectId: string,
+    conflictId: string,
+    resolution: { note: string; acceptedFindingId?: string }
+  ): FindingConflict | null {
+    const conflict = this.list(projectId).find(c => c.id === conflictId);
+    if (!conflict) return null;
+
+    if (resolution.acceptedFindingId && !conflict.claims.some(c => c.findingId === resolution.acceptedFindingId)) {
+      throw new Error(`Finding ${resolution.acceptedFindingId} is not part of conflict ${conflictId}`);
+    }
+
+    const resolved: FindingConflict = {
+      ...conflict,
+      status: 'resolved',
+      resolution: { ...resolution, resolvedAt: new Date().toISOString() },
+    };
+    this.memory.updateMemoryMetadata(conflictId, { ...resolved });
+    return resolved;
+  }
+
+  /**
+   * Whether two different findings report values outside the tolerance
+   */
+  private contradicts(claims: ExtractedClaim[]): boolean {
+    for (let i = 0; i < claims.length; i++) {
+      for (let j = i + 1; j < claims.length; j++) {
+        if (claims[i].findingId !== claims[j].findingId && !this.agrees(claims[i], claims[j])) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private agrees(a: ConflictClaim, b: ConflictClaim): boolean {
+    if (a.unit === 'percent') {
+      return Math.abs(a.value - b.value) <= this.percentPointTolerance;
+    }
+    const larger = Math.max(Math.abs(a.value), Math.abs(b.value));
+    return larger === 0 || Math.abs(a.value - b.value) / larger <= this.tolerance;
+  }
+
+  private linkFindings(conflict: FindingConflict, findingsById: Map<string, ResearchFinding>): void {
+    for (const findingId of new Set(conflict.claims.map(c => c.findingId))) {
+      const finding = findingsById.get(findingId);
+      const conflicts = finding?.metadata.conflicts || [];
+      if (finding && !conflicts.includes(conflict.id)) {
+        finding.metadata.conflicts = [...conflicts, conflict.id];
+        this.memory.updateFindingMetadata(findingId, { conflicts: finding.metadata.conflicts });
+      }
+    }
+  }
+}
+
+/**
+ * Report section listing conflicts that are still open, or null if none
+ */
+export function conflictsSection(conflicts: FindingConflict[]): ReportSection | null {
+  const open = conflicts.filter(c => c.status === 'open');
+  if (open.length === 0) return null;
+
+  const content = open
+    .map(conflict => {
+      const claims = conflict.claims.map(claim => {
+        const sources = claim.sources.map(s => s.title).join('; ') || 'no cited source';
+        return `- ${formatValue(claim.value, claim.unit)} (${claim.agentType}; ${sources}): "${claim.text}"`;
+      });
+      return `**${capitalize(conflict.metric)}${conflict.period ? ` (${conflict.period})` : ''}**\n${claims.join('\n')}`;
+    })
+    .join('\n\n');
+
+  return {
+    id: 'conflicting-evidence',
+    title: 'Conflicting evidence',
+    content: `The following figures differ between findings and have not been resolved:\n\n${content}`,
+    findings: [...new Set(open.flatMap(c => c.claims.map(claim => claim.findingId)))],
+  };
+}
+
+function describeConflict(conflict: FindingConflict): string {
+  const values = conflict.claims.map(c => `${formatValue(c.value, c.unit)} (${c.agentType})`).join(' vs ');
+  return `Conflicting ${conflict.metric} for ${conflict.entity}${conflict.period ? ` (${conflict.period})` : ''}: ${values}`;
+}
+
+/**
+ * Numeric claims stated in a finding's summary and content
+ */
+function extractClaims(finding: ResearchFinding): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = [];
+  const seen = new Set<string>();
+  const sources = finding.sources.map(s => ({ id: s.id, title: s.title, url: s.url }));
+
+  for (const sentence of splitSentences(`${finding.summary}\n${finding.content}`)) {
+    if (COMPARISON_PATTERN.test(sentence)) continue;
+    const period = findPeriod(sentence);
+
+    for (const definition of METRICS) {
+      const match = definition.keyword.exec(sentence);
+      if (!match) continue;
+
+      const value = findValue(sentence, match.index, match.index + match[0].length, definition.unit);
+      if (value === null) continue;
+
+      const key = `${definition.metric}|${period || ''}|${value}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      claims.push({
+        questionId: finding.questionId,
+        metric: definition.metric,
+        period,
+        findingId: finding.id,
+        agentType: finding.agentType,
+        value,
+        unit: definition.unit,
+        text: sentence.trim(),
+        sources,
+      });
+    }
+  }
+
+  return claims;
+}
+
+function toConflictClaim(claim: ExtractedClaim): ConflictClaim {
+  const { findingId, agentType, value, unit, text, sources } = claim;
+  return { findingId, agentType, value, unit, text, sources };
+}
+
+function splitSentences(text: string): string[] {
+  // Split after sentence punctuation, but not inside numbers like 1.5
+  return text.split(/(?<=[.!?])\s+|\n+/).filter(sentence => sentence.trim().length > 0);
+}
+
+/**
+ * Fiscal quarter or year mentioned in a sentence
+ */
+function findPeriod(sentence: string): string | undefined {
+  const quarter = sentence.match(/\bQ([1-4])\s*(?:FY\s?)?((?:19|20)\d{2})\b/i);
+  if (quarter) return `Q${quarter[1]} ${quarter[2]}`;
+
+  const year = sentence.match(/\b(?:FY\s?|fiscal(?: year)?\s)?((?:19|20)\d{2})\b/i);
+  return year ? year[1] : undefined;
+}
+
+/**
+ * The value of the given unit closest after the keyword, or just before it
+ */
+function findValue(sentence: string, keywordStart: number, keywordEnd: number, unit: ConflictClaim['unit']): number | null {
+  const after = firstValue(sentence.slice(keywordEnd, keywordEnd + VALUE_WINDOW_AFTER), unit);
+  if (after !== null) return after;
+
+  return lastValue(sentence.slice(Math.max(0, keywordStart - VALUE_WINDOW_BEFORE), keywordStart), unit);
+}
+
+function firstValue(text: string, unit: ConflictClaim['unit']): number | null {
+  return parseValues(text, unit)[0] ?? null;
+}
+
+function lastValue(text: string, unit: ConflictClaim['unit']): number | null {
+  const values = parseValues(text, unit);
+  return values.length > 0 ? values[values.length - 1] : null;
+}
+
+function parseValues(text: string, unit: ConflictClaim['unit']): number[] {
+  const values: number[] = [];
+  for (const match of text.matchAll(VALUE_PATTERNS[unit])) {
+    const number = parseFloat(match[1].replace(/,/g, ''));
+    if (isNaN(number)) continue;
+
+    // Bare four-digit numbers in this range are years, not counts
+    if (unit === 'count' && !match[2] && /^(19|20)\d{2}$/.test(match[1])) continue;
+
+    const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] || 1 : 1;
+    values.push(number * multiplier);
+  }
+  return values;
+}
+
+function formatValue(value: number, unit: ConflictClaim['unit']): string {
+  if (unit === 'percent') return `${value}%`;
+  if (unit === 'count') return value.toLocaleString('en-US');
+
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `$${(value / 1e9).toFixed(2).replace(/\.?0+$/, '')}B`;
+  if (abs >= 1e6) return `$${(value / 1e6).toFixed(2).replace(/\.?0+$/, '')}M`;
+  if (abs >= 1e3) return `$${(value / 1e3).toFixed(2).replace(/\.?0+$/, '')}K`;
+  return `$${value}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,182 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AgentDBClient } from '../memory/agentdb-client.js';
+import { similarityMatrix } from '../memory/embedding-provider.js';
+import type { ResearchFinding, Source } from '../types/index.js';
+
+export interface DeduplicationOptions {
+  /** Cosine similarity at or above which two findings are duplicates (0-1) */
+  similarityThreshold?: number;
+}
+
+export interface MergedFinding {
+  canonical: ResearchFinding;
+  supersededIds: string[];
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+
+const CONFIDENCE_RANK: Record<ResearchFinding['confidence'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Finding Deduplicator
+ *
+ * Several agents can be dispatched for the same question and store
+ * near-identical findings. For each question, similar findings are
+ * clustered and merged into one canonical finding that carries the union
+ * of their sources; the originals stay in the database marked as
+ * superseded, so they drop out of getFindings but remain auditable.
+ */
+export class FindingDeduplicator {
+  private similarityThreshold: number;
+
+  constructor(private memory: AgentDBClient, options: DeduplicationOptions = {}) {
+    this.similarityThreshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  }
+
+  /**
+   * Merge duplicates in a project. Findings in skipFindingIds (e.g. parties
+   * to an open conflict) are left as they are.
+   */
+  deduplicate(projectId: string, skipFindingIds: Set<string> = new Set()): MergedFinding[] {
+    const byQuestion = new Map<string, ResearchFinding[]>();
+    for (const finding of this.memory.getFindings(projectId)) {
+      if (finding.category === 'final_report' || skipFindingIds.has(finding.id)) continue;
+      const group = byQuestion.get(finding.questionId) || [];
+      group.push(finding);
+      byQuestion.set(finding.questionId, group);
+    }
+
+    const merged: MergedFinding[] = [];
+    for (const findings of byQuestion.values()) {
+      for (const cluster of this.cluster(findings)) {
+        if (cluster.length > 1) {
+          merged.push(this.merge(cluster));
+        }
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Greedy clustering: each finding, strongest first, joins the first
+   * cluster whose seed it matches, otherwise it seeds a new cluster
+   */
+  private cluster(findings: ResearchFinding[]): ResearchFinding[][] {
+    if (findings.length < 2) return [findings];
+
+    const ordered = [...findings].sort(compareStrength);
+    const provider = this.memory.embeddingProvider;
+    const similarity = similarityMatrix(
+      ordered.map(f => provider.embed(`${f.title}\n${f.summary}\n${f.content}`)),
+      provider.idfWeighted
+    );
+
+    const clusters: number[][] = [];
+    ordered.forEach((_, index) => {
+      const cluster = clusters.find(members => similarity[members[0]][index] >= this.similarityThreshold);
+      if (cluster) {
+        cluster.push(index);
+      } else {
+        clusters.push([index]);
+      }
+    });
+
+    return clusters.map(members => members.map(index => ordered[index]));
+  }
+
+  /**
+   * Store a canonical finding for a cluster and mark its members superseded.
+   * The strongest finding provides the title and content, with the others'
+   * summaries appended as corroborating detail. The summary, which is what
+   * synthesis and the report see, combines every distinct summary so no
+   * member's facts are lost.
+   */
+  private merge(cluster: ResearchFinding[]): MergedFinding {
+    const [primary, ...others] = cluster;
+    const mergedIds = cluster.map(f => f.id);
+    const now = new Date().toISOString();
+
+    const corroboration = others
+      .filter(f => f.summary && f.summary !== primary.summary)
+      .map(f => `- [${f.agentType}] ${f.summary}`);
+
+    const canonical: ResearchFinding = {
+      id: uuidv4(),
+      projectId: primary.projectId,
+      questionId: primary.questionId,
+      agentId: primary.agentId,
+      agentType: primary.agentType,
+      category: primary.category,
+      title: primary.title,
+      content: corroboration.length > 0
+        ? `${primary.content}\n\nCorroborating findings:\n${corroboration.join('\n')}`
+        : primary.content,
+      summary: distinctSummaries(cluster).join(' '),
+      confidence: primary.confidence,
+      sources: unionSources(cluster),
+      relatedFindings: [
+        ...mergedIds,
+        ...new Set(cluster.flatMap(f => f.relatedFindings).filter(id => !mergedIds.includes(id))),
+      ],
+      metadata: {
+        discoveredAt: cluster.map(f => f.metadata.discoveredAt).sort()[0] || now,
+        lastUpdated: now,
+        rawData: cluster.find(f => f.metadata.rawData !== undefined)?.metadata.rawData,
+        mergedFrom: mergedIds,
+      },
+    };
+
+    this.memory.storeFinding(canonical);
+    for (const id of mergedIds) {
+      this.memory.updateFindingMetadata(id, { supersededBy: canonical.id });
+    }
+
+    return { canonical, supersededIds: mergedIds };
+  }
+}
+
+/**
+ * Higher confidence first, then more sources, then longer content
+ */
+function compareStrength(a: ResearchFinding, b: ResearchFinding): number {
+  return (
+    CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] ||
+    b.sources.length - a.sources.length ||
+    b.content.length - a.content.length
+  );
+}
+
+/**
+ * The cluster's summaries, strongest first, leaving out repeats that differ
+ * only in case, spacing or a trailing full stop
+ */
+function distinctSummaries(cluster: ResearchFinding[]): string[] {
+  const seen = new Set<string>();
+  const summaries: string[] = [];
+  for (const summary of cluster.map(f => f.summary.trim())) {
+    const key = summary.toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '');
+    if (!summary || seen.has(key)) continue;
+    seen.add(key);
+    summaries.push(summary);
+  }
+  return summaries;
+}
+
+/**
+ * Union of the cluster's sources, treating sources with the same URL as one
+ */
+function unionSources(cluster: ResearchFinding[]): Source[] {
+  const seen = new Set<string>();
+  const sources: Source[] = [];
+  for (const source of cluster.flatMap(f => f.sources)) {
+    const key = source.url || source.id;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    sources.push(source);
+  }
+  return sources;
+}
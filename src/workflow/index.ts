@@ -1 +1,25 @@
 export { ScopingParser, scopingParser } from './scoping-parser.js';
+export { BudgetTracker } from './budget-tracker.js';
+export { ConflictDetector, conflictsSection, type ConflictDetectorOptions } from './conflict-detector.js';
+export { TaskScheduler, type SchedulableTask, type ScheduledTask, type TaskSchedulerHooks } from './task-scheduler.js';
+export { planFollowUpTasks, followUpAgentType } from './research-rounds.js';
+export {
+  buildResearchPlan,
+  checkResearchPlan,
+  previewResearchPlan,
+  questionPriority,
+  type PlanPreviewOptions,
+} from './research-plan.js';
+export {
+  buildAppendices,
+  mergeAppendices,
+  sourceListAppendix,
+  timelineAppendix,
+  financialMetricsAppendix,
+  methodologyAppendix,
+  type AppendixData,
+  type TaskUsageRecord,
+} from './appendices.js';
+export { validatePlan, normalizePlan, PlanValidationError, PLAN_AGENT_TYPES } from './plan-validation.js';
+export { FindingDeduplicator, type DeduplicationOptions, type MergedFinding } from './finding-dedup.js';
+export { CitationIndex, traceCitations, stripCitations } from './citations.js';
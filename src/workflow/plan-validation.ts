@@ -0,0 +1,85 @@
+import type { KeyQuestion, PlanTask } from '../types/index.js';
+import { TaskScheduler } from './task-scheduler.js';
+
+// Agents that can be assigned tasks in a research plan
+export const PLAN_AGENT_TYPES = ['web_researcher', 'financial_analyst', 'competitive_intelligence', 'news_monitor'];
+
+/**
+ * Raised when a submitted research plan cannot be run
+ */
+export class PlanValidationError extends Error {
+  readonly status = 400;
+
+  constructor(public readonly errors: string[]) {
+    super(`Invalid research plan: ${errors.join('; ')}`);
+    this.name = 'PlanValidationError';
+  }
+}
+
+/**
+ * Problems that would stop a submitted plan from running, such as unknown
+ * agents or questions, or dependencies that are missing or circular.
+ * Returns an empty list for a valid plan.
+ */
+export function validatePlan(tasks: unknown, keyQuestions: KeyQuestion[]): string[] {
+  if (!Array.isArray(tasks) || tasks.length === 0) {
+    return ['The plan must contain at least one task'];
+  }
+
+  const errors: string[] = [];
+  const questionIds = new Set(keyQuestions.map(q => q.id));
+  const ids = new Set<string>();
+
+  tasks.forEach((task: Partial<PlanTask>, index) => {
+    const label = `Task ${typeof task?.id === 'string' && task.id ? task.id : index + 1}`;
+
+    if (typeof task?.id !== 'string' || !task.id) {
+      errors.push(`${label} has no id`);
+    } else if (ids.has(task.id)) {
+      errors.push(`${label} appears more than once`);
+    } else {
+      ids.add(task.id);
+    }
+
+    if (!PLAN_AGENT_TYPES.includes(task?.agentType as string)) {
+      errors.push(`${label} has unknown agent type ${task?.agentType}; expected one of ${PLAN_AGENT_TYPES.join(', ')}`);
+    }
+    if (task?.questionId !== undefined && !questionIds.has(task.questionId)) {
+      errors.push(`${label} refers to unknown question ${task.questionId}`);
+    }
+    if (typeof task?.priority !== 'number') {
+      errors.push(`${label} has no numeric priority`);
+    }
+    if (!Array.isArray(task?.dependencies) || task.dependencies.some(id => typeof id !== 'string')) {
+      errors.push(`${label} must list its dependencies as task ids`);
+    }
+  });
+
+  if (errors.length === 0) {
+    try {
+      new TaskScheduler(tasks as PlanTask[], 1);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid task dependencies');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * A validated plan as a fresh plan to run: every task pending in the first
+ * round, with its question text filled in from the scoping document
+ */
+export function normalizePlan(tasks: PlanTask[], keyQuestions: KeyQuestion[]): PlanTask[] {
+  return tasks.map(task => ({
+    id: task.id,
+    agentType: task.agentType,
+    questionId: task.questionId,
+    question: task.question || keyQuestions.find(q => q.id === task.questionId)?.question,
+    additionalContext: task.additionalContext,
+    priority: task.priority,
+    dependencies: task.dependencies,
+    status: 'pending',
+    round: 1,
+  }));
+}
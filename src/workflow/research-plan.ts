@@ -0,0 +1,195 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AGENT_MODELS, DEFAULT_AGENT_MODEL } from '../agents/agent-models.js';
+import { estimateCost, formatCost, getPricingTable } from '../usage/index.js';
+import { followUpAgentType } from './research-rounds.js';
+import { validatePlan, normalizePlan, PlanValidationError } from './plan-validation.js';
+import type { KeyQuestion, PlanPreview, PlanTask, ScopingDocument, WorkflowPhase } from '../types/index.js';
+
+// Agents whose tasks build on web research for the same question
+const ANALYSIS_AGENT_TYPES = ['financial_analyst', 'competitive_intelligence'];
+
+const QUESTION_PRIORITIES: Record<KeyQuestion['priority'], number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Workflow settings that shape a plan preview
+ */
+export interface PlanPreviewOptions {
+  maxResearchDepth: number;
+  qualityReview: boolean;
+  reviseAfterReview: boolean;
+}
+
+/**
+ * The initial research plan for a scoping document
+ */
+export function buildResearchPlan(scopingDocument: ScopingDocument): PlanTask[] {
+  const tasks: PlanTask[] = [];
+  const { keyQuestions, targetCompany, dataSources } = scopingDocument;
+  const newTask = (agentType: string, question: string, priority: number): PlanTask => ({
+    id: uuidv4(),
+    agentType,
+    question,
+    priority,
+    dependencies: [],
+    status: 'pending',
+    round: 1,
+  });
+
+  // Add general research tasks if enabled
+  const backgroundTaskIds: string[] = [];
+  if (dataSources.webSearch) {
+    const backgroundTask = newTask('web_researcher', `General company research and background on ${targetCompany.name}`, 2);
+    tasks.push(backgroundTask);
+    backgroundTaskIds.push(backgroundTask.id);
+  }
+
+  if (dataSources.newsArticles) {
+    tasks.push(newTask('news_monitor', `Recent news and developments at ${targetCompany.name}`, 2));
+  }
+
+  if (dataSources.financialReports) {
+    tasks.push({
+      ...newTask('financial_analyst', `Financial overview and health assessment of ${targetCompany.name}`, 2),
+      dependencies: backgroundTaskIds,
+    });
+  }
+
+  // Create tasks for each key question. Analysis agents build on the
+  // background research and on the web research for the same question.
+  for (const question of keyQuestions) {
+    // Determine which agents should handle this question
+    const agentTypes = agentsForQuestion(question, dataSources);
+    const questionTasks = agentTypes.map(agentType => ({
+      ...newTask(agentType, question.question, questionPriority(question.priority)),
+      questionId: question.id,
+      additionalContext: question.subQuestions?.join('; '),
+    }));
+
+    const researchTaskIds = questionTasks.filter(t => t.agentType === 'web_researcher').map(t => t.id);
+    for (const task of questionTasks) {
+      if (ANALYSIS_AGENT_TYPES.includes(task.agentType)) {
+        task.dependencies = [...backgroundTaskIds, ...researchTaskIds];
+      }
+    }
+    tasks.push(...questionTasks);
+  }
+
+  return tasks;
+}
+
+/**
+ * Validate a submitted plan, returning it ready to run
+ */
+export function checkResearchPlan(scopingDocument: ScopingDocument, plan: PlanTask[]): PlanTask[] {
+  const errors = validatePlan(plan, scopingDocument.keyQuestions);
+  if (errors.length > 0) {
+    throw new PlanValidationError(errors);
+  }
+  return normalizePlan(plan, scopingDocument.keyQuestions);
+}
+
+/**
+ * Plan a scoping document's research without running it: the tasks, the
+ * agents assigned to each question, the phases that will run and an
+ * estimated token and cost range, priced from each agent's model. An
+ * edited plan can be passed in to re-estimate it; it is validated first.
+ */
+export function previewResearchPlan(
+  scopingDocument: ScopingDocument,
+  options: PlanPreviewOptions,
+  plan?: PlanTask[]
+): PlanPreview {
+  const { keyQuestions, budget } = scopingDocument;
+  const tasks = plan ? checkResearchPlan(scopingDocument, plan) : buildResearchPlan(scopingDocument);
+
+  const phases: WorkflowPhase[] = ['planning', 'research', 'synthesis', 'report'];
+  if (options.qualityReview) {
+    phases.push('review');
+  }
+  phases.push('finalize');
+
+  // Follow-up rounds and a report revision may or may not run
+  const followUpRounds = Math.max(0, options.maxResearchDepth - 1);
+  const revisions = options.qualityReview && options.reviseAfterReview ? 1 : 0;
+  const runs: Array<{ agentType: string; runs: { low: number; high: number } }> = [
+    ...tasks.map(task => ({ agentType: task.agentType, runs: { low: 1, high: 1 } })),
+    ...tasks.map(task => ({ agentType: followUpAgentType(task.agentType), runs: { low: 0, high: followUpRounds } })),
+    { agentType: 'data_synthesizer', runs: { low: keyQuestions.length, high: keyQuestions.length } },
+    { agentType: 'report_generator', runs: { low: 1, high: 1 + revisions } },
+  ];
+  if (options.qualityReview) {
+    runs.push({ agentType: 'quality_reviewer', runs: { low: 1, high: 1 + revisions } });
+  }
+
+  const estimate = estimateCost(
+    runs.map(run => ({ ...run, model: AGENT_MODELS[run.agentType] || DEFAULT_AGENT_MODEL })),
+    getPricingTable()
+  );
+
+  const warnings: string[] = [];
+  if (tasks.length === 0) {
+    warnings.push('No research tasks: enable at least one data source or add key questions.');
+  }
+  const limits = [
+    { label: 'token', max: budget?.maxTokens, range: estimate.tokens, format: (n: number) => n.toLocaleString('en-US') },
+    { label: 'cost', max: budget?.maxCostUsd, range: estimate.costUsd, format: formatCost },
+  ];
+  for (const { label, max, range, format } of limits) {
+    if (!max) continue;
+    if (range.low > max) {
+      warnings.push(`Even the low estimate exceeds the ${label} budget of ${format(max)}; expect skipped tasks and a partial report.`);
+    } else if (range.high > max) {
+      warnings.push(`The high estimate exceeds the ${label} budget of ${format(max)}; low-priority tasks or follow-up rounds may be skipped.`);
+    }
+  }
+
+  return {
+    projectName: scopingDocument.projectName,
+    targetCompany: scopingDocument.targetCompany.name,
+    tasks,
+    questions: keyQuestions.map(question => ({
+      questionId: question.id,
+      question: question.question,
+      agentTypes: [...new Set(tasks.filter(t => t.questionId === question.id).map(t => t.agentType))],
+    })),
+    phases,
+    estimate,
+    warnings,
+  };
+}
+
+/**
+ * Convert question priority to numeric value
+ */
+export function questionPriority(priority: KeyQuestion['priority']): number {
+  return QUESTION_PRIORITIES[priority] || 2;
+}
+
+/**
+ * Determine which agents should handle a question based on category.
+ * News coverage is only consulted when the scope enables news articles.
+ */
+function agentsForQuestion(question: KeyQuestion, dataSources: ScopingDocument['dataSources']): string[] {
+  const categoryAgentMap: Record<string, string[]> = {
+    financial: ['financial_analyst', 'web_researcher'],
+    competitive: ['competitive_intelligence', 'web_researcher'],
+    market: ['competitive_intelligence', 'web_researcher'],
+    leadership: ['web_researcher'],
+    technology: ['web_researcher', 'competitive_intelligence'],
+    legal: ['web_researcher'],
+    operational: ['web_researcher', 'financial_analyst'],
+    reputation: ['web_researcher'],
+    custom: ['web_researcher'],
+  };
+
+  const agentTypes = categoryAgentMap[question.category] || ['web_researcher'];
+  const newsCategories = ['leadership', 'legal', 'reputation'];
+  return dataSources.newsArticles && newsCategories.includes(question.category)
+    ? [...agentTypes, 'news_monitor']
+    : agentTypes;
+}
@@ -0,0 +1,111 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { PlanTask, ResearchFinding } from '../types/index.js';
+
+// Reported gaps carried into a single follow-up task
+const MAX_GAPS_PER_TASK = 5;
+
+// Low-confidence findings to corroborate in a single follow-up task
+const MAX_FINDINGS_PER_TASK = 3;
+
+// Agents that follow up on their own gaps; gaps from other agents go to web research
+const FOLLOW_UP_AGENT_TYPES = ['web_researcher', 'financial_analyst', 'competitive_intelligence'];
+
+interface FollowUpGroup {
+  agentType: string;
+  questionId?: string;
+  question?: string;
+  priority: number;
+  gaps: string[];
+  findings: ResearchFinding[];
+}
+
+/**
+ * Plan the next research round from the previous one. Each question gets
+ * at most one follow-up task per agent, asking it to fill the gaps that
+ * agent reported and to corroborate the round's low-confidence findings.
+ * Returns no tasks when the previous round left nothing to follow up.
+ */
+export function planFollowUpTasks(previousRound: PlanTask[], findings: ResearchFinding[], round: number): PlanTask[] {
+  const groups = new Map<string, FollowUpGroup>();
+  const groupFor = (agentType: string, task: PlanTask): FollowUpGroup => {
+    const key = `${agentType}:${task.questionId || 'general'}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        agentType,
+        questionId: task.questionId,
+        question: task.question,
+        priority: task.priority,
+        gaps: [],
+        findings: [],
+      };
+      groups.set(key, group);
+    }
+    group.priority = Math.max(group.priority, task.priority);
+    return group;
+  };
+
+  for (const task of previousRound) {
+    if (task.status !== 'completed' || !task.gaps?.length) continue;
+    groupFor(followUpAgentType(task.agentType), task).gaps.push(...task.gaps);
+  }
+
+  // Only the round's own findings; earlier ones were followed up in an earlier round
+  for (const finding of findings) {
+    if (finding.confidence !== 'low' || finding.category === 'final_report') continue;
+
+    const task = previousRound.find(t => t.agentId === finding.agentId);
+    if (task) {
+      groupFor('web_researcher', task).findings.push(finding);
+    }
+  }
+
+  return [...groups.values()]
+    .map(group => ({ ...group, gaps: uniqueGaps(group.gaps).slice(0, MAX_GAPS_PER_TASK) }))
+    .filter(group => group.gaps.length > 0 || group.findings.length > 0)
+    .map(group => ({
+      id: uuidv4(),
+      agentType: group.agentType,
+      questionId: group.questionId,
+      question: group.question,
+      additionalContext: describeFollowUp(group, round),
+      priority: group.priority,
+      dependencies: [],
+      status: 'pending' as const,
+      round,
+    }));
+}
+
+/**
+ * The agent that follows up on gaps reported by a task of this type
+ */
+export function followUpAgentType(agentType: string): string {
+  return FOLLOW_UP_AGENT_TYPES.includes(agentType) ? agentType : 'web_researcher';
+}
+
+function describeFollowUp(group: FollowUpGroup, round: number): string {
+  const parts = [`Follow-up research (round ${round}).`];
+
+  if (group.gaps.length > 0) {
+    parts.push(`Earlier research could not establish: ${group.gaps.join('; ')}.`);
+  }
+
+  const findings = group.findings.slice(0, MAX_FINDINGS_PER_TASK);
+  if (findings.length > 0) {
+    parts.push(`Find independent sources that confirm or correct these low-confidence findings: ${findings.map(f => `"${f.title}" (${f.summary})`).join('; ')}.`);
+  }
+
+  return parts.join(' ');
+}
+
+function uniqueGaps(gaps: string[]): string[] {
+  const seen = new Set<string>();
+  return gaps
+    .map(gap => gap.trim())
+    .filter(gap => {
+      const key = gap.toLowerCase();
+      if (!gap || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,187 @@
+import type { PlanTaskStatus } from '../types/index.js';
+
+/**
+ * The fields the scheduler needs from a task
+ */
+export interface SchedulableTask {
+  id: string;
+  /** Higher runs first among tasks that are ready at the same time */
+  priority: number;
+  /** IDs of tasks that must complete before this one starts */
+  dependencies: string[];
+}
+
+export interface ScheduledTask<T extends SchedulableTask> {
+  task: T;
+  status: PlanTaskStatus;
+  /** Why the task failed or was skipped or blocked */
+  reason?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface TaskSchedulerHooks<T extends SchedulableTask> {
+  /** Run a task; resolves to whether it succeeded */
+  run(task: T): Promise<boolean>;
+  /** Checked just before a ready task is dispatched */
+  shouldSkip?(task: T): boolean;
+  /** A task reached a final status */
+  onSettled?(entry: ScheduledTask<T>): void;
+  /** A running task stopped because the signal was aborted, and is pending again */
+  onInterrupted?(entry: ScheduledTask<T>): void;
+}
+
+/**
+ * Task Scheduler
+ *
+ * Runs a set of tasks as a dependency graph: a task is dispatched as soon as
+ * all of its dependencies have completed and a concurrency slot is free.
+ * When a task fails or is skipped, every task that depends on it, directly
+ * or transitively, is marked blocked and never runs.
+ *
+ * Aborting the run's signal stops new dispatches. Tasks that fail while the
+ * signal is aborted were interrupted rather than failed, so they return to
+ * pending and run again the next time the plan is run.
+ */
+export class TaskScheduler<T extends SchedulableTask> {
+  private entries: Map<string, ScheduledTask<T>>;
+
+  constructor(tasks: T[], private maxConcurrency: number) {
+    this.entries = new Map(tasks.map(task => [task.id, { task, status: 'pending' as PlanTaskStatus }]));
+    this.validate();
+  }
+
+  /**
+   * Set a task's state from a saved checkpoint. A task saved as running did
+   * not finish, so it is pending again.
+   */
+  restore(taskId: string, saved: Omit<ScheduledTask<T>, 'task'>): void {
+    const entry = this.entries.get(taskId);
+    if (!entry) return;
+
+    if (saved.status === 'running') {
+      entry.status = 'pending';
+      return;
+    }
+    Object.assign(entry, saved);
+  }
+
+  /**
+   * Run every pending task, resolving once all tasks have reached a final
+   * status or, after the signal is aborted, once running tasks have stopped.
+   * A task that throws counts as failed.
+   */
+  run(hooks: TaskSchedulerHooks<T>, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      let running = 0;
+
+      const settle = (entry: ScheduledTask<T>, status: PlanTaskStatus, reason?: string) => {
+        if (status === 'failed' && signal?.aborted) {
+          entry.status = 'pending';
+          entry.startedAt = undefined;
+          hooks.onInterrupted?.(entry);
+          return;
+        }
+
+        entry.status = status;
+        entry.reason = reason;
+        entry.completedAt = new Date().toISOString();
+        hooks.onSettled?.(entry);
+        if (status === 'failed' || status === 'skipped') {
+          this.blockDependents(entry.task.id, hooks);
+        }
+      };
+
+      const dispatch = () => {
+        for (const entry of signal?.aborted ? [] : this.readyEntries()) {
+          if (running >= this.maxConcurrency) break;
+          if (entry.status !== 'pending') continue;
+
+          if (hooks.shouldSkip?.(entry.task)) {
+            settle(entry, 'skipped', 'Skipped to stay within budget');
+            continue;
+          }
+
+          entry.status = 'running';
+          entry.startedAt = new Date().toISOString();
+          running++;
+
+          hooks.run(entry.task)
+            .then(
+              success => settle(entry, success ? 'completed' : 'failed'),
+              error => settle(entry, 'failed', error instanceof Error ? error.message : 'Unknown error')
+            )
+            .finally(() => {
+              running--;
+              dispatch();
+            });
+        }
+
+        if (running === 0 && (signal?.aborted || this.readyEntries().length === 0)) {
+          resolve();
+        }
+      };
+
+      dispatch();
+    });
+  }
+
+  getEntries(): ScheduledTask<T>[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Pending tasks whose dependencies have all completed, highest priority first
+   */
+  private readyEntries(): ScheduledTask<T>[] {
+    return [...this.entries.values()]
+      .filter(entry =>
+        entry.status === 'pending' &&
+        entry.task.dependencies.every(id => this.entries.get(id)?.status === 'completed')
+      )
+      .sort((a, b) => b.task.priority - a.task.priority);
+  }
+
+  private blockDependents(taskId: string, hooks: TaskSchedulerHooks<T>): void {
+    for (const entry of this.entries.values()) {
+      if (entry.status === 'pending' && entry.task.dependencies.includes(taskId)) {
+        entry.status = 'blocked';
+        entry.reason = `Dependency ${taskId} did not complete`;
+        entry.completedAt = new Date().toISOString();
+        hooks.onSettled?.(entry);
+        this.blockDependents(entry.task.id, hooks);
+      }
+    }
+  }
+
+  /**
+   * Reject unknown dependencies and cycles, which would leave tasks
+   * pending forever
+   */
+  private validate(): void {
+    for (const { task } of this.entries.values()) {
+      const unknown = task.dependencies.find(id => !this.entries.has(id));
+      if (unknown) {
+        throw new Error(`Task ${task.id} depends on unknown task ${unknown}`);
+      }
+    }
+
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+    const visit = (id: string) => {
+      if (visited.has(id)) return;
+      if (visiting.has(id)) {
+        throw new Error(`Task dependency cycle through ${id}`);
+      }
+      visiting.add(id);
+      for (const dependency of this.entries.get(id)?.task.dependencies || []) {
+        visit(dependency);
+      }
+      visiting.delete(id);
+      visited.add(id);
+    };
+    for (const id of this.entries.keys()) {
+      visit(id);
+    }
+  }
+}
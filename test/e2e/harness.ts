@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { ResearchOrchestrator } from '../../src/agents/index.js';
+import { LocalPageFetcher } from '../../src/fetcher/index.js';
+import { ReplayLLMClient } from '../../src/llm/index.js';
+import { FixtureSearchProvider } from '../../src/search/index.js';
+import { scopingParser } from '../../src/workflow/index.js';
+import type { ResearchProject, ScopingDocument, WebSocketEvent } from '../../src/types/index.js';
+
+/**
+ * Recorded model responses, search corpus and pages for a small Stripe
+ * project. The model fixtures were saved by RecordingLLMClient from runs of
+ * this scoping document against this corpus and these pages; they need
+ * recording again after a prompt changes.
+ */
+export const FIXTURES_DIR = fileURLToPath(new URL('../fixtures/replay/', import.meta.url));
+
+/**
+ * The fixture scoping document under a new project ID, with any overrides
+ */
+export function readScopingDocument(overrides: Partial<ScopingDocument> = {}): ScopingDocument {
+  const document = JSON.parse(readFileSync(join(FIXTURES_DIR, 'scoping-document.json'), 'utf-8'));
+  return scopingParser.parseJSON(JSON.stringify({ ...document, ...overrides }));
+}
+
+/**
+ * An orchestrator that runs entirely from fixtures, with no network access.
+ * Tasks run one at a time within a project so each replays the requests it
+ * was recorded with.
+ */
+export function createReplayOrchestrator(dbPath: string): ResearchOrchestrator {
+  return new ResearchOrchestrator({
+    dbPath,
+    maxConcurrentAgents: 1,
+    maxResearchDepth: 1,
+    llmClient: new ReplayLLMClient(join(FIXTURES_DIR, 'llm')),
+    searchProvider: new FixtureSearchProvider(join(FIXTURES_DIR, 'search-corpus.json')),
+    pageFetcher: new LocalPageFetcher(join(FIXTURES_DIR, 'pages'), 5 * 1024 * 1024),
+  });
+}
+
+/**
+ * Start projects side by side and wait until every one has completed.
+ * Rejects with the error of the first project that fails.
+ */
+export async function runProjects(
+  orchestrator: ResearchOrchestrator,
+  documents: ScopingDocument[]
+): Promise<ResearchProject[]> {
+  const pending = new Set(documents.map(document => document.id));
+  const settled = new Promise<void>((resolve, reject) => {
+    const onEvent = (event: WebSocketEvent) => {
+      if (!pending.has(event.projectId)) return;
+      if (event.type === 'project:failed') {
+        orchestrator.off('event', onEvent);
+        reject(new Error(`Project ${event.projectId} failed: ${(event.payload as { error: string }).error}`));
+      } else if (event.type === 'project:completed') {
+        pending.delete(event.projectId);
+        if (pending.size === 0) {
+          orchestrator.off('event', onEvent);
+          resolve();
+        }
+      }
+    };
+    orchestrator.on('event', onEvent);
+  });
+
+  await Promise.all(documents.map(document => orchestrator.startProject(document)));
+  await settled;
+
+  return documents.map(document => orchestrator.getProject(document.id) as ResearchProject);
+}
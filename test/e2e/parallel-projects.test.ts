@@ -0,0 +1,83 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ResearchOrchestrator } from '../../src/agents/index.js';
+import { closeAgentDB } from '../../src/memory/agentdb-client.js';
+import type { ResearchProject } from '../../src/types/index.js';
+import { createReplayOrchestrator, readScopingDocument, runProjects } from './harness.js';
+
+// Enough for the first research tasks, not the whole plan
+const TIGHT_BUDGET = { maxTokens: 12000 };
+
+describe('projects running side by side on one orchestrator', () => {
+  let dir: string;
+  let orchestrator: ResearchOrchestrator;
+  let alone: ResearchProject;
+  let unlimited: ResearchProject;
+  let budgeted: ResearchProject;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'replay-parallel-'));
+    orchestrator = createReplayOrchestrator(join(dir, 'research.db'));
+    [alone] = await runProjects(orchestrator, [readScopingDocument()]);
+    [unlimited, budgeted] = await runProjects(orchestrator, [
+      readScopingDocument(),
+      readScopingDocument({ budget: TIGHT_BUDGET }),
+    ]);
+  }, 60_000);
+
+  afterAll(() => {
+    closeAgentDB();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('completes both projects', () => {
+    expect(unlimited.status).toBe('completed');
+    expect(budgeted.status).toBe('completed');
+    expect(unlimited.id).not.toBe(budgeted.id);
+  });
+
+  it('keeps each project on its own task queue', () => {
+    const unlimitedTasks = orchestrator.getPlan(unlimited.id)?.tasks || [];
+    const budgetedTasks = orchestrator.getPlan(budgeted.id)?.tasks || [];
+    const unlimitedIds = new Set(unlimitedTasks.map(task => task.id));
+
+    expect(unlimitedTasks.length).toBe(orchestrator.getPlan(alone.id)?.tasks.length);
+    expect(budgetedTasks.length).toBe(unlimitedTasks.length);
+    expect(budgetedTasks.some(task => unlimitedIds.has(task.id))).toBe(false);
+
+    // Only the budgeted project skips work
+    expect(unlimitedTasks.every(task => task.status === 'completed')).toBe(true);
+    expect(budgetedTasks.some(task => task.status === 'skipped')).toBe(true);
+  });
+
+  it('keeps findings and agent statuses per project', () => {
+    expect(unlimited.findings.length).toBeGreaterThan(0);
+    expect(unlimited.findings.every(finding => finding.projectId === unlimited.id)).toBe(true);
+    expect(budgeted.findings.every(finding => finding.projectId === budgeted.id)).toBe(true);
+    expect(unlimited.findings.length).toBe(alone.findings.length);
+
+    expect(unlimited.agents).not.toBe(budgeted.agents);
+    for (const agent of [...unlimited.agents, ...budgeted.agents]) {
+      expect(agent.activeTasks).toBe(0);
+      expect(agent.status).not.toBe('active');
+    }
+    const tokensByType = (project: ResearchProject) =>
+      Object.fromEntries(project.agents.map(agent => [agent.type, agent.tokensUsed]));
+    expect(tokensByType(unlimited)).toEqual(tokensByType(alone));
+  });
+
+  it('charges each project only for its own usage', () => {
+    expect(unlimited.metadata.budget).toBeUndefined();
+    expect(unlimited.metadata.totalTokensUsed).toBe(alone.metadata.totalTokensUsed);
+    expect(unlimited.report?.metadata.partial).toBeFalsy();
+
+    const budget = budgeted.metadata.budget;
+    expect(budget?.researchExhausted).toBe(true);
+    expect(budget?.skippedTasks.length).toBeGreaterThan(0);
+    expect(budget?.tokensUsed).toBe(budgeted.metadata.totalTokensUsed);
+    expect(budgeted.metadata.totalTokensUsed).toBeLessThan(unlimited.metadata.totalTokensUsed);
+    expect(budgeted.report?.metadata.partial).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ResearchOrchestrator } from '../../src/agents/index.js';
+import { FixtureNotFoundError, ReplayLLMClient } from '../../src/llm/index.js';
+import { closeAgentDB } from '../../src/memory/agentdb-client.js';
+import type { ResearchProject } from '../../src/types/index.js';
+import { FIXTURES_DIR, createReplayOrchestrator, readScopingDocument, runProjects } from './harness.js';
+
+describe('replayed research project', () => {
+  let dir: string;
+  let orchestrator: ResearchOrchestrator;
+  let project: ResearchProject;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'replay-e2e-'));
+    orchestrator = createReplayOrchestrator(join(dir, 'research.db'));
+    [project] = await runProjects(orchestrator, [readScopingDocument()]);
+  }, 60_000);
+
+  afterAll(() => {
+    closeAgentDB();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('completes every planned task', () => {
+    expect(project.status).toBe('completed');
+    expect(project.errors).toEqual([]);
+
+    const tasks = orchestrator.getPlan(project.id)?.tasks || [];
+    expect(tasks.map(task => task.agentType).sort()).toEqual([
+      'competitive_intelligence',
+      'web_researcher',
+      'web_researcher',
+      'web_researcher',
+    ]);
+    expect(tasks.every(task => task.status === 'completed')).toBe(true);
+  });
+
+  it('stores findings whose sources are the registered sources', () => {
+    expect(project.findings.length).toBeGreaterThan(0);
+    const sourceIds = new Set(project.findings.flatMap(finding => finding.sources.map(source => source.id)));
+    expect(sourceIds.has('')).toBe(false);
+  });
+
+  it('writes a report whose citations all resolve', () => {
+    const report = project.report;
+    expect(report).not.toBeNull();
+    expect(report?.citations?.unverified).toEqual([]);
+    expect(report?.citations?.findings.length).toBeGreaterThan(0);
+    expect(report?.citations?.bibliography.length).toBeGreaterThan(1);
+    expect(report?.executiveSummary).toMatch(/\[F1\]/);
+  });
+
+  it('records token usage from the replayed responses', () => {
+    expect(project.metadata.totalTokensUsed).toBeGreaterThan(0);
+    expect(project.agents.every(agent => agent.activeTasks === 0)).toBe(true);
+  });
+});
+
+describe('ReplayLLMClient', () => {
+  it('fails a request that has no recording', async () => {
+    const client = new ReplayLLMClient(join(FIXTURES_DIR, 'llm'));
+    await expect(client.createMessage({
+      model: 'claude-opus-4-5-20251101',
+      max_tokens: 16,
+      messages: [{ role: 'user', content: 'A request that was never recorded' }],
+    })).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AgentDBClient } from '../../src/memory/agentdb-client.js';
+import { LocalEmbeddingProvider } from '../../src/memory/embedding-provider.js';
+import { ConflictDetector } from '../../src/workflow/conflict-detector.js';
+import type { ResearchFinding } from '../../src/types/index.js';
+
+const PROJECT_ID = 'project-1';
+
+function finding(id: string, content: string): ResearchFinding {
+  return {
+    id,
+    projectId: PROJECT_ID,
+    questionId: 'q-1',
+    agentId: `agent-${id}`,
+    agentType: 'financial_analyst',
+    category: 'financial',
+    title: id,
+    summary: '',
+    content,
+    confidence: 'medium',
+    sources: [{ id: `source-${id}`, type: 'web', url: `https://example.com/${id}`, title: id, accessedAt: '2024-01-01T00:00:00Z', relevanceScore: 0.8 }],
+    relatedFindings: [],
+    metadata: { discoveredAt: '2024-01-01T00:00:00Z', lastUpdated: '2024-01-01T00:00:00Z' },
+  };
+}
+
+describe('ConflictDetector', () => {
+  let memory: AgentDBClient;
+  let detector: ConflictDetector;
+  let stored: number;
+
+  const detect = (...contents: string[]) => {
+    for (const content of contents) {
+      memory.storeFinding(finding(`f${++stored}`, content));
+    }
+    return detector.detect(PROJECT_ID, 'Acme');
+  };
+
+  beforeEach(() => {
+    memory = new AgentDBClient(':memory:', 1536, new LocalEmbeddingProvider());
+    memory.createProject(PROJECT_ID, 'Acme', 'Acme', {});
+    detector = new ConflictDetector(memory);
+    stored = 0;
+  });
+
+  afterEach(() => {
+    memory.close();
+  });
+
+  it('reads the same amount written with different scales as agreeing', () => {
+    expect(detect(
+      "Acme's revenue was $1.2B in 2023.",
+      "Acme's 2023 revenue came to $1,200 million."
+    )).toEqual([]);
+  });
+
+  it('keeps ARR and revenue apart', () => {
+    expect(detect(
+      "Acme's ARR reached $300 million in 2023.",
+      "Acme's revenue was $450 million in 2023.",
+      'Annual recurring revenue was $290 million in 2023.'
+    )).toEqual([]);
+
+    const [conflict] = detect("Acme's ARR was $500 million in 2023.");
+    expect(conflict.metric).toBe('annual recurring revenue');
+    expect(conflict.claims.map(claim => claim.value).sort()).toEqual([290e6, 300e6, 500e6]);
+  });
+
+  it('does not read years as headcount', () => {
+    expect(detect(
+      "Acme's workforce in 2023 was 2,500 people.",
+      'Acme had 2,500 employees at the end of 2023.'
+    )).toEqual([]);
+  });
+
+  it('ignores sentences about competitors', () => {
+    expect(detect(
+      "Acme's revenue was $500 million in 2023.",
+      'Competitors such as Globex reported revenue of $900 million in 2023.'
+    )).toEqual([]);
+  });
+
+  it('reports a conflict once however often it runs', () => {
+    const [conflict] = detect(
+      'Acme had 1,000 employees in 2023.',
+      'Acme had 1,500 employees in 2023.'
+    );
+    expect(conflict.metric).toBe('employees');
+    expect(conflict.period).toBe('2023');
+
+    expect(detector.detect(PROJECT_ID, 'Acme')).toEqual([]);
+    expect(detector.list(PROJECT_ID)).toHaveLength(1);
+    for (const f of memory.getFindings(PROJECT_ID)) {
+      expect(f.metadata.conflicts).toEqual([conflict.id]);
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AgentDBClient } from '../../src/memory/agentdb-client.js';
+import { LocalEmbeddingProvider } from '../../src/memory/embedding-provider.js';
+import { FindingDeduplicator } from '../../src/workflow/finding-dedup.js';
+import type { ResearchFinding } from '../../src/types/index.js';
+
+const PROJECT_ID = 'project-1';
+
+function finding(
+  id: string,
+  fields: Pick<ResearchFinding, 'title' | 'summary' | 'content'> & Partial<ResearchFinding>
+): ResearchFinding {
+  return {
+    id,
+    projectId: PROJECT_ID,
+    questionId: 'q-1',
+    agentId: `agent-${id}`,
+    agentType: 'web_researcher',
+    category: 'financial',
+    confidence: 'medium',
+    sources: [{ id: `source-${id}`, type: 'web', url: `https://example.com/${id}`, title: id, accessedAt: '2024-01-01T00:00:00Z', relevanceScore: 0.8 }],
+    relatedFindings: [],
+    metadata: { discoveredAt: '2024-01-01T00:00:00Z', lastUpdated: '2024-01-01T00:00:00Z' },
+    ...fields,
+  };
+}
+
+describe('FindingDeduplicator', () => {
+  let memory: AgentDBClient;
+
+  beforeEach(() => {
+    memory = new AgentDBClient(':memory:', 1536, new LocalEmbeddingProvider());
+    memory.createProject(PROJECT_ID, 'Stripe', 'Stripe', {});
+  });
+
+  afterEach(() => {
+    memory.close();
+  });
+
+  it('merges near-duplicates and keeps a related but distinct finding apart', () => {
+    memory.storeFinding(finding('revenue-web', {
+      title: 'Stripe 2023 revenue',
+      summary: "Stripe's revenue was about $14 billion in 2023.",
+      content: "Stripe's revenue was about $14 billion in 2023, according to people familiar with its results.",
+      confidence: 'high',
+    }));
+    memory.storeFinding(finding('revenue-financial', {
+      title: 'Stripe revenue for 2023',
+      summary: 'Stripe generated revenue of about $14 billion in 2023, up from 2022.',
+      content: 'Stripe generated revenue of about $14 billion in 2023, up from 2022.',
+      agentType: 'financial_analyst',
+    }));
+    memory.storeFinding(finding('growth', {
+      title: 'Stripe 2023 revenue growth',
+      summary: "Stripe's revenue grew 25% in 2023 as payment volume rose.",
+      content: "Stripe's revenue grew 25% in 2023, driven by payment volume growth from large enterprises.",
+    }));
+
+    const merged = new FindingDeduplicator(memory).deduplicate(PROJECT_ID);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].supersededIds.sort()).toEqual(['revenue-financial', 'revenue-web']);
+    expect(memory.getFindings(PROJECT_ID).map(f => f.id).sort()).toEqual([merged[0].canonical.id, 'growth'].sort());
+  });
+
+  it('keeps every distinct summary in the canonical finding', () => {
+    memory.storeFinding(finding('a', {
+      title: 'Stripe 2023 revenue',
+      summary: "Stripe's revenue was about $14 billion in 2023.",
+      content: "Stripe's revenue was about $14 billion in 2023.",
+      confidence: 'high',
+    }));
+    memory.storeFinding(finding('b', {
+      title: 'Stripe 2023 revenue',
+      summary: "Stripe's revenue was about $14 billion in 2023, up from $12 billion in 2022.",
+      content: "Stripe's revenue was about $14 billion in 2023.",
+    }));
+    memory.storeFinding(finding('c', {
+      title: 'Stripe 2023 revenue',
+      summary: "stripe's revenue was about $14 billion in 2023",
+      content: "Stripe's revenue was about $14 billion in 2023.",
+      confidence: 'low',
+    }));
+
+    const [{ canonical }] = new FindingDeduplicator(memory).deduplicate(PROJECT_ID);
+
+    expect(canonical.summary).toBe(
+      "Stripe's revenue was about $14 billion in 2023. Stripe's revenue was about $14 billion in 2023, up from $12 billion in 2022."
+    );
+    expect(canonical.sources).toHaveLength(3);
+    expect(canonical.metadata.mergedFrom).toEqual(['a', 'b', 'c']);
+  });
+});